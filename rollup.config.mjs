@@ -34,7 +34,6 @@ const externalDeps = [
   'os',
   'protobufjs/minimal',
   'protobufjs/minimal.js',
-  'p-retry',
 ];
 
 export default [
@@ -8,9 +8,146 @@ import * as types from './types.js';
 
 export const DEFAULT_MAX_REMOTE_CALLS = 10;
 
+/**
+ * Options that automatic function calling passes to
+ * {@link CallableTool.callTool} as its second argument.
+ */
+export interface CallToolOptions {
+  /**
+   * Aborted when the result of the call is no longer needed, for example
+   * because the server cancelled the tool call of a Live session.
+   */
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Options for automatic function calling, in addition to those of
+ * `AutomaticFunctionCallingConfig`. Set them on a variable of this type and
+ * pass it as the `automaticFunctionCalling` config of a request.
+ *
+ * @remarks
+ * The `timeout` of the config of a CallableTool, as set by `mcpToTool` and
+ * `FunctionTool`, limits how long each of its calls is waited for.
+ */
+export interface AutomaticFunctionCallingOptions
+  extends types.AutomaticFunctionCallingConfig {
+  /** Whether to run the function calls of a model response concurrently
+   * instead of one after another. The function responses keep the order of
+   * the function calls. If not set, default to false. */
+  parallelFunctionCalls?: boolean;
+  /** Called before each function call is run. Return false to deny the call,
+   * in which case the model receives a function response with an error
+   * instead. */
+  approveFunctionCall?: (
+    functionCall: types.FunctionCall,
+  ) => boolean | Promise<boolean>;
+  /** Whether to answer a function call that throws, times out or has no
+   * matching tool with a function response holding the error, so that the
+   * model can recover from it. If not set, default to false, and the error is
+   * thrown to the caller. Live sessions always answer with the error. */
+  respondWithErrors?: boolean;
+  /** Called when the model requests a function call, before the call is
+   * approved and run. */
+  onFunctionCall?: (event: AutomaticFunctionCallEvent) => void;
+  /** Called when a function call has finished, with the response or error
+   * sent back to the model. */
+  onFunctionResponse?: (trace: AutomaticFunctionCallTrace) => void;
+}
+
+/** A function call requested by the model during automatic function calling. */
+export interface AutomaticFunctionCallEvent {
+  /** The 1-based number of the model response that requested the call. */
+  iteration: number;
+  /** The function call requested by the model. */
+  functionCall: types.FunctionCall;
+}
+
+/** A function call run by automatic function calling. */
+export interface AutomaticFunctionCallTrace {
+  /** The 1-based number of the model response that requested the call. */
+  iteration: number;
+  /** The id of the function call, if the model set one. */
+  id?: string;
+  /** The name of the called function. */
+  name?: string;
+  /** The arguments the function was called with. */
+  args?: Record<string, unknown>;
+  /** The response of the function, as sent back to the model. */
+  response?: Record<string, unknown>;
+  /** Why the call failed, if it threw, timed out, was denied or had no
+   * matching tool. */
+  error?: string;
+  /** When the call started, in milliseconds since the Unix epoch. */
+  startTime: number;
+  /** How long the call took, in milliseconds. */
+  latencyMs: number;
+}
+
+/** What happened during automatic function calling. */
+export interface AutomaticFunctionCallingTrace {
+  /** The function calls that were run, in order. */
+  calls: AutomaticFunctionCallTrace[];
+  /** The usage metadata of each model response, in order. The
+   * `usageMetadata` of the final response adds them up. */
+  usageMetadata: types.GenerateContentResponseUsageMetadata[];
+}
+
+// The trace of each response of `generateContent` that used automatic
+// function calling, for `getAutomaticFunctionCallingTrace`.
+const traces = new WeakMap<
+  types.GenerateContentResponse,
+  AutomaticFunctionCallingTrace
+>();
+
+/** Remembers the trace of a response, for `getAutomaticFunctionCallingTrace`. */
+export function setAutomaticFunctionCallingTrace(
+  response: types.GenerateContentResponse,
+  trace: AutomaticFunctionCallingTrace,
+) {
+  traces.set(response, trace);
+}
+
+/**
+ * Returns what happened during the automatic function calling of a response:
+ * the function calls with their arguments, results, errors and latency, and
+ * the usage metadata of each model response.
+ *
+ * @param response - A response of `models.generateContent`.
+ * @return The trace, or undefined if the request did not use automatic
+ *     function calling.
+ *
+ * @example
+ * ```ts
+ * const response = await ai.models.generateContent({
+ *   model: 'gemini-2.5-flash',
+ *   contents: 'What is the weather in Paris?',
+ *   config: {tools: [weatherTool]},
+ * });
+ * for (const call of getAutomaticFunctionCallingTrace(response)?.calls ?? []) {
+ *   console.debug(call.name, call.latencyMs);
+ * }
+ * ```
+ */
+export function getAutomaticFunctionCallingTrace(
+  response: types.GenerateContentResponse,
+): AutomaticFunctionCallingTrace | undefined {
+  return traces.get(response);
+}
+
+// A CallableTool as called by automatic function calling.
+interface AfcCallableTool extends types.CallableTool {
+  readonly config?: types.CallableToolConfig;
+  callTool(
+    functionCalls: types.FunctionCall[],
+    options?: CallToolOptions,
+  ): Promise<types.Part[]>;
+}
+
 /** Returns whether automatic function calling is disabled. */
 export function shouldDisableAfc(
-  config: types.GenerateContentConfig | undefined,
+  config:
+    | Pick<types.GenerateContentConfig, 'automaticFunctionCalling' | 'tools'>
+    | undefined,
 ): boolean {
   if (config?.automaticFunctionCalling?.disable) {
     return true;
@@ -89,3 +226,247 @@ export function shouldAppendAfcHistory(
 ): boolean {
   return !config?.automaticFunctionCalling?.ignoreCallHistory;
 }
+
+/** Options for {@link callFunctions}. */
+export interface CallFunctionsOptions {
+  /** The 1-based number of the model response that requested the calls. */
+  iteration?: number;
+  /** Returns a signal that aborts a call, if any. */
+  getAbortSignal?: (
+    functionCall: types.FunctionCall,
+  ) => AbortSignal | undefined;
+}
+
+/** The outcome of a function call run by {@link callFunctions}. */
+export interface FunctionCallResult {
+  /** The parts to send back to the model. */
+  parts: types.Part[];
+  /** The trace of the call. */
+  trace: AutomaticFunctionCallTrace;
+}
+
+/**
+ * Runs the function calls of a model response with the matching
+ * CallableTools, following the automatic function calling config.
+ *
+ * A call that is denied or aborted before it starts is answered with a
+ * `functionResponse` whose response holds an `error`. So is a call that
+ * fails, times out or has no matching tool if `respondWithErrors` is set,
+ * otherwise its error is thrown.
+ *
+ * @param functionCalls The function calls to run.
+ * @param afcTools The CallableTools, by function name.
+ * @param config The automatic function calling config.
+ * @param options The options for running the calls.
+ * @return The result of each function call, in the order of the calls.
+ */
+export async function callFunctions(
+  functionCalls: types.FunctionCall[],
+  afcTools: Map<string, types.CallableTool>,
+  config?: AutomaticFunctionCallingOptions,
+  options: CallFunctionsOptions = {},
+): Promise<FunctionCallResult[]> {
+  const iteration = options.iteration ?? 1;
+  const call = async (
+    functionCall: types.FunctionCall,
+  ): Promise<FunctionCallResult> => {
+    config?.onFunctionCall?.({iteration, functionCall});
+    const startTime = Date.now();
+    const traceCall = (parts: types.Part[], error?: string) => {
+      const trace: AutomaticFunctionCallTrace = {
+        iteration,
+        id: functionCall.id,
+        name: functionCall.name,
+        args: functionCall.args,
+        response: parts.find((part) => part.functionResponse)?.functionResponse
+          ?.response,
+        error,
+        startTime,
+        latencyMs: Date.now() - startTime,
+      };
+      config?.onFunctionResponse?.(trace);
+      return trace;
+    };
+    let outcome: {parts: types.Part[]; error?: string};
+    try {
+      outcome = await callFunction(
+        functionCall,
+        afcTools,
+        config,
+        options.getAbortSignal?.(functionCall),
+      );
+    } catch (e) {
+      traceCall([], errorMessage(e));
+      throw e;
+    }
+    return {
+      parts: outcome.parts,
+      trace: traceCall(outcome.parts, outcome.error),
+    };
+  };
+  if (config?.parallelFunctionCalls) {
+    return Promise.all(functionCalls.map(call));
+  }
+  const results: FunctionCallResult[] = [];
+  for (const functionCall of functionCalls) {
+    results.push(await call(functionCall));
+  }
+  return results;
+}
+
+const CANCELLED_ERROR = 'The function call was cancelled.';
+
+async function callFunction(
+  functionCall: types.FunctionCall,
+  afcTools: Map<string, types.CallableTool>,
+  config: AutomaticFunctionCallingOptions | undefined,
+  abortSignal: AbortSignal | undefined,
+): Promise<{parts: types.Part[]; error?: string}> {
+  const name = functionCall.name;
+  const tool: AfcCallableTool | undefined =
+    name !== undefined ? afcTools.get(name) : undefined;
+  if (!tool) {
+    if (!config?.respondWithErrors) {
+      throw new Error(
+        `Automatic function calling was requested, but not all the tools the model used implement the CallableTool interface. Available tools: ${[
+          ...afcTools.keys(),
+        ].join(', ')}, missing tool: ${name}`,
+      );
+    }
+    return functionError(
+      functionCall,
+      `Function ${name} is not available. Available functions: ${[
+        ...afcTools.keys(),
+      ].join(', ')}.`,
+    );
+  }
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(abortSignal?.reason);
+  abortSignal?.addEventListener('abort', onAbort);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    // A call cancelled before it started, for example while the calls before
+    // it ran, is not run.
+    if (abortSignal?.aborted) {
+      return functionError(functionCall, CANCELLED_ERROR);
+    }
+    if (
+      config?.approveFunctionCall &&
+      !(await config.approveFunctionCall(functionCall))
+    ) {
+      return functionError(functionCall, 'The function call was denied.');
+    }
+    if (abortSignal?.aborted) {
+      return functionError(functionCall, CANCELLED_ERROR);
+    }
+    const result = tool.callTool([functionCall], {
+      abortSignal: controller.signal,
+    });
+    const timeout = tool.config?.timeout;
+    const parts = timeout
+      ? await Promise.race([
+          result,
+          new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+              const error = new Error(
+                `Function ${name} timed out after ${timeout}ms.`,
+              );
+              controller.abort(error);
+              reject(error);
+            }, timeout);
+          }),
+        ])
+      : await result;
+    return {
+      parts: parts.map((part) =>
+        part.functionResponse && functionCall.id && !part.functionResponse.id
+          ? {
+              ...part,
+              functionResponse: {...part.functionResponse, id: functionCall.id},
+            }
+          : part,
+      ),
+    };
+  } catch (e) {
+    if (!config?.respondWithErrors) {
+      throw e;
+    }
+    return functionError(functionCall, errorMessage(e));
+  } finally {
+    clearTimeout(timer);
+    abortSignal?.removeEventListener('abort', onAbort);
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function functionError(
+  functionCall: types.FunctionCall,
+  error: string,
+): {parts: types.Part[]; error: string} {
+  const part: types.Part = {
+    functionResponse: {
+      ...(functionCall.id ? {id: functionCall.id} : {}),
+      name: functionCall.name,
+      response: {error},
+    },
+  };
+  return {parts: [part], error};
+}
+
+/**
+ * Adds up the usage metadata of the model responses of an automatic function
+ * calling loop.
+ */
+export function sumUsageMetadata(
+  usageMetadata: types.GenerateContentResponseUsageMetadata[],
+): types.GenerateContentResponseUsageMetadata {
+  const total = new types.GenerateContentResponseUsageMetadata();
+  const counts = [
+    'cachedContentTokenCount',
+    'candidatesTokenCount',
+    'promptTokenCount',
+    'thoughtsTokenCount',
+    'toolUsePromptTokenCount',
+    'totalTokenCount',
+  ] as const;
+  const details = [
+    'cacheTokensDetails',
+    'candidatesTokensDetails',
+    'promptTokensDetails',
+    'toolUsePromptTokensDetails',
+  ] as const;
+  for (const usage of usageMetadata) {
+    for (const key of counts) {
+      if (usage[key] !== undefined) {
+        total[key] = (total[key] ?? 0) + usage[key];
+      }
+    }
+    for (const key of details) {
+      if (usage[key] !== undefined) {
+        total[key] = sumModalityTokenCounts(total[key] ?? [], usage[key]);
+      }
+    }
+    total.trafficType = usage.trafficType ?? total.trafficType;
+  }
+  return total;
+}
+
+function sumModalityTokenCounts(
+  a: types.ModalityTokenCount[],
+  b: types.ModalityTokenCount[],
+): types.ModalityTokenCount[] {
+  const result = a.map((count) => ({...count}));
+  for (const count of b) {
+    const existing = result.find((item) => item.modality === count.modality);
+    if (existing) {
+      existing.tokenCount =
+        (existing.tokenCount ?? 0) + (count.tokenCount ?? 0);
+    } else {
+      result.push({...count});
+    }
+  }
+  return result;
+}
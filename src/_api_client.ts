@@ -4,13 +4,28 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import pRetry from 'p-retry';
 import {Auth} from './_auth.js';
 import * as common from './_common.js';
 import {Downloader} from './_downloader.js';
-import {Uploader} from './_uploader.js';
+import {apiErrorFromResponse} from './_errors.js';
+import {
+  ResumableUploadFileConfig,
+  ResumableUploadToFileSearchStoreConfig,
+  UploadFileSource,
+  UploadOptions,
+  UploadStream,
+  Uploader,
+  isUploadStream,
+} from './_uploader.js';
 import {uploadToFileSearchStoreConfigToMldev} from './converters/_filesearchstores_converters.js';
-import {ApiError} from './errors.js';
+import {ApiError, RateLimitError} from './errors.js';
+import {
+  FetchFunction,
+  HttpInterceptor,
+  HttpInterceptorContext,
+  sendWithInterceptors,
+} from './interceptors.js';
+import {RateLimitOptions, RateLimiter, modelFromPath} from './rate_limiter.js';
 import * as types from './types.js';
 
 const CONTENT_TYPE_HEADER = 'Content-Type';
@@ -148,6 +163,58 @@ const DEFAULT_RETRY_HTTP_STATUS_CODES = [
 ];
 // LINT.ThenChange(//depot/google3/third_party/py/google/genai/_api_client.py)
 
+/** Describes a retry that is about to happen. */
+export interface HttpRetryEvent {
+  /** The 1-based number of the attempt that failed. */
+  attempt: number;
+  /** The error the attempt failed with. */
+  error: unknown;
+  /** The delay before the next attempt, in fractions of a second. */
+  delay: number;
+}
+
+/**
+ * Retry options that also honour the delays asked for by the server, retry
+ * network errors and bound the retries by a deadline.
+ */
+export interface RetryOptions extends types.HttpRetryOptions {
+  /**
+   * Whether to wait at least as long as the server asks for, through a
+   * `google.rpc.RetryInfo` error detail or a `Retry-After` header, before
+   * retrying. The server delay is not capped by `maxDelay`. If not specified,
+   * default to true.
+   */
+  honorRetryAfter?: boolean;
+  /**
+   * Maximum time, in fractions of a second, from the start of the first
+   * attempt after which no further attempt is made. A retry whose delay would
+   * end past the deadline is not attempted. If not specified, retries are only
+   * bounded by `attempts`.
+   */
+  deadline?: number;
+  /**
+   * Whether to retry requests that failed at the network level, for example
+   * because the connection was reset or refused. If not specified, default to
+   * true.
+   */
+  retryNetworkErrors?: boolean;
+  /** Called before waiting for each retry, for example to log it. */
+  onRetry?: (event: HttpRetryEvent) => void;
+}
+
+/**
+ * HTTP options of the client, whose retry options are {@link RetryOptions}.
+ *
+ * @remarks
+ * The `httpOptions` of a request are merged into those of the client, so a
+ * request can also set the fields of {@link RetryOptions}, through a variable
+ * of that type.
+ */
+export interface ClientHttpOptions extends types.HttpOptions {
+  /** HTTP retry options for the request. */
+  retryOptions?: RetryOptions;
+}
+
 /**
  * Options for initializing the ApiClient. The ApiClient uses the parameters
  * for authentication purposes as well as to infer if SDK should send the
@@ -197,13 +264,32 @@ export interface ApiClientInitOptions {
   /**
    * Optional. A set of customizable configuration for HTTP requests.
    */
-  httpOptions?: types.HttpOptions;
+  httpOptions?: ClientHttpOptions;
   /**
    * Optional. An extra string to append at the end of the User-Agent header.
    *
    * This can be used to e.g specify the runtime and its version.
    */
   userAgentExtra?: string;
+  /**
+   * Optional. Interceptors applied to every HTTP request sent by this client.
+   */
+  interceptors?: HttpInterceptor[];
+  /**
+   * Optional. The `fetch` implementation used to send HTTP requests. Defaults
+   * to the global `fetch`.
+   */
+  fetch?: FetchFunction;
+  /**
+   * Optional. Limits the rate and concurrency of requests sent by the client.
+   */
+  rateLimit?: RateLimitOptions;
+}
+
+/** The rate limit bucket and estimated tokens of a request. */
+interface RateLimitTarget {
+  model?: string;
+  tokens: number;
 }
 
 /**
@@ -253,6 +339,13 @@ export interface HttpRequest {
    * Optional abort signal which can be used to cancel the request.
    */
   abortSignal?: AbortSignal;
+  /**
+   * Whether the caller reads the response body as a stream, such as a
+   * download. Otherwise, when the client limits its concurrent requests, the
+   * body is read before the response is returned, so that the request stops
+   * counting against the limit even if the body is never read.
+   */
+  streamBody?: boolean;
 }
 
 /**
@@ -265,10 +358,14 @@ export interface HttpRequest {
 export class ApiClient {
   readonly clientOptions: ApiClientInitOptions;
   private readonly customBaseUrl?: string;
+  private readonly rateLimiter?: RateLimiter;
   constructor(opts: ApiClientInitOptions) {
     this.clientOptions = {
       ...opts,
     };
+    if (opts.rateLimit) {
+      this.rateLimiter = new RateLimiter(opts.rateLimit);
+    }
 
     this.customBaseUrl = opts.httpOptions?.baseUrl;
 
@@ -415,6 +512,13 @@ export class ApiClient {
     return urlElement.join('/');
   }
 
+  /**
+   * Returns the custom `fetch` implementation, if one was configured.
+   */
+  getFetch(): FetchFunction | undefined {
+    return this.clientOptions.fetch;
+  }
+
   getBaseResourcePath() {
     return `projects/${this.clientOptions.project}/locations/${
       this.clientOptions.location
@@ -528,23 +632,35 @@ export class ApiClient {
       patchedHttpOptions,
       url.toString(),
     );
-    return this.unaryApiCall(
+    const response = await this.unaryApiCall(
       url,
       requestInit,
       request.httpMethod,
       patchedHttpOptions.retryOptions,
       patchedHttpOptions.timeout,
       request.abortSignal,
+      await this.getRateLimitTarget(request),
     );
+    if (this.rateLimiter && !request.streamBody) {
+      return new types.HttpResponse(await readBody(response.responseInternal));
+    }
+    return response;
   }
 
   private patchHttpOptions(
-    baseHttpOptions: types.HttpOptions,
+    baseHttpOptions: ClientHttpOptions,
     requestHttpOptions: types.HttpOptions,
-  ): types.HttpOptions {
+  ): ClientHttpOptions {
     const patchedHttpOptions = JSON.parse(
       JSON.stringify(baseHttpOptions),
-    ) as types.HttpOptions;
+    ) as ClientHttpOptions;
+    // Callbacks do not survive the JSON round trip.
+    if (baseHttpOptions.retryOptions?.onRetry) {
+      patchedHttpOptions.retryOptions = {
+        ...patchedHttpOptions.retryOptions,
+        onRetry: baseHttpOptions.retryOptions.onRetry,
+      };
+    }
 
     for (const [key, value] of Object.entries(requestHttpOptions)) {
       // Records compile to objects.
@@ -600,6 +716,7 @@ export class ApiClient {
       patchedHttpOptions.retryOptions,
       patchedHttpOptions.timeout,
       request.abortSignal,
+      await this.getRateLimitTarget(request),
     );
   }
 
@@ -625,9 +742,10 @@ export class ApiClient {
     url: URL,
     requestInit: RequestInit,
     httpMethod: 'GET' | 'POST' | 'PATCH' | 'DELETE',
-    retryOptions?: types.HttpRetryOptions,
+    retryOptions?: RetryOptions,
     timeout?: number,
     abortSignal?: AbortSignal,
+    rateLimitTarget?: RateLimitTarget,
   ): Promise<types.HttpResponse> {
     return this.apiCall(
       url.toString(),
@@ -638,6 +756,8 @@ export class ApiClient {
       retryOptions,
       timeout,
       abortSignal,
+      /*stream*/ false,
+      rateLimitTarget,
     )
       .then(async (response) => {
         await throwErrorIfNotOK(response);
@@ -656,9 +776,10 @@ export class ApiClient {
     url: URL,
     requestInit: RequestInit,
     httpMethod: 'GET' | 'POST' | 'PATCH' | 'DELETE',
-    retryOptions?: types.HttpRetryOptions,
+    retryOptions?: RetryOptions,
     timeout?: number,
     abortSignal?: AbortSignal,
+    rateLimitTarget?: RateLimitTarget,
   ): Promise<AsyncGenerator<types.HttpResponse>> {
     return this.apiCall(
       url.toString(),
@@ -669,6 +790,8 @@ export class ApiClient {
       retryOptions,
       timeout,
       abortSignal,
+      /*stream*/ true,
+      rateLimitTarget,
     )
       .then(async (response) => {
         await throwErrorIfNotOK(response);
@@ -692,6 +815,7 @@ export class ApiClient {
       throw new Error('Response body is empty');
     }
 
+    let finished = false;
     try {
       let buffer = '';
       const dataPrefix = 'data:';
@@ -700,6 +824,7 @@ export class ApiClient {
       while (true) {
         const {done, value} = await reader.read();
         if (done) {
+          finished = true;
           if (buffer.trim().length > 0) {
             throw new Error('Incomplete JSON segment at the end');
           }
@@ -720,16 +845,17 @@ export class ApiClient {
               chunkJson,
             )}`;
             if (code >= 400 && code < 600) {
-              const apiError = new ApiError({
-                message: errorMessage,
-                status: code,
-              });
+              const apiError = apiErrorFromResponse(
+                errorMessage,
+                code,
+                chunkJson,
+                response.headers,
+              );
               throw apiError;
             }
           }
         } catch (e: unknown) {
-          const error = e as Error;
-          if (error.name === 'ApiError') {
+          if (e instanceof ApiError) {
             throw e;
           }
         }
@@ -782,27 +908,48 @@ export class ApiClient {
         }
       }
     } finally {
+      if (!finished) {
+        // Stops the download, and frees the request from the rate limit, when
+        // the stream is not read to the end.
+        await reader.cancel().catch(() => {});
+      }
       reader.releaseLock();
     }
   }
   private async apiCall(
     url: string,
     requestInit: RequestInit,
-    retryOptions?: types.HttpRetryOptions,
+    retryOptions?: RetryOptions,
     timeout?: number,
     abortSignal?: AbortSignal,
+    stream: boolean = false,
+    rateLimitTarget?: RateLimitTarget,
   ): Promise<Response> {
     const retryableStatusCodes =
       retryOptions?.httpStatusCodes ?? DEFAULT_RETRY_HTTP_STATUS_CODES;
-    const runFetch = async () => {
+    let timedOut = false;
+    const runFetch = async (attemptNumber: number = 1) => {
+      timedOut = false;
       // A fresh signal per attempt, so that `timeout` bounds this attempt
       // rather than the whole retry sequence.
+      // Every attempt, retries included, counts against the rate limit.
+      const release = await this.rateLimiter?.acquire(
+        rateLimitTarget?.model,
+        rateLimitTarget?.tokens ?? 0,
+        abortSignal,
+      );
       const attempt = createAttemptSignal(timeout, abortSignal);
       let response: Response;
       try {
-        response = await fetch(url, {...requestInit, signal: attempt.signal});
+        response = await this.sendRequest(
+          url,
+          {...requestInit, signal: attempt.signal},
+          {stream, attempt: attemptNumber},
+        );
       } catch (e) {
         attempt.dispose();
+        release?.();
+        timedOut = attempt.signal?.aborted === true && !abortSignal?.aborted;
         throw e;
       }
 
@@ -815,8 +962,8 @@ export class ApiClient {
         //
         // The attempt is deliberately not disposed: ownership of the response
         // passes to the caller, and the timeout must stay armed while the body
-        // is consumed.
-        return response;
+        // is consumed. The request counts against the rate limit until then.
+        return release ? releaseWhenRead(response, release) : response;
       }
 
       // Retryable failure, and this response is about to be discarded, so the
@@ -827,6 +974,7 @@ export class ApiClient {
         await throwErrorIfNotOK(response);
       } finally {
         attempt.dispose();
+        release?.();
       }
       // Unreachable: throwErrorIfNotOK always throws for a non-ok response.
       return response;
@@ -836,7 +984,7 @@ export class ApiClient {
       return runFetch();
     }
 
-    // `attempts` counts the initial call, so p-retry gets one less.
+    // `attempts` counts the initial call.
     const attempts = Math.max(
       1,
       retryOptions.attempts ?? DEFAULT_RETRY_ATTEMPTS,
@@ -844,23 +992,102 @@ export class ApiClient {
     const minTimeout = Math.round(
       (retryOptions.initialDelay ?? DEFAULT_RETRY_INITIAL_DELAY) * 1000,
     );
-
     const maxTimeout = Math.max(
       minTimeout,
       Math.round((retryOptions.maxDelay ?? DEFAULT_RETRY_MAX_DELAY) * 1000),
     );
-    return pRetry(runFetch, {
-      retries: attempts - 1,
-      factor: retryOptions.expBase ?? DEFAULT_RETRY_EXP_BASE,
-      minTimeout,
-      maxTimeout,
-      randomize: (retryOptions.jitter ?? DEFAULT_RETRY_JITTER) > 0,
-      onFailedAttempt: (info: unknown) => {
-        if (abortSignal?.aborted) {
-          throw (info as {error?: Error}).error ?? (info as Error);
+    const factor = retryOptions.expBase ?? DEFAULT_RETRY_EXP_BASE;
+    const randomize = (retryOptions.jitter ?? DEFAULT_RETRY_JITTER) > 0;
+    const deadline =
+      retryOptions.deadline !== undefined
+        ? Date.now() + retryOptions.deadline * 1000
+        : undefined;
+
+    for (let attemptNumber = 1; ; attemptNumber++) {
+      try {
+        return await runFetch(attemptNumber);
+      } catch (e) {
+        if (
+          attemptNumber >= attempts ||
+          abortSignal?.aborted ||
+          // A timed-out attempt is retryable, matching Python's handling of
+          // httpx.TimeoutException.
+          !(timedOut || isRetryableError(e, retryOptions))
+        ) {
+          throw e;
         }
-      },
+        // Exponential backoff; with jitter each delay is scaled by 1x to 2x.
+        const random = randomize ? Math.random() + 1 : 1;
+        let delay = Math.min(
+          Math.round(random * minTimeout * factor ** (attemptNumber - 1)),
+          maxTimeout,
+        );
+        if (retryOptions.honorRetryAfter !== false && e instanceof ApiError) {
+          delay = Math.max(delay, Math.round((e.retryDelay ?? 0) * 1000));
+        }
+        if (e instanceof RateLimitError && e.retryDelay) {
+          // Hold back other requests to the model too, rather than letting
+          // them run into the same 429.
+          this.rateLimiter?.pause(rateLimitTarget?.model, e.retryDelay);
+        }
+        if (deadline !== undefined && Date.now() + delay > deadline) {
+          throw e;
+        }
+        retryOptions.onRetry?.({
+          attempt: attemptNumber,
+          error: e,
+          delay: delay / 1000,
+        });
+        await sleep(delay, abortSignal, e);
+      }
+    }
+  }
+
+  private async getRateLimitTarget(
+    request: HttpRequest,
+  ): Promise<RateLimitTarget | undefined> {
+    if (!this.rateLimiter) {
+      return undefined;
+    }
+    const model = modelFromPath(request.path);
+    let body: Record<string, unknown> | undefined;
+    if (typeof request.body === 'string' && request.body !== '') {
+      try {
+        body = JSON.parse(request.body) as Record<string, unknown>;
+      } catch {
+        body = undefined;
+      }
+    }
+    const tokens = await this.rateLimiter.estimateTokens({
+      model,
+      path: request.path,
+      body,
     });
+    return {model, tokens};
+  }
+
+  /**
+   * Sends a single HTTP attempt, passing it through the configured
+   * interceptors if there are any.
+   */
+  private async sendRequest(
+    url: string,
+    requestInit: RequestInit,
+    context: HttpInterceptorContext,
+  ): Promise<Response> {
+    // Resolved per request, and called unbound: some runtimes reject a
+    // `fetch` invoked as a method of another object.
+    const fetchImpl = this.clientOptions.fetch ?? fetch;
+    const interceptors = this.clientOptions.interceptors;
+    if (!interceptors || interceptors.length === 0) {
+      return fetchImpl(url, requestInit);
+    }
+    return sendWithInterceptors(
+      interceptors,
+      context,
+      {url, init: requestInit},
+      (request) => fetchImpl(request.url, request.init),
+    );
   }
 
   getDefaultHeaders(): Record<string, string> {
@@ -901,7 +1128,7 @@ export class ApiClient {
     return headers;
   }
 
-  private getFileName(file: string | Blob): string {
+  private getFileName(file: string | Blob | UploadStream): string {
     let fileName: string = '';
     if (typeof file === 'string') {
       fileName = file.replace(/[/\\]+$/, '');
@@ -914,7 +1141,8 @@ export class ApiClient {
    * Uploads a file asynchronously using Gemini API only, this is not supported
    * in Vertex AI.
    *
-   * @param file The string path to the file to be uploaded or a Blob object.
+   * @param file The string path to the file to be uploaded, a Blob object,
+   *     the bytes of the file or a stream of them.
    * @param config Optional parameters specified in the `UploadFileConfig`
    *     interface. @see {@link types.UploadFileConfig}
    * @return A promise that resolves to a `File` object.
@@ -922,9 +1150,17 @@ export class ApiClient {
    * @throws An error if the `mimeType` is not provided and can not be inferred,
    */
   async uploadFile(
-    file: string | Blob,
-    config?: types.UploadFileConfig,
+    file: UploadFileSource,
+    config?: ResumableUploadFileConfig,
   ): Promise<types.File> {
+    const uploader = this.clientOptions.uploader;
+    const source = uploadSource(file);
+    if (config?.resumeUploadUrl) {
+      return uploader.upload(source, config.resumeUploadUrl, this, undefined, {
+        ...uploadOptions(config),
+        resume: true,
+      });
+    }
     const fileToUpload: types.File = {};
     if (config != null) {
       fileToUpload.mimeType = config.mimeType;
@@ -936,9 +1172,8 @@ export class ApiClient {
       fileToUpload.name = `files/${fileToUpload.name}`;
     }
 
-    const uploader = this.clientOptions.uploader;
-    const fileStat = await uploader.stat(file);
-    fileToUpload.sizeBytes = String(fileStat.size);
+    const fileStat = await this.statUploadSource(source, config);
+    fileToUpload.sizeBytes = fileStat.size;
     const mimeType = config?.mimeType ?? fileStat.type;
     if (mimeType === undefined || mimeType === '') {
       throw new Error(
@@ -949,7 +1184,7 @@ export class ApiClient {
     const body: Record<string, unknown> = {
       file: fileToUpload,
     };
-    const fileName = this.getFileName(file);
+    const fileName = this.getFileName(source);
     const path = common.formatMap(
       'upload/v1beta/files',
       body['_url'] as Record<string, unknown>,
@@ -962,7 +1197,13 @@ export class ApiClient {
       body,
       config?.httpOptions,
     );
-    return uploader.upload(file, uploadUrl, this);
+    return uploader.upload(
+      source,
+      uploadUrl,
+      this,
+      undefined,
+      uploadOptions(config),
+    );
   }
 
   /**
@@ -970,7 +1211,8 @@ export class ApiClient {
    * in Vertex AI.
    *
    * @param fileSearchStoreName The name of the file search store to upload the file to.
-   * @param file The string path to the file to be uploaded or a Blob object.
+   * @param file The string path to the file to be uploaded, a Blob object,
+   *     the bytes of the file or a stream of them.
    * @param config Optional parameters specified in the `UploadFileConfig`
    *     interface. @see {@link UploadFileConfig}
    * @return A promise that resolves to a `File` object.
@@ -979,12 +1221,21 @@ export class ApiClient {
    */
   async uploadFileToFileSearchStore(
     fileSearchStoreName: string,
-    file: string | Blob,
-    config?: types.UploadToFileSearchStoreConfig,
+    file: UploadFileSource,
+    config?: ResumableUploadToFileSearchStoreConfig,
   ): Promise<types.UploadToFileSearchStoreOperation> {
     const uploader = this.clientOptions.uploader;
-    const fileStat = await uploader.stat(file);
-    const sizeBytes = String(fileStat.size);
+    const source = uploadSource(file);
+    if (config?.resumeUploadUrl) {
+      return uploader.uploadToFileSearchStore(
+        source,
+        config.resumeUploadUrl,
+        this,
+        undefined,
+        {...uploadOptions(config), resume: true},
+      );
+    }
+    const fileStat = await this.statUploadSource(source, config);
     const mimeType = config?.mimeType ?? fileStat.type;
     if (mimeType === undefined || mimeType === '') {
       throw new Error(
@@ -992,20 +1243,26 @@ export class ApiClient {
       );
     }
     const path = `upload/v1beta/${fileSearchStoreName}:uploadToFileSearchStore`;
-    const fileName = this.getFileName(file);
+    const fileName = this.getFileName(source);
     const body: Record<string, unknown> = {};
     if (config != null) {
       uploadToFileSearchStoreConfigToMldev(config, body);
     }
     const uploadUrl = await this.fetchUploadUrl(
       path,
-      sizeBytes,
+      fileStat.size,
       mimeType,
       fileName,
       body,
       config?.httpOptions,
     );
-    return uploader.uploadToFileSearchStore(file, uploadUrl, this);
+    return uploader.uploadToFileSearchStore(
+      source,
+      uploadUrl,
+      this,
+      undefined,
+      uploadOptions(config),
+    );
   }
 
   /**
@@ -1019,9 +1276,29 @@ export class ApiClient {
     await downloader.download(params, this);
   }
 
+  /**
+   * Returns the size of a file to upload as a string, and its MIME type. The
+   * size of a stream is the one in the config, if any.
+   */
+  private async statUploadSource(
+    source: string | Blob | UploadStream,
+    config?: ResumableUploadFileConfig | ResumableUploadToFileSearchStoreConfig,
+  ): Promise<{size?: string; type?: string}> {
+    if (isUploadStream(source)) {
+      return {
+        size:
+          config?.sizeBytes === undefined
+            ? undefined
+            : String(config.sizeBytes),
+      };
+    }
+    const fileStat = await this.clientOptions.uploader.stat(source);
+    return {size: String(fileStat.size), type: fileStat.type};
+  }
+
   private async fetchUploadUrl(
     path: string,
-    sizeBytes: string,
+    sizeBytes: string | undefined,
     mimeType: string,
     fileName: string,
     body: Record<string, unknown>,
@@ -1037,7 +1314,9 @@ export class ApiClient {
           'Content-Type': 'application/json',
           'X-Goog-Upload-Protocol': 'resumable',
           'X-Goog-Upload-Command': 'start',
-          'X-Goog-Upload-Header-Content-Length': `${sizeBytes}`,
+          ...(sizeBytes !== undefined
+            ? {'X-Goog-Upload-Header-Content-Length': sizeBytes}
+            : {}),
           'X-Goog-Upload-Header-Content-Type': `${mimeType}`,
           ...(fileName ? {'X-Goog-Upload-File-Name': fileName} : {}),
         },
@@ -1068,6 +1347,73 @@ export class ApiClient {
   }
 }
 
+function uploadOptions(
+  config?: ResumableUploadFileConfig | ResumableUploadToFileSearchStoreConfig,
+): UploadOptions {
+  return {
+    onProgress: config?.onProgress,
+    abortSignal: config?.abortSignal,
+    sizeBytes: config?.sizeBytes,
+  };
+}
+
+/**
+ * Wraps the bytes of a file to upload, such as a Node.js `Buffer`, in a Blob.
+ */
+function uploadSource(file: UploadFileSource): string | Blob | UploadStream {
+  return file instanceof Uint8Array ? new Blob([file]) : file;
+}
+
+/**
+ * Returns a response whose body calls `release` once it has been read to the
+ * end, has failed or has been cancelled.
+ */
+function releaseWhenRead(response: Response, release: () => void): Response {
+  const body = response.body;
+  if (!body) {
+    release();
+    return response;
+  }
+  const reader = body.getReader();
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const {done, value} = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (e) {
+        release();
+        controller.error(e);
+      }
+    },
+    cancel(reason) {
+      release();
+      return reader.cancel(reason);
+    },
+  });
+  return new Response(stream, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+/** Returns a copy of the response whose body has been read into memory. */
+async function readBody(response: Response): Promise<Response> {
+  if (!response.body) {
+    return response;
+  }
+  return new Response(await response.arrayBuffer(), {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
 async function throwErrorIfNotOK(response: Response | undefined) {
   if (response === undefined) {
     throw new Error('response is undefined');
@@ -1088,16 +1434,96 @@ async function throwErrorIfNotOK(response: Response | undefined) {
     }
     const errorMessage = JSON.stringify(errorBody);
     if (status >= 400 && status < 600) {
-      const apiError = new ApiError({
-        message: errorMessage,
-        status: status,
-      });
+      const apiError = apiErrorFromResponse(
+        errorMessage,
+        status,
+        errorBody,
+        response.headers,
+      );
       throw apiError;
     }
     throw new Error(errorMessage);
   }
 }
 
+// Error codes of connection failures, as set by Node.js and undici on the
+// error or its `cause`.
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'ENOTFOUND',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+]);
+
+// Messages of the `TypeError` that `fetch` rejects with on a network failure.
+const NETWORK_ERROR_MESSAGES = new Set([
+  'fetch failed', // Node.js
+  'Failed to fetch', // Chrome
+  'NetworkError when attempting to fetch resource.', // Firefox
+  'Load failed', // Safari
+  'The Internet connection appears to be offline.', // Safari
+  'Network request failed', // `cross-fetch`
+]);
+
+function isNetworkError(error: unknown): boolean {
+  if (error instanceof TypeError && NETWORK_ERROR_MESSAGES.has(error.message)) {
+    return true;
+  }
+  const errorObject = error as {code?: unknown; cause?: {code?: unknown}};
+  for (const code of [errorObject?.code, errorObject?.cause?.code]) {
+    if (typeof code === 'string' && NETWORK_ERROR_CODES.has(code)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Whether a failed attempt may be retried. Errors for HTTP responses are only
+ * thrown for the retryable status codes, so any `ApiError` qualifies.
+ */
+function isRetryableError(error: unknown, retryOptions: RetryOptions): boolean {
+  if (error instanceof ApiError) {
+    return true;
+  }
+  return retryOptions.retryNetworkErrors !== false && isNetworkError(error);
+}
+
+/**
+ * Waits for the given number of milliseconds, rejecting with `error` if the
+ * signal is aborted first.
+ */
+function sleep(
+  ms: number,
+  signal: AbortSignal | undefined,
+  error: unknown,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(error);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutHandle);
+      reject(error);
+    };
+    const timeoutHandle = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+  });
+}
+
 /**
  * Recursively updates the `requestInit.body` with values from an `extraBody` object.
  *
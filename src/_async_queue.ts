@@ -0,0 +1,110 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** Options for an {@link AsyncQueue}. */
+export interface AsyncQueueOptions {
+  /**
+   * Number of buffered items at which `onHighWaterMark` is called. If not
+   * specified, the queue never signals back-pressure.
+   */
+  highWaterMark?: number;
+  /** Called when the buffer reaches `highWaterMark`, to pause the producer. */
+  onHighWaterMark?: () => void;
+  /** Called when a paused buffer has been drained, to resume the producer. */
+  onDrain?: () => void;
+}
+
+/**
+ * A queue that a push-based producer, such as a WebSocket, feeds and that
+ * consumers read from with `next()`, one item per call.
+ */
+export class AsyncQueue<T> {
+  private readonly buffer: T[] = [];
+  private readonly pending: Array<{
+    resolve: (result: IteratorResult<T, undefined>) => void;
+    reject: (error: unknown) => void;
+  }> = [];
+  private closed = false;
+  private error: unknown = undefined;
+  private hasError = false;
+  private paused = false;
+
+  constructor(private readonly options: AsyncQueueOptions = {}) {}
+
+  /** Adds an item, handing it to a waiting consumer if there is one. */
+  push(item: T) {
+    if (this.closed) {
+      return;
+    }
+    const consumer = this.pending.shift();
+    if (consumer) {
+      consumer.resolve({value: item, done: false});
+      return;
+    }
+    this.buffer.push(item);
+    const highWaterMark = this.options.highWaterMark;
+    if (!this.paused && highWaterMark && this.buffer.length >= highWaterMark) {
+      this.paused = true;
+      this.options.onHighWaterMark?.();
+    }
+  }
+
+  /**
+   * Ends the queue. Buffered items are still returned, after which consumers
+   * see the end of the queue.
+   */
+  close() {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    for (const consumer of this.pending.splice(0)) {
+      consumer.resolve({value: undefined, done: true});
+    }
+  }
+
+  /**
+   * Ends the queue with an error. Buffered items are still returned, after
+   * which the next consumer receives the error.
+   */
+  fail(error: unknown) {
+    if (this.closed) {
+      return;
+    }
+    this.hasError = true;
+    this.error = error;
+    this.closed = true;
+    const consumer = this.pending.shift();
+    consumer?.reject(error);
+    this.hasError = consumer === undefined;
+    for (const other of this.pending.splice(0)) {
+      other.resolve({value: undefined, done: true});
+    }
+  }
+
+  /** Returns the next item, waiting for one if the buffer is empty. */
+  next(): Promise<IteratorResult<T, undefined>> {
+    if (this.buffer.length > 0) {
+      const item = this.buffer.shift()!;
+      if (this.paused && this.buffer.length === 0) {
+        this.paused = false;
+        this.options.onDrain?.();
+      }
+      return Promise.resolve({value: item, done: false});
+    }
+    if (this.hasError) {
+      // The error is reported once.
+      this.hasError = false;
+      return Promise.reject(this.error);
+    }
+    if (this.closed) {
+      return Promise.resolve({value: undefined, done: true});
+    }
+    return new Promise((resolve, reject) => {
+      this.pending.push({resolve, reject});
+    });
+  }
+}
@@ -0,0 +1,294 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {ApiClient} from './_api_client.js';
+import {downloadContent} from './_download.js';
+import * as converters from './converters/_models_converters.js';
+import * as types from './types.js';
+
+const GCS_BASE_URL = 'https://storage.googleapis.com';
+
+/** A result of a batch job: the response or the error of one of its requests. */
+export interface BatchJobResult {
+  /** The key of the request, or the `key` in its metadata, if it has one. */
+  key?: string;
+  /**
+   * The response to the request. An `EmbedContentResponse` with a single
+   * embedding for embeddings batch jobs, a `GenerateContentResponse`
+   * otherwise.
+   */
+  response?: types.GenerateContentResponse | types.EmbedContentResponse;
+  /** The error encountered while processing the request. */
+  error?: types.JobError;
+}
+
+/** Reads the output of a batch job written to BigQuery. */
+export interface BatchJobResultsReader {
+  /**
+   * Yields the output records of the job, the rows of its BigQuery output
+   * table.
+   */
+  read(job: types.BatchJob): AsyncIterable<Record<string, unknown>>;
+}
+
+/** Optional parameters for reading the results of a batch job. */
+export interface BatchJobResultsConfig {
+  /** Used to override HTTP request options. */
+  httpOptions?: types.HttpOptions;
+  /** Abort signal which can be used to stop reading the results. */
+  abortSignal?: AbortSignal;
+  /**
+   * Reads the output of jobs whose destination is BigQuery, which is not
+   * read through the API.
+   */
+  reader?: BatchJobResultsReader;
+}
+
+/**
+ * Yields the results of a batch job, wherever its output was written.
+ *
+ * @remarks
+ * Inlined responses are read from the job itself. The output file of the
+ * Gemini Developer API and the JSONL files of the Cloud Storage output
+ * directory are downloaded with the credentials of the client and parsed as
+ * they are received. The output in BigQuery is read by the reader of the
+ * config.
+ *
+ * @param job The batch job to read the results of.
+ * @param apiClient The ApiClient to use for downloading the output files.
+ * @param config The config for reading the results.
+ */
+export async function* readBatchJobResults(
+  job: types.BatchJob,
+  apiClient: ApiClient,
+  config?: BatchJobResultsConfig,
+): AsyncGenerator<BatchJobResult> {
+  const dest = job.dest;
+  const gcsDirectory = job.outputInfo?.gcsOutputDirectory ?? dest?.gcsUri;
+  if (dest?.inlinedResponses) {
+    for (const inlined of dest.inlinedResponses) {
+      config?.abortSignal?.throwIfAborted();
+      yield {
+        key: keyOf(inlined.metadata),
+        response: inlined.response
+          ? Object.assign(new types.GenerateContentResponse(), inlined.response)
+          : undefined,
+        error: inlined.error,
+      };
+    }
+  } else if (dest?.inlinedEmbedContentResponses) {
+    for (const inlined of dest.inlinedEmbedContentResponses) {
+      config?.abortSignal?.throwIfAborted();
+      yield {
+        key: keyOf(inlined.metadata),
+        response: inlined.response
+          ? embedContentResponse(inlined.response.embedding)
+          : undefined,
+        error: inlined.error,
+      };
+    }
+  } else if (dest?.fileName) {
+    const {stream} = await downloadContent(
+      {
+        file: dest.fileName,
+        config: {
+          httpOptions: config?.httpOptions,
+          abortSignal: config?.abortSignal,
+        },
+      },
+      apiClient,
+    );
+    for await (const record of readJsonLines(stream)) {
+      yield resultFromRecord(record, false);
+    }
+  } else if (gcsDirectory) {
+    for await (const record of readGcsJsonLines(
+      gcsDirectory,
+      apiClient,
+      config,
+    )) {
+      yield resultFromRecord(record, apiClient.isVertexAI());
+    }
+  } else {
+    const table = job.outputInfo?.bigqueryOutputTable ?? dest?.bigqueryUri;
+    if (table === undefined) {
+      throw new Error(
+        `Batch job ${job.name ?? ''} has no results in state ${job.state ?? ''}.`,
+      );
+    }
+    if (!config?.reader) {
+      throw new Error(
+        `Batch job ${job.name ?? ''} wrote its results to ${table}. ` +
+          'Pass a reader in the config to read them.',
+      );
+    }
+    for await (const record of config.reader.read(job)) {
+      config.abortSignal?.throwIfAborted();
+      yield resultFromRecord(record, apiClient.isVertexAI());
+    }
+  }
+}
+
+/**
+ * Parses the JSONL files of a Cloud Storage directory in the order of their
+ * names, through the Cloud Storage JSON API.
+ */
+async function* readGcsJsonLines(
+  directory: string,
+  apiClient: ApiClient,
+  config: BatchJobResultsConfig | undefined,
+): AsyncGenerator<Record<string, unknown>> {
+  const match = /^gs:\/\/([^/]+)\/?(.*)$/.exec(directory);
+  if (!match) {
+    throw new Error(`Invalid Cloud Storage URI: ${directory}`);
+  }
+  const bucket = match[1];
+  const prefix =
+    match[2] === '' || match[2].endsWith('/') ? match[2] : `${match[2]}/`;
+  const httpOptions: types.HttpOptions = {
+    ...config?.httpOptions,
+    baseUrl: GCS_BASE_URL,
+    apiVersion: '',
+    baseUrlResourceScope: types.ResourceScope.COLLECTION,
+  };
+  const names: string[] = [];
+  let pageToken: string | undefined;
+  do {
+    const response = await apiClient.request({
+      path: `storage/v1/b/${encodeURIComponent(bucket)}/o`,
+      httpMethod: 'GET',
+      queryParams: {
+        prefix,
+        fields: 'items(name),nextPageToken',
+        ...(pageToken ? {pageToken} : {}),
+      },
+      httpOptions,
+      abortSignal: config?.abortSignal,
+    });
+    const page = (await response.json()) as {
+      items?: Array<{name?: string}>;
+      nextPageToken?: string;
+    };
+    for (const item of page.items ?? []) {
+      if (item.name?.endsWith('.jsonl')) {
+        names.push(item.name);
+      }
+    }
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+
+  for (const name of names.sort()) {
+    const response = await apiClient.request({
+      path: `storage/v1/b/${encodeURIComponent(bucket)}/o/${encodeURIComponent(name)}`,
+      httpMethod: 'GET',
+      queryParams: {alt: 'media'},
+      httpOptions,
+      abortSignal: config?.abortSignal,
+      streamBody: true,
+    });
+    const body = response.responseInternal.body;
+    if (body) {
+      yield* readJsonLines(body);
+    }
+  }
+}
+
+/**
+ * Converts a line of an output file, or a row of an output table, into a
+ * result.
+ *
+ * @remarks
+ * The Gemini Developer API writes `{key, response}` or `{key, error}`
+ * objects, while Vertex AI writes `{request, response, status}` objects
+ * whose status is the error message of failed requests. The response of a
+ * BigQuery row may be a JSON string.
+ */
+function resultFromRecord(
+  record: Record<string, unknown>,
+  isVertexAI: boolean,
+): BatchJobResult {
+  const result: BatchJobResult = {
+    key:
+      typeof record['key'] === 'string'
+        ? record['key']
+        : keyOf(record['metadata'] as Record<string, unknown> | undefined),
+  };
+  let response = record['response'];
+  if (typeof response === 'string' && response !== '') {
+    response = JSON.parse(response) as unknown;
+  }
+  if (typeof response === 'object' && response !== null) {
+    if ('embedding' in response) {
+      result.response = embedContentResponse(
+        (response as types.SingleEmbedContentResponse).embedding,
+      );
+    } else {
+      result.response = Object.assign(
+        new types.GenerateContentResponse(),
+        isVertexAI
+          ? converters.generateContentResponseFromVertex(
+              response as types.GenerateContentResponse,
+            )
+          : converters.generateContentResponseFromMldev(
+              response as types.GenerateContentResponse,
+            ),
+      );
+    }
+  }
+  const error = record['error'];
+  const status = record['status'];
+  if (typeof error === 'object' && error !== null) {
+    result.error = error as types.JobError;
+  } else if (typeof status === 'string' && status !== '') {
+    result.error = {message: status};
+  }
+  return result;
+}
+
+/**
+ * Parses a stream of JSON lines as it is received, skipping empty lines.
+ */
+async function* readJsonLines(
+  stream: ReadableStream<Uint8Array>,
+): AsyncGenerator<Record<string, unknown>> {
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  let buffer = '';
+  try {
+    for (;;) {
+      const {done, value} = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, {stream: true});
+      const lines = buffer.split('\n');
+      buffer = done ? '' : lines.pop()!;
+      for (const line of lines) {
+        if (line.trim() !== '') {
+          yield JSON.parse(line) as Record<string, unknown>;
+        }
+      }
+      if (done) {
+        return;
+      }
+    }
+  } finally {
+    // Stops the download when the results are not read to the end.
+    await reader.cancel();
+  }
+}
+
+function embedContentResponse(
+  embedding: types.ContentEmbedding | undefined,
+): types.EmbedContentResponse {
+  return Object.assign(new types.EmbedContentResponse(), {
+    embeddings: embedding ? [embedding] : [],
+  });
+}
+
+function keyOf(
+  metadata: Record<string, unknown> | undefined,
+): string | undefined {
+  const key = metadata?.['key'];
+  return typeof key === 'string' ? key : undefined;
+}
@@ -6,6 +6,19 @@
 
 export class BaseModule {}
 
+/**
+ * Decodes base64 data, such as the `data` of a `Blob` or the `videoBytes` of
+ * a `Video`.
+ */
+export function decodeBase64(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
 export function formatMap(
   templateString: string,
   valueMap: Record<string, unknown>,
@@ -0,0 +1,168 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {ApiClient} from './_api_client.js';
+import {decodeBase64} from './_common.js';
+import {isGeneratedVideo, isVideo, tFileName} from './_transformers.js';
+import * as types from './types.js';
+
+/** Describes the progress of a download. */
+export interface DownloadProgress {
+  /** The number of bytes received so far. */
+  bytesDownloaded: number;
+  /** The size of the file in bytes, if known. */
+  totalBytes?: number;
+}
+
+/** Configuration for downloading the content of a file. */
+export interface DownloadFileContentConfig extends types.DownloadFileConfig {
+  /**
+   * Called as the content of the file is received, to report the progress
+   * of the download.
+   */
+  onProgress?: (progress: DownloadProgress) => void;
+}
+
+/**
+ * Parameters used to download the content of a file into memory or as a
+ * stream.
+ */
+export interface DownloadFileContentParameters {
+  /**
+   * The file to download. It can be a file name, a file object or a
+   * generated video.
+   */
+  file: types.DownloadableFileUnion;
+  /** Configuration for the download operation. */
+  config?: DownloadFileContentConfig;
+}
+
+/** The content of a file being downloaded. */
+export interface DownloadedContent {
+  /** The bytes of the file, as they are received. */
+  stream: ReadableStream<Uint8Array>;
+  /** The MIME type of the file, if known. */
+  mimeType?: string;
+}
+
+/**
+ * Starts downloading a file, or reads the inline bytes of a video.
+ *
+ * @remarks
+ * Only uses `fetch` and web streams, so that it works in Node, browsers and
+ * edge runtimes alike. The progress callback of the config is called as the
+ * stream is read, and its abort signal cancels the request.
+ *
+ * @param params The parameters for downloading the file.
+ * @param apiClient The ApiClient to use for downloading.
+ * @return The content of the file.
+ */
+export async function downloadContent(
+  params: DownloadFileContentParameters,
+  apiClient: ApiClient,
+): Promise<DownloadedContent> {
+  params.config?.abortSignal?.throwIfAborted();
+  const video = videoOf(params.file);
+  let stream: ReadableStream<Uint8Array>;
+  let mimeType = video ? video.mimeType : fileMimeType(params.file);
+  let totalBytes: number | undefined;
+  if (video && video.uri === undefined) {
+    if (typeof video.videoBytes !== 'string') {
+      throw new Error(
+        isGeneratedVideo(params.file)
+          ? 'Failed to download generated video, Uri or videoBytes not found.'
+          : 'Failed to download video, Uri or videoBytes not found.',
+      );
+    }
+    const bytes = decodeBase64(video.videoBytes);
+    totalBytes = bytes.byteLength;
+    stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes);
+        controller.close();
+      },
+    });
+  } else {
+    const name = tFileName(params.file);
+    const response = await apiClient.request({
+      path: `files/${name}:download`,
+      httpMethod: 'GET',
+      queryParams: {
+        'alt': 'media',
+      },
+      httpOptions: params.config?.httpOptions,
+      abortSignal: params.config?.abortSignal,
+      streamBody: true,
+    });
+    const body = response.responseInternal.body;
+    if (!body) {
+      throw new Error(
+        `Failed to download file ${name}: the response is empty.`,
+      );
+    }
+    stream = body;
+    mimeType ??= response.headers?.['content-type'];
+    const contentLength = Number(response.headers?.['content-length']);
+    totalBytes = contentLength > 0 ? contentLength : undefined;
+  }
+  const onProgress = params.config?.onProgress;
+  if (onProgress) {
+    let bytesDownloaded = 0;
+    stream = stream.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          bytesDownloaded += chunk.byteLength;
+          controller.enqueue(chunk);
+          onProgress({bytesDownloaded, totalBytes});
+        },
+      }),
+    );
+  }
+  return {stream, mimeType};
+}
+
+/**
+ * Reads a download into memory.
+ */
+export async function readContent(
+  stream: ReadableStream<Uint8Array>,
+): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = stream.getReader();
+  for (;;) {
+    const {done, value} = await reader.read();
+    if (done) {
+      break;
+    }
+    chunks.push(value);
+    size += value.byteLength;
+  }
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+/**
+ * Returns the video of a generated video or video, whose bytes may be inline.
+ */
+function videoOf(file: types.DownloadableFileUnion): types.Video | undefined {
+  if (isGeneratedVideo(file)) {
+    return (file as types.GeneratedVideo).video ?? {};
+  }
+  if (isVideo(file) || (typeof file === 'object' && 'videoBytes' in file)) {
+    return file as types.Video;
+  }
+  return undefined;
+}
+
+function fileMimeType(file: types.DownloadableFileUnion): string | undefined {
+  return typeof file === 'string' ? undefined : (file as types.File).mimeType;
+}
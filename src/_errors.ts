@@ -0,0 +1,60 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {ApiError, ApiErrorDetail, createApiError} from './errors.js';
+
+/**
+ * Builds a typed `ApiError` from an error response.
+ *
+ * @param message The error message.
+ * @param status The HTTP status code.
+ * @param body The parsed JSON body of the response, either the full
+ *     `{error: {...}}` envelope or the inner error object.
+ * @param headers The headers of the response.
+ */
+export function apiErrorFromResponse(
+  message: string,
+  status: number,
+  body: unknown,
+  headers?: Headers,
+): ApiError {
+  const error = getErrorObject(body);
+  const rpcStatus = error?.['status'];
+  const details = error?.['details'];
+  return createApiError({
+    message,
+    status,
+    rpcStatus: typeof rpcStatus === 'string' ? rpcStatus : undefined,
+    details: Array.isArray(details)
+      ? (details.filter(isErrorDetail) as ApiErrorDetail[])
+      : undefined,
+    headers: headers ? headersToRecord(headers) : undefined,
+  });
+}
+
+function getErrorObject(body: unknown): Record<string, unknown> | undefined {
+  if (!isObject(body)) {
+    return undefined;
+  }
+  const error = body['error'];
+  return isObject(error) ? error : body;
+}
+
+function headersToRecord(headers: Headers): Record<string, string> {
+  const record: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    record[key] = value;
+  });
+  return record;
+}
+
+function isErrorDetail(value: unknown): boolean {
+  return isObject(value) && typeof value['@type'] === 'string';
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
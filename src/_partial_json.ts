@@ -0,0 +1,225 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Returned for a value that has not started or cannot be used yet, such as
+// the `tr` of `true`.
+const INCOMPLETE = Symbol('incomplete');
+
+type Parsed = unknown | typeof INCOMPLETE;
+
+/**
+ * Parses the beginning of a JSON document, as received so far from a stream.
+ *
+ * @remarks
+ * Open strings, arrays and objects are closed. Object properties whose key
+ * or value has not started yet are left out, as are literals and numbers
+ * that may still change meaning, such as `tr` or `1e`. Strings are returned
+ * as far as they have arrived.
+ *
+ * @param text - The beginning of a JSON document.
+ * @return The value parsed so far, or undefined if no value has started.
+ * @throws SyntaxError if the text is not the beginning of a JSON document.
+ *
+ * @example
+ * ```ts
+ * parsePartialJson('{"name": "Pan'); // {name: 'Pan'}
+ * parsePartialJson('{"steps": [1, 2'); // {steps: [1, 2]}
+ * ```
+ */
+export function parsePartialJson(text: string): unknown {
+  let index = 0;
+
+  function fail(): never {
+    throw new SyntaxError(
+      `Unexpected character ${JSON.stringify(text[index])} at position ${index} of the JSON text.`,
+    );
+  }
+
+  function skipWhitespace() {
+    while (index < text.length && /\s/.test(text[index])) {
+      index++;
+    }
+  }
+
+  function parseValue(): Parsed {
+    skipWhitespace();
+    if (index >= text.length) {
+      return INCOMPLETE;
+    }
+    const char = text[index];
+    if (char === '{') {
+      return parseObject();
+    }
+    if (char === '[') {
+      return parseArray();
+    }
+    if (char === '"') {
+      return parseString().value;
+    }
+    if (char === '-' || (char >= '0' && char <= '9')) {
+      return parseNumber();
+    }
+    for (const [literal, value] of [
+      ['true', true],
+      ['false', false],
+      ['null', null],
+    ] as const) {
+      const rest = text.slice(index, index + literal.length);
+      if (rest === literal) {
+        index += literal.length;
+        return value;
+      }
+      if (index + rest.length === text.length && literal.startsWith(rest)) {
+        index = text.length;
+        return INCOMPLETE;
+      }
+    }
+    return fail();
+  }
+
+  function parseObject(): Record<string, unknown> {
+    const object: Record<string, unknown> = {};
+    index++;
+    for (;;) {
+      skipWhitespace();
+      if (index >= text.length) {
+        return object;
+      }
+      if (text[index] === '}') {
+        index++;
+        return object;
+      }
+      if (text[index] !== '"') {
+        return fail();
+      }
+      const key = parseString();
+      skipWhitespace();
+      if (!key.complete || index >= text.length) {
+        return object;
+      }
+      if (text[index] !== ':') {
+        return fail();
+      }
+      index++;
+      const value = parseValue();
+      if (value === INCOMPLETE) {
+        return object;
+      }
+      object[key.value] = value;
+      skipWhitespace();
+      if (index >= text.length) {
+        return object;
+      }
+      if (text[index] === ',') {
+        index++;
+      } else if (text[index] !== '}') {
+        return fail();
+      }
+    }
+  }
+
+  function parseArray(): unknown[] {
+    const array: unknown[] = [];
+    index++;
+    for (;;) {
+      skipWhitespace();
+      if (index >= text.length) {
+        return array;
+      }
+      if (text[index] === ']') {
+        index++;
+        return array;
+      }
+      const value = parseValue();
+      if (value === INCOMPLETE) {
+        return array;
+      }
+      array.push(value);
+      skipWhitespace();
+      if (index >= text.length) {
+        return array;
+      }
+      if (text[index] === ',') {
+        index++;
+      } else if (text[index] !== ']') {
+        return fail();
+      }
+    }
+  }
+
+  function parseString(): {value: string; complete: boolean} {
+    index++;
+    let value = '';
+    while (index < text.length) {
+      const char = text[index];
+      if (char === '"') {
+        index++;
+        return {value, complete: true};
+      }
+      if (char !== '\\') {
+        value += char;
+        index++;
+        continue;
+      }
+      const escape = text[index + 1];
+      if (escape === undefined) {
+        break;
+      }
+      if (escape === 'u') {
+        const hex = text.slice(index + 2, index + 6);
+        if (hex.length < 4) {
+          break;
+        }
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+          return fail();
+        }
+        value += String.fromCharCode(parseInt(hex, 16));
+        index += 6;
+        continue;
+      }
+      const unescaped = ESCAPES[escape];
+      if (unescaped === undefined) {
+        return fail();
+      }
+      value += unescaped;
+      index += 2;
+    }
+    // The string has not ended yet, leave out a partial escape sequence.
+    index = text.length;
+    return {value, complete: false};
+  }
+
+  function parseNumber(): Parsed {
+    const match = /^-?\d*(\.\d*)?([eE][+-]?\d*)?/.exec(text.slice(index))!;
+    index += match[0].length;
+    if (index >= text.length && /[-.eE+]$/.test(match[0])) {
+      return INCOMPLETE;
+    }
+    const value = Number(match[0]);
+    if (match[0] === '' || isNaN(value)) {
+      return fail();
+    }
+    return value;
+  }
+
+  const value = parseValue();
+  skipWhitespace();
+  if (index < text.length) {
+    fail();
+  }
+  return value === INCOMPLETE ? undefined : value;
+}
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  'b': '\b',
+  'f': '\f',
+  'n': '\n',
+  'r': '\r',
+  't': '\t',
+};
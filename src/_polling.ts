@@ -0,0 +1,126 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {HttpOptions} from './types.js';
+
+const DEFAULT_POLL_INTERVAL = 5;
+const DEFAULT_BACKOFF = 1.5;
+const DEFAULT_MAX_POLL_INTERVAL = 60;
+
+/** Configuration for polling a long-running resource until it is done. */
+export interface PollingConfig<T> {
+  /** Used to override HTTP request options. */
+  httpOptions?: HttpOptions;
+
+  /**
+   * Abort signal which can be used to stop waiting.
+   *
+   * NOTE: AbortSignal is a client-only operation. Using it to stop waiting
+   * will not cancel the operation in the service. You will still be charged
+   * usage for any applicable operations.
+   */
+  abortSignal?: AbortSignal;
+
+  /**
+   * Delay before the first poll, in fractions of a second. If not specified,
+   * default to 5.0 seconds.
+   */
+  pollInterval?: number;
+
+  /**
+   * Multiplier by which the poll interval increases after each poll. If not
+   * specified, default to 1.5.
+   */
+  backoff?: number;
+
+  /**
+   * Maximum delay between polls, in fractions of a second. If not specified,
+   * default to 60.0 seconds.
+   */
+  maxPollInterval?: number;
+
+  /**
+   * Maximum time to wait, in fractions of a second. If not specified, waits
+   * until the resource is done.
+   */
+  timeout?: number;
+
+  /**
+   * Called with the latest state after each poll, for example to report the
+   * progress in the metadata of an operation.
+   */
+  onProgress?: (current: T) => void;
+}
+
+/**
+ * Polls a long-running resource until it is done.
+ *
+ * @remarks
+ * The delay between polls starts at `pollInterval` and is multiplied by
+ * `backoff` after each poll, up to `maxPollInterval`. The last delay is
+ * shortened so that the resource is polled once more at the timeout.
+ *
+ * @param current The resource as last fetched.
+ * @param refresh Fetches the latest state of the resource.
+ * @param isDone Returns whether the resource is done.
+ * @param config The polling configuration.
+ * @param timeoutError Creates the error to throw when the resource is not
+ *     done by the timeout.
+ * @return The resource once it is done.
+ * @throws The reason of the abort signal of the config if it is aborted.
+ */
+export async function pollUntilDone<T>(
+  current: T,
+  refresh: (current: T) => Promise<T>,
+  isDone: (current: T) => boolean,
+  config: PollingConfig<T> | undefined,
+  timeoutError: (current: T, timeout: number) => Error,
+): Promise<T> {
+  const backoff = config?.backoff ?? DEFAULT_BACKOFF;
+  const maxPollInterval = config?.maxPollInterval ?? DEFAULT_MAX_POLL_INTERVAL;
+  const deadline =
+    config?.timeout !== undefined
+      ? Date.now() + config.timeout * 1000
+      : undefined;
+  let pollInterval = config?.pollInterval ?? DEFAULT_POLL_INTERVAL;
+  while (!isDone(current)) {
+    let delayMs = pollInterval * 1000;
+    if (deadline !== undefined) {
+      const remainingMs = deadline - Date.now();
+      if (remainingMs <= 0) {
+        throw timeoutError(current, config!.timeout!);
+      }
+      delayMs = Math.min(delayMs, remainingMs);
+    }
+    await sleep(delayMs, config?.abortSignal);
+    current = await refresh(current);
+    config?.onProgress?.(current);
+    pollInterval = Math.min(pollInterval * backoff, maxPollInterval);
+  }
+  return current;
+}
+
+/**
+ * Waits for the given number of milliseconds, rejecting with the reason of
+ * the signal if it is aborted first.
+ */
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutHandle);
+      reject(signal!.reason);
+    };
+    const timeoutHandle = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, {once: true});
+  });
+}
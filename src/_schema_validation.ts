@@ -0,0 +1,277 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {SchemaIssue} from './errors.js';
+
+/**
+ * A schema that follows the Standard Schema interface
+ * (https://standardschema.dev), such as the schemas of zod 3.24 and later,
+ * Valibot and ArkType.
+ */
+export interface StandardSchema<Output = unknown> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+  };
+}
+
+/** The result of validating a value with a {@link StandardSchema}. */
+export type StandardSchemaResult<Output> =
+  | {readonly value: Output; readonly issues?: undefined}
+  | {
+      readonly issues: ReadonlyArray<{
+        readonly message: string;
+        readonly path?: ReadonlyArray<
+          PropertyKey | {readonly key: PropertyKey}
+        >;
+      }>;
+    };
+
+/** The result of validating a value against a schema. */
+export type ValidationResult<T> = {value: T} | {issues: SchemaIssue[]};
+
+/**
+ * Validates a value against a Standard Schema, whose result may transform the
+ * value, or against a JSON schema or `Schema`.
+ */
+export async function validateValue<T>(
+  schema: StandardSchema<T> | Record<string, unknown>,
+  value: unknown,
+): Promise<ValidationResult<T>> {
+  if (isStandardSchema(schema)) {
+    const result = await schema['~standard'].validate(value);
+    if (result.issues) {
+      return {
+        issues: result.issues.map((issue) => {
+          const path = issue.path ? formatPath(issue.path) : '';
+          return {
+            path,
+            message: path ? `${path}: ${issue.message}` : issue.message,
+          };
+        }),
+      };
+    }
+    return {value: result.value};
+  }
+  const issues = validateJsonSchema(value, schema, '');
+  return issues.length > 0 ? {issues} : {value: value as T};
+}
+
+/** Returns true if the schema implements the Standard Schema interface. */
+export function isStandardSchema(schema: unknown): schema is StandardSchema {
+  return (
+    (typeof schema === 'object' || typeof schema === 'function') &&
+    schema !== null &&
+    '~standard' in schema
+  );
+}
+
+function formatPath(
+  path: ReadonlyArray<PropertyKey | {readonly key: PropertyKey}>,
+): string {
+  let formatted = '';
+  for (const segment of path) {
+    const key = typeof segment === 'object' ? segment.key : segment;
+    formatted =
+      typeof key === 'number'
+        ? `${formatted}[${key}]`
+        : joinPath(formatted, String(key));
+  }
+  return formatted;
+}
+
+/**
+ * Validates a value against the subset of JSON schema, and of `Schema`, that
+ * function declarations and response schemas support.
+ *
+ * @param path - The path of the value, empty for the root value.
+ * @return The problems found, empty if the value is valid.
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: Record<string, unknown>,
+  path: string,
+): SchemaIssue[] {
+  const where = path || 'The value';
+  const issue = (message: string): SchemaIssue => ({path, message});
+  if (value === null && schema['nullable'] === true) {
+    return [];
+  }
+  for (const key of ['anyOf', 'oneOf']) {
+    const options = schema[key];
+    if (Array.isArray(options) && options.length > 0) {
+      const matches = options.some(
+        (option) =>
+          isObject(option) &&
+          validateJsonSchema(value, option, path).length === 0,
+      );
+      if (!matches) {
+        return [issue(`${where} must match one of the allowed schemas.`)];
+      }
+    }
+  }
+  const allOf = schema['allOf'];
+  if (Array.isArray(allOf)) {
+    const issues = allOf.flatMap((option) =>
+      isObject(option) ? validateJsonSchema(value, option, path) : [],
+    );
+    if (issues.length > 0) {
+      return issues;
+    }
+  }
+  if (Array.isArray(schema['enum']) && !schema['enum'].includes(value)) {
+    return [
+      issue(
+        `${where} must be one of ${schema['enum'].map((item) => JSON.stringify(item)).join(', ')}.`,
+      ),
+    ];
+  }
+  if ('const' in schema && schema['const'] !== value) {
+    return [issue(`${where} must be ${JSON.stringify(schema['const'])}.`)];
+  }
+
+  const allowedTypes = (
+    Array.isArray(schema['type']) ? schema['type'] : [schema['type']]
+  )
+    .filter((type): type is string => typeof type === 'string')
+    .map((type) => type.toLowerCase())
+    .filter((type) => type !== 'type_unspecified');
+  if (
+    allowedTypes.length > 0 &&
+    !allowedTypes.some((type) => hasType(value, type))
+  ) {
+    return [issue(`${where} must be of type ${allowedTypes.join(' or ')}.`)];
+  }
+
+  const issues: SchemaIssue[] = [];
+  if (typeof value === 'string') {
+    const minLength = toNumber(schema['minLength']);
+    const maxLength = toNumber(schema['maxLength']);
+    if (minLength !== undefined && value.length < minLength) {
+      issues.push(
+        issue(`${where} must have at least ${minLength} characters.`),
+      );
+    }
+    if (maxLength !== undefined && value.length > maxLength) {
+      issues.push(issue(`${where} must have at most ${maxLength} characters.`));
+    }
+    if (
+      typeof schema['pattern'] === 'string' &&
+      !new RegExp(schema['pattern']).test(value)
+    ) {
+      issues.push(
+        issue(`${where} must match the pattern ${schema['pattern']}.`),
+      );
+    }
+  } else if (typeof value === 'number') {
+    const minimum = toNumber(schema['minimum']);
+    const maximum = toNumber(schema['maximum']);
+    if (minimum !== undefined && value < minimum) {
+      issues.push(issue(`${where} must be at least ${minimum}.`));
+    }
+    if (maximum !== undefined && value > maximum) {
+      issues.push(issue(`${where} must be at most ${maximum}.`));
+    }
+  } else if (Array.isArray(value)) {
+    const minItems = toNumber(schema['minItems']);
+    const maxItems = toNumber(schema['maxItems']);
+    if (minItems !== undefined && value.length < minItems) {
+      issues.push(issue(`${where} must have at least ${minItems} items.`));
+    }
+    if (maxItems !== undefined && value.length > maxItems) {
+      issues.push(issue(`${where} must have at most ${maxItems} items.`));
+    }
+    const items = schema['items'];
+    if (isObject(items)) {
+      value.forEach((item, i) => {
+        issues.push(...validateJsonSchema(item, items, `${path}[${i}]`));
+      });
+    }
+  } else if (isObject(value)) {
+    const properties = isObject(schema['properties'])
+      ? schema['properties']
+      : {};
+    const required = Array.isArray(schema['required'])
+      ? schema['required']
+      : [];
+    for (const name of required) {
+      if (typeof name === 'string' && !(name in value)) {
+        const propertyPath = joinPath(path, name);
+        issues.push({
+          path: propertyPath,
+          message: `${propertyPath} is required.`,
+        });
+      }
+    }
+    const additionalProperties = schema['additionalProperties'];
+    for (const [name, property] of Object.entries(value)) {
+      const propertySchema = properties[name];
+      if (isObject(propertySchema)) {
+        issues.push(
+          ...validateJsonSchema(property, propertySchema, joinPath(path, name)),
+        );
+      } else if (additionalProperties === false) {
+        const propertyPath = joinPath(path, name);
+        issues.push({
+          path: propertyPath,
+          message: `${propertyPath} is not an allowed property.`,
+        });
+      } else if (isObject(additionalProperties)) {
+        issues.push(
+          ...validateJsonSchema(
+            property,
+            additionalProperties,
+            joinPath(path, name),
+          ),
+        );
+      }
+    }
+  }
+  return issues;
+}
+
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number';
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isObject(value);
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function joinPath(path: string, name: string): string {
+  return path ? `${path}.${name}` : name;
+}
+
+// `Schema` holds some numbers, such as `minItems`, as strings.
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string' && value !== '' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  return undefined;
+}
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,207 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type * as types from './types.js';
+
+/**
+ * Returns whether a function call is a piece of a call whose arguments are
+ * streamed, as sent with `streamFunctionCallArguments`.
+ */
+export function isStreamedFunctionCall(
+  functionCall: types.FunctionCall,
+): boolean {
+  return (
+    functionCall.willContinue === true || functionCall.partialArgs !== undefined
+  );
+}
+
+/**
+ * Returns whether a function call continues the call whose arguments are
+ * being streamed: a piece with partial arguments, or without a name. Other
+ * calls are complete calls of their own.
+ */
+export function continuesFunctionCall(
+  functionCall: types.FunctionCall,
+): boolean {
+  return (
+    isStreamedFunctionCall(functionCall) || functionCall.name === undefined
+  );
+}
+
+/**
+ * Adds the next piece of a streamed function call to the call assembled so
+ * far.
+ *
+ * @remarks
+ * The partial arguments are set at their JSON paths, and string values that
+ * continue a previous piece are appended to it. While `willContinue` is set
+ * the result keeps it, with the `partialArgs` of the last piece. The complete
+ * call has neither.
+ *
+ * @param call - The call assembled so far, undefined for the first piece.
+ * @param piece - The next piece of the call.
+ * @return The call assembled so far, including the piece.
+ */
+export function assembleFunctionCall(
+  call: types.FunctionCall | undefined,
+  piece: types.FunctionCall,
+): types.FunctionCall {
+  const args: Record<string, unknown> = {
+    ...structuredClone(call?.args ?? {}),
+    ...structuredClone(piece.args ?? {}),
+  };
+  // The string values of the paths the previous piece will continue.
+  const continuing = new Set(
+    (call?.partialArgs ?? [])
+      .filter((arg) => arg.willContinue && arg.jsonPath)
+      .map((arg) => arg.jsonPath!),
+  );
+  for (const arg of piece.partialArgs ?? []) {
+    if (!arg.jsonPath) {
+      continue;
+    }
+    let value = partialArgValue(arg);
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value === 'string' && continuing.has(arg.jsonPath)) {
+      const previous = getPath(args, arg.jsonPath);
+      value = (typeof previous === 'string' ? previous : '') + value;
+    }
+    setPath(args, arg.jsonPath, value);
+  }
+  const assembled: types.FunctionCall = {...call, args};
+  if (piece.name !== undefined) {
+    assembled.name ??= piece.name;
+  }
+  if (piece.id !== undefined) {
+    assembled.id ??= piece.id;
+  }
+  if (piece.willContinue) {
+    assembled.willContinue = true;
+    assembled.partialArgs = piece.partialArgs;
+  } else {
+    delete assembled.willContinue;
+    delete assembled.partialArgs;
+  }
+  return assembled;
+}
+
+/**
+ * Assembles the function calls of a streamed response as its chunks are
+ * read.
+ */
+export class FunctionCallAssembler {
+  private call?: types.FunctionCall;
+
+  /** The call whose arguments are being streamed, as assembled so far. */
+  get pending(): types.FunctionCall | undefined {
+    return this.call;
+  }
+
+  /**
+   * Adds a function call of the response.
+   *
+   * @remarks
+   * A complete call that arrives while another call is being streamed is
+   * returned as it is, without changing the pending call.
+   *
+   * @return The call once it is complete, or undefined while its arguments
+   *     are still being streamed.
+   */
+  add(functionCall: types.FunctionCall): types.FunctionCall | undefined {
+    if (
+      this.call
+        ? !continuesFunctionCall(functionCall)
+        : !isStreamedFunctionCall(functionCall)
+    ) {
+      return functionCall;
+    }
+    this.call = assembleFunctionCall(this.call, functionCall);
+    if (this.call.willContinue) {
+      return undefined;
+    }
+    const call = this.call;
+    this.call = undefined;
+    return call;
+  }
+}
+
+function partialArgValue(arg: types.PartialArg): unknown {
+  if (arg.stringValue !== undefined) {
+    return arg.stringValue;
+  }
+  if (arg.numberValue !== undefined) {
+    return arg.numberValue;
+  }
+  if (arg.boolValue !== undefined) {
+    return arg.boolValue;
+  }
+  if (arg.nullValue !== undefined) {
+    return null;
+  }
+  return undefined;
+}
+
+/**
+ * Splits a JSON path such as `$.foo.bar[0]['baz']` into its keys and
+ * indexes.
+ */
+function parsePath(path: string): Array<string | number> {
+  if (!path.startsWith('$')) {
+    throw new Error(`Invalid JSON path of a partial argument: ${path}`);
+  }
+  const keys: Array<string | number> = [];
+  const pattern =
+    /\.([^.[\]]+)|\[(\d+)\]|\['((?:[^'\\]|\\.)*)'\]|\["((?:[^"\\]|\\.)*)"\]/y;
+  pattern.lastIndex = 1;
+  while (pattern.lastIndex < path.length) {
+    const match = pattern.exec(path);
+    if (!match) {
+      throw new Error(`Invalid JSON path of a partial argument: ${path}`);
+    }
+    if (match[2] !== undefined) {
+      keys.push(Number(match[2]));
+    } else {
+      keys.push((match[1] ?? match[3] ?? match[4]).replace(/\\(.)/g, '$1'));
+    }
+  }
+  return keys;
+}
+
+function getPath(object: Record<string, unknown>, path: string): unknown {
+  let value: unknown = object;
+  for (const key of parsePath(path)) {
+    if (value === null || typeof value !== 'object') {
+      return undefined;
+    }
+    value = (value as Record<string | number, unknown>)[key];
+  }
+  return value;
+}
+
+function setPath(
+  object: Record<string, unknown>,
+  path: string,
+  value: unknown,
+) {
+  const keys = parsePath(path);
+  if (keys.length === 0) {
+    throw new Error(`Invalid JSON path of a partial argument: ${path}`);
+  }
+  let parent: Record<string | number, unknown> = object;
+  keys.forEach((key, i) => {
+    if (i === keys.length - 1) {
+      parent[key] = value;
+      return;
+    }
+    const child = parent[key];
+    if (child === null || typeof child !== 'object') {
+      parent[key] = typeof keys[i + 1] === 'number' ? [] : {};
+    }
+    parent = parent[key] as Record<string | number, unknown>;
+  });
+}
@@ -0,0 +1,210 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {parsePartialJson} from './_partial_json.js';
+import {
+  StandardSchema,
+  validateJsonSchema,
+  validateValue,
+} from './_schema_validation.js';
+import {SchemaIssue, StructuredOutputError} from './errors.js';
+import type * as types from './types.js';
+
+/** Parameters for the `models.generateContentStreamParsed` method. */
+export interface GenerateContentStreamParsedParameters<T>
+  extends types.GenerateContentParameters {
+  /**
+   * The schema of the response: a JSON schema, a `Schema`, or a Standard
+   * Schema such as a zod schema. A JSON schema or `Schema` is also sent as
+   * the `responseJsonSchema` unless the config sets a response schema. A
+   * Standard Schema cannot be converted by the SDK, set its JSON schema as
+   * the `responseJsonSchema` of the config.
+   */
+  schema: StandardSchema<T> | Record<string, unknown>;
+}
+
+/** Parameters for the `models.generateContentParsed` method. */
+export interface GenerateContentParsedParameters<T>
+  extends GenerateContentStreamParsedParameters<T> {
+  /**
+   * How many times to send the validation error back to the model and ask
+   * for a corrected response. If not specified, default to 0.
+   */
+  maxValidationRetries?: number;
+}
+
+/** A response whose text has been parsed and validated against a schema. */
+export interface ParsedGenerateContentResponse<T>
+  extends types.GenerateContentResponse {
+  /** The parsed and validated output, as returned by the schema. */
+  readonly parsed: T;
+}
+
+/** A value of type `T` of which any property may be missing. */
+export type DeepPartial<T> = T extends object
+  ? {[K in keyof T]?: DeepPartial<T[K]>}
+  : T;
+
+/** An item of the stream of `models.generateContentStreamParsed`. */
+export interface ParsedStreamItem<T> {
+  /** The chunk of the stream, unset on the last item. */
+  chunk?: types.GenerateContentResponse;
+  /**
+   * The output received so far, parsed as partial JSON. It is not validated
+   * and undefined until the output has started.
+   */
+  partial: DeepPartial<T> | undefined;
+  /** Whether this is the last item, sent once the stream has ended. */
+  done: boolean;
+  /** The whole output, validated against the schema. Set on the last item. */
+  parsed?: T;
+}
+
+// The JSON output requested for each response, for `parseResponse`.
+const jsonOutputs = new WeakMap<
+  object,
+  {schema: Record<string, unknown> | undefined}
+>();
+
+/**
+ * Remembers whether the request asked for JSON output, and its response
+ * schema if any, so that `parseResponse` parses and validates the response.
+ */
+export function setResponseSchema(
+  response: types.GenerateContentResponse,
+  config: types.GenerateContentConfig | undefined,
+) {
+  const schema = config?.responseJsonSchema ?? config?.responseSchema;
+  const hasSchema = schema !== null && typeof schema === 'object';
+  if (hasSchema || config?.responseMimeType === 'application/json') {
+    jsonOutputs.set(response, {
+      schema: hasSchema ? (schema as Record<string, unknown>) : undefined,
+    });
+  }
+}
+
+/**
+ * Parses the text of a response as JSON and validates it against the
+ * response schema of its request.
+ *
+ * @remarks
+ * Only responses of `models.generateContent` requests that set
+ * `responseMimeType` to `application/json` or a response schema are parsed.
+ *
+ * @param response - The response to parse.
+ * @return The parsed value, or undefined if the request did not ask for JSON
+ *     output or the response has no text.
+ * @throws StructuredOutputError if the text is not valid JSON or does not
+ *     match the schema. Its `path` points to the offending value.
+ *
+ * @example
+ * ```ts
+ * const response = await ai.models.generateContent({
+ *   model: 'gemini-2.5-flash',
+ *   contents: 'List three fruits.',
+ *   config: {
+ *     responseMimeType: 'application/json',
+ *     responseJsonSchema: {type: 'array', items: {type: 'string'}},
+ *   },
+ * });
+ * console.debug(parseResponse(response));
+ * ```
+ */
+export function parseResponse(
+  response: types.GenerateContentResponse,
+): unknown {
+  const jsonOutput = jsonOutputs.get(response);
+  const text = response.text;
+  if (jsonOutput === undefined || text === undefined) {
+    return undefined;
+  }
+  const value = parseJson(text);
+  if (jsonOutput.schema) {
+    const issues = validateJsonSchema(value, jsonOutput.schema, '');
+    if (issues.length > 0) {
+      throw mismatchError(issues, text);
+    }
+  }
+  return value;
+}
+
+/**
+ * Parses the text of a response as JSON and validates it against a schema.
+ *
+ * @throws StructuredOutputError if the response has no text, the text is not
+ *     valid JSON or it does not match the schema.
+ */
+export async function parseResponseWithSchema<T>(
+  text: string | undefined,
+  schema: StandardSchema<T> | Record<string, unknown>,
+): Promise<T> {
+  if (text === undefined) {
+    throw new StructuredOutputError('The response has no text to parse.', [
+      {path: '', message: 'The response has no text.'},
+    ]);
+  }
+  const result = await validateValue(schema, parseJson(text));
+  if ('issues' in result) {
+    throw mismatchError(result.issues, text);
+  }
+  return result.value;
+}
+
+/**
+ * Yields the output of a stream parsed as partial JSON after each chunk, then
+ * the whole output validated against the schema.
+ *
+ * @throws StructuredOutputError if the whole output is not valid JSON or does
+ *     not match the schema.
+ */
+export async function* parseStreamWithSchema<T>(
+  stream: AsyncGenerator<types.GenerateContentResponse>,
+  schema: StandardSchema<T> | Record<string, unknown>,
+): AsyncGenerator<ParsedStreamItem<T>> {
+  let text: string | undefined;
+  let partial: DeepPartial<T> | undefined;
+  for await (const chunk of stream) {
+    const chunkText = chunk.text;
+    if (chunkText !== undefined) {
+      text = (text ?? '') + chunkText;
+      try {
+        partial = parsePartialJson(text) as DeepPartial<T> | undefined;
+      } catch {
+        // Keep the last partial output, the final validation reports the
+        // error.
+      }
+    }
+    yield {chunk, partial, done: false};
+  }
+  const parsed = await parseResponseWithSchema(text, schema);
+  yield {partial: parsed as DeepPartial<T>, done: true, parsed};
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    throw new StructuredOutputError(
+      `The response is not valid JSON: ${message}`,
+      [{path: '', message: `The response is not valid JSON: ${message}`}],
+      text,
+    );
+  }
+}
+
+function mismatchError(
+  issues: SchemaIssue[],
+  text: string,
+): StructuredOutputError {
+  return new StructuredOutputError(
+    `The response does not match the schema: ${issues
+      .map((issue) => issue.message)
+      .join(' ')}`,
+    issues,
+    text,
+  );
+}
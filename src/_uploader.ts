@@ -5,7 +5,14 @@
  */
 
 import {ApiClient} from './_api_client.js';
-import {File, UploadToFileSearchStoreOperation} from './types.js';
+import {
+  File,
+  UploadFileConfig,
+  UploadFileParameters,
+  UploadToFileSearchStoreConfig,
+  UploadToFileSearchStoreOperation,
+  UploadToFileSearchStoreParameters,
+} from './types.js';
 
 /**
  * Represents the size and mimeType of a file. The information is used to
@@ -25,40 +32,198 @@ export interface FileStat {
   type: string | undefined;
 }
 
+/**
+ * A stream of the bytes of a file to upload, such as a web `ReadableStream`
+ * or a Node.js `Readable`.
+ */
+export type UploadStream =
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array>;
+
+/**
+ * Returns whether the file to upload is a stream of its bytes rather than a
+ * path or a Blob.
+ */
+export function isUploadStream(file: unknown): file is UploadStream {
+  return (
+    typeof file === 'object' &&
+    file !== null &&
+    !(typeof Blob !== 'undefined' && file instanceof Blob) &&
+    ('getReader' in file || Symbol.asyncIterator in file)
+  );
+}
+
+/** Describes the progress of a resumable upload. */
+export interface UploadProgress {
+  /**
+   * The URL the file is uploaded to, which can be used to resume the upload.
+   */
+  uploadUrl: string;
+
+  /**
+   * The number of bytes the server has received, the offset from which the
+   * upload resumes.
+   */
+  bytesUploaded: number;
+
+  /**
+   * The size of the file in bytes, if known.
+   */
+  totalBytes?: number;
+}
+
+/**
+ * The content of a file to upload.
+ *
+ * @remarks
+ * - A string path to a file, in Node.js only.
+ * - A `Blob` object, such as a browser `File`.
+ * - The bytes of the file, such as a Node.js `Buffer`.
+ * - A stream of the bytes of the file, such as a web `ReadableStream` or a
+ *   Node.js `Readable`. Data produced on the fly can be uploaded without
+ *   writing it to a file first. Its `mimeType` must be set in the config, and
+ *   its `sizeBytes` if known. Otherwise the stream is uploaded in chunks until
+ *   it ends.
+ */
+export type UploadFileSource =
+  | string
+  | globalThis.Blob
+  | Uint8Array
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array>;
+
+/**
+ * Configuration of a resumable upload: its size, its progress and how to
+ * resume it.
+ */
+export interface ResumableUploadConfig {
+  /**
+   * Called once the upload has started and after each chunk of the file is
+   * uploaded, to report the progress of the upload. The upload URL and
+   * offset it reports can be saved to resume the upload if it is
+   * interrupted.
+   */
+  onProgress?: (progress: UploadProgress) => void;
+
+  /**
+   * The upload URL of an interrupted upload of the same file, as reported by
+   * `onProgress`. The upload is resumed from the offset the server has
+   * received instead of starting over.
+   */
+  resumeUploadUrl?: string;
+
+  /**
+   * The size in bytes of a file uploaded from a stream. If not provided, the
+   * stream is uploaded in chunks until it ends.
+   */
+  sizeBytes?: number;
+}
+
+/** Optional parameters of `files.upload`. */
+export interface ResumableUploadFileConfig
+  extends UploadFileConfig,
+    ResumableUploadConfig {}
+
+/** Parameters of `files.upload`. */
+export interface ResumableUploadFileParameters
+  extends Omit<UploadFileParameters, 'file' | 'config'> {
+  /**
+   * The string path to the file to be uploaded, a Blob object, the bytes of
+   * the file or a stream of them. See {@link UploadFileSource}.
+   */
+  file: UploadFileSource;
+  /** Configuration that contains optional parameters. */
+  config?: ResumableUploadFileConfig;
+}
+
+/** Optional parameters of `fileSearchStores.uploadToFileSearchStore`. */
+export interface ResumableUploadToFileSearchStoreConfig
+  extends UploadToFileSearchStoreConfig,
+    ResumableUploadConfig {}
+
+/** Parameters of `fileSearchStores.uploadToFileSearchStore`. */
+export interface ResumableUploadToFileSearchStoreParameters
+  extends Omit<UploadToFileSearchStoreParameters, 'file' | 'config'> {
+  /**
+   * The string path to the file to be uploaded, a Blob object, the bytes of
+   * the file or a stream of them. See {@link UploadFileSource}.
+   */
+  file: UploadFileSource;
+  /** Configuration that contains optional parameters. */
+  config?: ResumableUploadToFileSearchStoreConfig;
+}
+
+/**
+ * Options of an upload, taken from the `ResumableUploadFileConfig` or
+ * `ResumableUploadToFileSearchStoreConfig`.
+ */
+export interface UploadOptions {
+  /**
+   * Whether the upload URL is of an interrupted upload, so that the upload
+   * continues from the offset the server has received.
+   */
+  resume?: boolean;
+
+  /**
+   * Called once the upload has started, or the resumed upload has been
+   * queried, and after each chunk of the file is uploaded.
+   */
+  onProgress?: (progress: UploadProgress) => void;
+
+  /**
+   * Abort signal which can be used to cancel the upload.
+   */
+  abortSignal?: AbortSignal;
+
+  /**
+   * The size of a file uploaded from a stream, if known.
+   */
+  sizeBytes?: number;
+}
+
 export interface Uploader {
   /**
    * Uploads a file to the given upload url.
    *
-   * @param file The file to upload. file is in string type or a Blob.
+   * @param file The file to upload. file is in string type, a Blob or a
+   *     stream of its bytes.
    * @param uploadUrl The upload URL as a string is where the file will be
    *     uploaded to. The uploadUrl must be a url that was returned by the
    * https://generativelanguage.googleapis.com/upload/v1beta/files endpoint
    * @param apiClient The ApiClient to use for uploading.
+   * @param httpOptions Optional HTTP options to merge.
+   * @param options Optional options to resume the upload and report its
+   *     progress.
    * @return A Promise that resolves to types.File.
    */
   upload(
-    file: string | Blob,
+    file: string | Blob | UploadStream,
     uploadUrl: string,
     apiClient: ApiClient,
     httpOptions?: import('./types.js').HttpOptions,
+    options?: UploadOptions,
   ): Promise<File>;
 
   /**
    * Uploads a file to file search store via the given upload url.
    *
-   * @param file The file to upload. file is in string type or a Blob.
+   * @param file The file to upload. file is in string type, a Blob or a
+   *     stream of its bytes.
    * @param uploadUrl The upload URL as a string is where the file will be
    *     uploaded to. The uploadUrl must be a url that was returned by the
    * https://generativelanguage.googleapis.com/upload/v1beta/{file_search_store_name}:uploadToFileSearchStore endpoint
    * @param apiClient The ApiClient to use for uploading.
    * @param httpOptions Optional HTTP options to merge.
+   * @param options Optional options to resume the upload and report its
+   *     progress.
    * @return A Promise that resolves to types.UploadToFileSearchStoreOperation.
    */
   uploadToFileSearchStore(
-    file: string | Blob,
+    file: string | Blob | UploadStream,
     uploadUrl: string,
     apiClient: ApiClient,
     httpOptions?: import('./types.js').HttpOptions,
+    options?: UploadOptions,
   ): Promise<UploadToFileSearchStoreOperation>;
 
   /**
@@ -29,6 +29,15 @@ export interface WebSocket {
    * Closes the socket connection.
    */
   close(): void;
+  /**
+   * Stops receiving messages until `resume` is called, if the implementation
+   * supports it.
+   */
+  pause?(): void;
+  /**
+   * Resumes receiving messages after `pause`.
+   */
+  resume?(): void;
 }
 
 export interface WebSocketFactory {
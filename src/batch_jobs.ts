@@ -0,0 +1,118 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {ApiClient} from './_api_client.js';
+import {
+  BatchJobResult,
+  BatchJobResultsConfig,
+  readBatchJobResults,
+} from './_batch_results.js';
+import {PollingConfig, pollUntilDone} from './_polling.js';
+import {Batches} from './batches.js';
+import {BatchJobError, BatchJobTimeoutError} from './errors.js';
+import * as types from './types.js';
+
+const ENDED_JOB_STATES = new Set<types.JobState>([
+  types.JobState.JOB_STATE_SUCCEEDED,
+  types.JobState.JOB_STATE_PARTIALLY_SUCCEEDED,
+  types.JobState.JOB_STATE_FAILED,
+  types.JobState.JOB_STATE_CANCELLED,
+  types.JobState.JOB_STATE_EXPIRED,
+]);
+
+/**
+ * The batch jobs module, with methods to wait for a batch job to end and to
+ * read its results.
+ */
+export class BatchJobs extends Batches {
+  constructor(private readonly jobsApiClient: ApiClient) {
+    super(jobsApiClient);
+  }
+
+  /**
+   * Waits for a batch job to end, polling its state.
+   *
+   * @remarks
+   * A batch job ends when it succeeds, partially succeeds, fails, is
+   * cancelled or expires. The delay between polls grows by the `backoff` of
+   * the config after each poll.
+   *
+   * @param job The batch job to wait for.
+   * @param config The polling configuration.
+   * @return The ended batch job, in the `JOB_STATE_SUCCEEDED`,
+   *     `JOB_STATE_PARTIALLY_SUCCEEDED` or `JOB_STATE_CANCELLED` state.
+   * @throws BatchJobError if the batch job fails or expires.
+   * @throws BatchJobTimeoutError if the batch job has not ended by the
+   *     timeout of the config.
+   *
+   * @example
+   * ```ts
+   * const job = await ai.batches.wait(
+   *   await ai.batches.create({model: 'gemini-2.5-flash', src: requests}),
+   *   {pollInterval: 30, onProgress: (job) => console.log(job.state)},
+   * );
+   * ```
+   */
+  async wait(
+    job: types.BatchJob,
+    config?: PollingConfig<types.BatchJob>,
+  ): Promise<types.BatchJob> {
+    if (!job.name) {
+      throw new Error('Batch job name is required.');
+    }
+    const ended = await pollUntilDone(
+      job,
+      (current) =>
+        this.get({
+          name: current.name!,
+          config: {
+            httpOptions: config?.httpOptions,
+            abortSignal: config?.abortSignal,
+          },
+        }),
+      (current) =>
+        current.state !== undefined && ENDED_JOB_STATES.has(current.state),
+      config,
+      (current, timeout) => new BatchJobTimeoutError(current, timeout),
+    );
+    if (
+      ended.state === types.JobState.JOB_STATE_FAILED ||
+      ended.state === types.JobState.JOB_STATE_EXPIRED
+    ) {
+      throw new BatchJobError(ended);
+    }
+    return ended;
+  }
+
+  /**
+   * Reads the results of an ended batch job.
+   *
+   * @remarks
+   * The results are read whether they were returned inline, written to a
+   * file of the Gemini Developer API, or written to Cloud Storage or
+   * BigQuery. Their order is unspecified, use the `key` of each result to
+   * match it with its request. Cloud Storage output is read with the
+   * credentials of the client. BigQuery output is read by the `reader` of
+   * the config, as the SDK does not access BigQuery itself.
+   *
+   * @param job The ended batch job, as returned by `wait` or `get`.
+   * @param config The config for reading the results.
+   * @return The result of each request of the batch job.
+   *
+   * @example
+   * ```ts
+   * for await (const result of ai.batches.results(await ai.batches.wait(job))) {
+   *   console.log(result.key, result.error ?? result.response);
+   * }
+   * ```
+   */
+  results(
+    job: types.BatchJob,
+    config?: BatchJobResultsConfig,
+  ): AsyncGenerator<BatchJobResult> {
+    return readBatchJobResults(job, this.jobsApiClient, config);
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {ChatSnapshot} from './chats.js';
+
+/**
+ * Persists chat sessions, as {@link ChatSnapshot}s, so that they can be
+ * restored with {@link Chats#restore} in a later request or process.
+ *
+ * @example
+ * ```ts
+ * await store.save(sessionId, chat.toJSON());
+ * // Later:
+ * const snapshot = await store.load(sessionId);
+ * const chat = snapshot
+ *   ? ai.chats.restore(snapshot)
+ *   : ai.chats.create({model: 'gemini-2.5-flash'});
+ * ```
+ */
+export interface ChatHistoryStore {
+  /**
+   * Returns the snapshot saved for a session, or `undefined` if there is
+   * none.
+   */
+  load(sessionId: string): Promise<ChatSnapshot | undefined>;
+  /** Saves the snapshot of a session, replacing any previous one. */
+  save(sessionId: string, snapshot: ChatSnapshot): Promise<void>;
+  /** Deletes the snapshot of a session, if there is one. */
+  delete(sessionId: string): Promise<void>;
+}
+
+/**
+ * A {@link ChatHistoryStore} that keeps the snapshots in memory, for tests
+ * and single-process applications.
+ */
+export class InMemoryChatHistoryStore implements ChatHistoryStore {
+  private readonly snapshots = new Map<string, string>();
+
+  async load(sessionId: string): Promise<ChatSnapshot | undefined> {
+    const snapshot = this.snapshots.get(sessionId);
+    // Snapshots are stored as JSON so that callers cannot change them.
+    return snapshot === undefined
+      ? undefined
+      : (JSON.parse(snapshot) as ChatSnapshot);
+  }
+
+  async save(sessionId: string, snapshot: ChatSnapshot): Promise<void> {
+    this.snapshots.set(sessionId, JSON.stringify(snapshot));
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.snapshots.delete(sessionId);
+  }
+}
@@ -0,0 +1,331 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as types from './types.js';
+
+const DEFAULT_SUMMARY_PROMPT =
+  'Summarize the following conversation between a user and a model. ' +
+  'Keep the facts, decisions and open questions that later turns may refer ' +
+  'to.';
+
+/**
+ * Selects the part of a chat session's curated history that is sent to the
+ * model with each message. The history of the chat session itself is kept in
+ * full.
+ */
+export interface ChatHistoryStrategy {
+  /**
+   * Returns the contents to send before the new message.
+   *
+   * @param history The curated history of the chat session.
+   * @param context The message about to be sent and helpers to call the
+   *     model.
+   * @return The contents to send in place of the history. They should start
+   *     with a user turn and keep function calls and their responses
+   *     together.
+   */
+  selectHistory(
+    history: types.Content[],
+    context: ChatHistoryContext,
+  ): Promise<types.Content[]>;
+}
+
+/** What a {@link ChatHistoryStrategy} can use to select the history. */
+export interface ChatHistoryContext {
+  /** The model of the chat session. */
+  model: string;
+  /** The message about to be sent. */
+  message: types.Content;
+  /** Generates content with the client of the chat session. */
+  generateContent: (
+    params: types.GenerateContentParameters,
+  ) => Promise<types.GenerateContentResponse>;
+  /** Counts tokens with the client of the chat session. */
+  countTokens: (
+    params: types.CountTokensParameters,
+  ) => Promise<types.CountTokensResponse>;
+}
+
+/** Options for {@link slidingWindowHistory}. */
+export interface SlidingWindowHistoryOptions {
+  /** The number of most recent turns to send, a positive integer. */
+  maxTurns: number;
+}
+
+/** Options for {@link tokenBudgetHistory}. */
+export interface TokenBudgetHistoryOptions {
+  /**
+   * The maximum number of tokens of the history and the new message
+   * together, a positive number. The most recent turns that fit are sent.
+   */
+  maxTokens: number;
+  /**
+   * Counts the tokens of a list of contents, for example with the
+   * `LocalTokenizer`. If not specified, `Models.countTokens` is called with
+   * the model of the chat session.
+   */
+  countTokens?: (contents: types.Content[]) => Promise<number>;
+}
+
+/** Options for {@link summarizingHistory}. */
+export interface SummarizingHistoryOptions {
+  /**
+   * The number of turns from which older turns are summarized, a positive
+   * integer. Until the history has more turns, it is sent in full.
+   */
+  maxTurns: number;
+  /**
+   * The number of most recent turns to send as they are, next to the
+   * summary, at most `maxTurns`. If not specified, default to half of
+   * `maxTurns`.
+   */
+  keepTurns?: number;
+  /**
+   * The model that writes the summary. If not specified, the model of the
+   * chat session is used.
+   */
+  model?: string;
+  /** The instruction for writing the summary. */
+  prompt?: string;
+}
+
+/**
+ * Splits a history into turns. A turn starts with a user message and holds
+ * the model's answer, including function calls and their responses, so that
+ * they are never separated.
+ */
+export function splitTurns(history: types.Content[]): types.Content[][] {
+  const turns: types.Content[][] = [];
+  for (const content of history) {
+    const isFunctionResponse =
+      content.role === 'user' &&
+      (content.parts ?? []).some((part) => part.functionResponse);
+    if (
+      turns.length === 0 ||
+      (content.role === 'user' && !isFunctionResponse)
+    ) {
+      turns.push([content]);
+    } else {
+      turns[turns.length - 1].push(content);
+    }
+  }
+  return turns;
+}
+
+/**
+ * Returns a strategy that sends the most recent turns of a chat session.
+ *
+ * @example
+ * ```ts
+ * const chat = ai.chats.create({
+ *   model: 'gemini-2.5-flash',
+ *   historyStrategy: slidingWindowHistory({maxTurns: 20}),
+ * });
+ * ```
+ */
+export function slidingWindowHistory(
+  options: SlidingWindowHistoryOptions,
+): ChatHistoryStrategy {
+  checkPositiveInteger('maxTurns', options.maxTurns);
+  return {
+    selectHistory: async (history) =>
+      splitTurns(history).slice(-options.maxTurns).flat(),
+  };
+}
+
+/**
+ * Returns a strategy that sends the most recent turns of a chat session that
+ * fit in a token budget together with the new message.
+ *
+ * @remarks
+ * Token counts are cached per turn, so each turn is only counted once.
+ *
+ * @example
+ * ```ts
+ * import {LocalTokenizer} from '@google/genai/tokenizer/node';
+ *
+ * const tokenizer = new LocalTokenizer('gemini-2.5-flash');
+ * const chat = ai.chats.create({
+ *   model: 'gemini-2.5-flash',
+ *   historyStrategy: tokenBudgetHistory({
+ *     maxTokens: 100_000,
+ *     countTokens: async (contents) =>
+ *       (await tokenizer.countTokens(contents)).totalTokens ?? 0,
+ *   }),
+ * });
+ * ```
+ */
+export function tokenBudgetHistory(
+  options: TokenBudgetHistoryOptions,
+): ChatHistoryStrategy {
+  checkPositiveNumber('maxTokens', options.maxTokens);
+  const cache = new Map<string, number>();
+  return {
+    selectHistory: async (history, context) => {
+      const countTokens =
+        options.countTokens ??
+        (async (contents: types.Content[]) =>
+          (await context.countTokens({model: context.model, contents}))
+            .totalTokens ?? 0);
+      const count = async (contents: types.Content[]) => {
+        const key = JSON.stringify(contents);
+        let tokens = cache.get(key);
+        if (tokens === undefined) {
+          tokens = await countTokens(contents);
+          cache.set(key, tokens);
+        }
+        return tokens;
+      };
+      const turns = splitTurns(history);
+      let total = await count([context.message]);
+      let first = turns.length;
+      while (first > 0) {
+        const tokens = await count(turns[first - 1]);
+        if (total + tokens > options.maxTokens) {
+          break;
+        }
+        total += tokens;
+        first--;
+      }
+      return turns.slice(first).flat();
+    },
+  };
+}
+
+/**
+ * Returns a strategy that replaces the older turns of a long chat session
+ * with a summary written by the model.
+ *
+ * @remarks
+ * Once the history has more than `maxTurns` turns, all but the last
+ * `keepTurns` turns are summarized. The summary is sent as a user turn that
+ * the model acknowledges, followed by the kept turns. It is updated, not
+ * rewritten, as more turns get old.
+ *
+ * @example
+ * ```ts
+ * const chat = ai.chats.create({
+ *   model: 'gemini-2.5-flash',
+ *   historyStrategy: summarizingHistory({maxTurns: 30, keepTurns: 10}),
+ * });
+ * ```
+ */
+export function summarizingHistory(
+  options: SummarizingHistoryOptions,
+): ChatHistoryStrategy {
+  checkPositiveInteger('maxTurns', options.maxTurns);
+  const keepTurns = options.keepTurns ?? Math.floor(options.maxTurns / 2);
+  if (
+    !Number.isInteger(keepTurns) ||
+    keepTurns < 0 ||
+    keepTurns > options.maxTurns
+  ) {
+    throw new Error(
+      `keepTurns must be an integer from 0 to maxTurns (${options.maxTurns}), got ${keepTurns}.`,
+    );
+  }
+  // The summary of the `summarized` turns.
+  let summary = '';
+  let summarized: types.Content[][] = [];
+  return {
+    selectHistory: async (history, context) => {
+      const turns = splitTurns(history);
+      if (turns.length <= options.maxTurns) {
+        return history;
+      }
+      const old = turns.slice(0, turns.length - keepTurns);
+      const isContinuation =
+        summarized.length > 0 &&
+        summarized.length <= old.length &&
+        JSON.stringify(old.slice(0, summarized.length)) ===
+          JSON.stringify(summarized);
+      const previousSummary = isContinuation ? summary : '';
+      const newTurns = old.slice(isContinuation ? summarized.length : 0);
+      if (newTurns.length > 0) {
+        summary = await summarize(
+          context,
+          options.model ?? context.model,
+          options.prompt ?? DEFAULT_SUMMARY_PROMPT,
+          previousSummary,
+          newTurns.flat(),
+        );
+        summarized = old;
+      }
+      return [
+        {
+          role: 'user',
+          parts: [{text: `Summary of the earlier conversation:\n${summary}`}],
+        },
+        {role: 'model', parts: [{text: 'Understood.'}]},
+        ...turns.slice(old.length).flat(),
+      ];
+    },
+  };
+}
+
+/**
+ * @throws Error if the value of the option is not a positive integer.
+ */
+function checkPositiveInteger(name: string, value: number) {
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`${name} must be a positive integer, got ${value}.`);
+  }
+}
+
+/**
+ * @throws Error if the value of the option is not a positive number.
+ */
+function checkPositiveNumber(name: string, value: number) {
+  if (!(value > 0)) {
+    throw new Error(`${name} must be a positive number, got ${value}.`);
+  }
+}
+
+async function summarize(
+  context: ChatHistoryContext,
+  model: string,
+  prompt: string,
+  previousSummary: string,
+  contents: types.Content[],
+): Promise<string> {
+  const transcript = contents
+    .map((content) => {
+      const text = (content.parts ?? [])
+        .map((part) => {
+          if (part.text !== undefined && !part.thought) {
+            return part.text;
+          }
+          if (part.functionCall) {
+            return `[called ${part.functionCall.name}(${JSON.stringify(
+              part.functionCall.args ?? {},
+            )})]`;
+          }
+          if (part.functionResponse) {
+            return `[${part.functionResponse.name} returned ${JSON.stringify(
+              part.functionResponse.response ?? {},
+            )}]`;
+          }
+          return '';
+        })
+        .filter((text) => text !== '')
+        .join('\n');
+      return `${content.role}: ${text}`;
+    })
+    .join('\n\n');
+  const response = await context.generateContent({
+    model,
+    contents: [
+      previousSummary
+        ? `${prompt}\n\nSummary of the conversation so far:\n${previousSummary}\n\nConversation to add:\n${transcript}`
+        : `${prompt}\n\nConversation:\n${transcript}`,
+    ],
+  });
+  const text = response.text;
+  if (!text) {
+    throw new Error('The model did not return a summary of the chat history.');
+  }
+  return text;
+}
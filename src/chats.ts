@@ -4,9 +4,15 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import {isCallableTool} from './_afc.js';
 import {ApiClient} from './_api_client.js';
+import {FunctionCallAssembler} from './_streamed_function_calls.js';
 import * as t from './_transformers.js';
+import {Caches} from './caches.js';
+import {ChatHistoryStrategy, splitTurns} from './chat_history_strategies.js';
+import {ContextCache, ContextCacheConfig} from './context_cache.js';
 import {Models} from './models.js';
+import {GenerateContentStream} from './response_stream.js';
 import * as types from './types.js';
 
 /**
@@ -35,6 +41,32 @@ function isValidContent(content: types.Content): boolean {
   return true;
 }
 
+/**
+ * Returns the content with the pieces of its streamed function calls
+ * replaced by the complete calls, or undefined if all its parts are pieces of
+ * calls that are not complete yet.
+ */
+function assembleFunctionCalls(
+  content: types.Content,
+  assembler: FunctionCallAssembler,
+): types.Content | undefined {
+  if (!content.parts?.some((part) => part.functionCall)) {
+    return content;
+  }
+  const parts: types.Part[] = [];
+  for (const part of content.parts) {
+    if (!part.functionCall) {
+      parts.push(part);
+      continue;
+    }
+    const functionCall = assembler.add(part.functionCall);
+    if (functionCall) {
+      parts.push({...part, functionCall});
+    }
+  }
+  return parts.length > 0 ? {...content, parts} : undefined;
+}
+
 /**
  * Validates the history contains the correct roles.
  *
@@ -95,6 +127,109 @@ function extractCuratedHistory(
   return curatedHistory;
 }
 
+/** The version of the {@link ChatSnapshot} format written by this SDK. */
+export const CHAT_SNAPSHOT_VERSION = 1;
+
+/**
+ * A serializable snapshot of a {@link Chat} session, as returned by
+ * {@link Chat#toJSON} and accepted by {@link Chats#restore}.
+ */
+export interface ChatSnapshot {
+  /** The version of the snapshot format. */
+  version: number;
+  /** The name of the model of the chat session. */
+  model: string;
+  /**
+   * The config of the chat session, without the values that cannot be
+   * serialized: `CallableTool`s, the abort signal and functions such as
+   * hooks and callbacks. Supply them again when restoring the session.
+   */
+  config?: types.GenerateContentConfig;
+  /** The comprehensive history of the chat session. */
+  history: types.Content[];
+  /**
+   * The curated history of the chat session, as sent to the model. It is
+   * derived from `history` and only included for convenience.
+   */
+  curatedHistory: types.Content[];
+}
+
+/** Parameters for creating a chat session with {@link Chats#create}. */
+export interface CreateChatSessionParameters
+  extends types.CreateChatParameters {
+  /**
+   * Selects the part of the curated history that is sent with each message,
+   * for example to stay within the context window of the model in long chat
+   * sessions. If not set, the whole curated history is sent.
+   */
+  historyStrategy?: ChatHistoryStrategy;
+  /**
+   * Moves the stable prefix of the requests of the chat session, its system
+   * instruction, tools and earlier history, into a cached content once it is
+   * large enough. Call `chat.close()` to delete the cached content. If not
+   * set, no cached content is created.
+   */
+  contextCache?: ContextCacheConfig;
+}
+
+/**
+ * Options for restoring a chat session with {@link Chats#restore}. They mirror
+ * {@link CreateChatSessionParameters}, as a snapshot only holds the model,
+ * the serializable config and the history of the session.
+ */
+export interface RestoreChatOptions {
+  /**
+   * Config fields to set on top of the config of the snapshot. Its `tools`,
+   * such as the `CallableTool`s that the snapshot does not contain, are added
+   * to the tools of the snapshot.
+   */
+  config?: types.GenerateContentConfig;
+  /** See {@link CreateChatSessionParameters.historyStrategy}. */
+  historyStrategy?: ChatHistoryStrategy;
+  /** See {@link CreateChatSessionParameters.contextCache}. */
+  contextCache?: ContextCacheConfig;
+}
+
+/**
+ * Returns a copy of the config without the values that cannot be serialized.
+ */
+function toSerializableConfig(
+  config: types.GenerateContentConfig,
+): types.GenerateContentConfig {
+  const serializable: types.GenerateContentConfig = {...config};
+  delete serializable.abortSignal;
+  if (config.tools) {
+    serializable.tools = config.tools.filter((tool) => !isCallableTool(tool));
+  }
+  // JSON drops the functions, such as hooks and callbacks.
+  return JSON.parse(
+    JSON.stringify(serializable),
+  ) as types.GenerateContentConfig;
+}
+
+/**
+ * Parses a snapshot and checks that it can be restored.
+ *
+ * @throws Error if the snapshot is malformed or has an unsupported version.
+ */
+function parseChatSnapshot(snapshot: ChatSnapshot | string): ChatSnapshot {
+  const parsed = (
+    typeof snapshot === 'string' ? JSON.parse(snapshot) : snapshot
+  ) as ChatSnapshot;
+  if (typeof parsed !== 'object' || parsed === null) {
+    throw new Error('Chat snapshot must be an object.');
+  }
+  if (parsed.version !== CHAT_SNAPSHOT_VERSION) {
+    throw new Error(
+      `Unsupported chat snapshot version ${parsed.version}, expected ${CHAT_SNAPSHOT_VERSION}.`,
+    );
+  }
+  if (typeof parsed.model !== 'string' || !Array.isArray(parsed.history)) {
+    throw new Error('Chat snapshot must have a model and a history.');
+  }
+  return parsed;
+}
+
 /**
  * A utility class to create a chat session.
  */
@@ -129,7 +264,7 @@ export class Chats {
    * });
    * ```
    */
-  create(params: types.CreateChatParameters) {
+  create(params: CreateChatSessionParameters) {
     return new Chat(
       this.apiClient,
       this.modelsModule,
@@ -138,6 +273,57 @@ export class Chats {
       // Deep copy the history to avoid mutating the history outside of the
       // chat session.
       structuredClone(params.history),
+      params.historyStrategy,
+      params.contextCache,
+    );
+  }
+
+  /**
+   * Restores a chat session from a snapshot taken with {@link Chat#toJSON}.
+   *
+   * @remarks
+   * The snapshot does not contain the values of the config that cannot be
+   * serialized, such as `CallableTool`s. Pass them in `options.config`, which
+   * is merged over the config of the snapshot. Its tools are added to the
+   * tools of the snapshot rather than replacing them. The history strategy
+   * and the context cache of the session are not part of the snapshot
+   * either.
+   *
+   * @param snapshot - The snapshot, or its JSON string.
+   * @param options - The options of the restored chat session.
+   * @returns The restored chat session.
+   * @throws Error if the snapshot is malformed or has an unsupported version.
+   *
+   * @example
+   * ```ts
+   * const store = new InMemoryChatHistoryStore();
+   * await store.save('session-1', chat.toJSON());
+   * // Later, possibly in another process with a persistent store:
+   * const snapshot = await store.load('session-1');
+   * const restored = ai.chats.restore(snapshot!, {
+   *   config: {tools: [weatherTool]},
+   * });
+   * ```
+   */
+  restore(snapshot: ChatSnapshot | string, options?: RestoreChatOptions): Chat {
+    const parsed = parseChatSnapshot(snapshot);
+    const config: types.GenerateContentConfig = {
+      ...parsed.config,
+      ...options?.config,
+    };
+    if (parsed.config?.tools && options?.config?.tools) {
+      // The snapshot keeps the serializable tools, and the options supply the
+      // CallableTools that it dropped.
+      config.tools = [...parsed.config.tools, ...options.config.tools];
+    }
+    return new Chat(
+      this.apiClient,
+      this.modelsModule,
+      parsed.model,
+      config,
+      structuredClone(parsed.history),
+      options?.historyStrategy,
+      options?.contextCache,
     );
   }
 }
@@ -153,6 +339,7 @@ export class Chat {
   // A promise to represent the current state of the message being sent to the
   // model.
   private sendPromise: Promise<void> = Promise.resolve();
+  private readonly contextCache?: ContextCache;
 
   constructor(
     private readonly apiClient: ApiClient,
@@ -160,8 +347,17 @@ export class Chat {
     private readonly model: string,
     private readonly config: types.GenerateContentConfig = {},
     private history: types.Content[] = [],
+    private readonly historyStrategy?: ChatHistoryStrategy,
+    private readonly contextCacheConfig?: ContextCacheConfig,
   ) {
     validateHistory(history);
+    if (contextCacheConfig) {
+      this.contextCache = new ContextCache(
+        modelsModule,
+        new Caches(apiClient),
+        contextCacheConfig,
+      );
+    }
   }
 
   /**
@@ -187,43 +383,7 @@ export class Chat {
   async sendMessage(
     params: types.SendMessageParameters,
   ): Promise<types.GenerateContentResponse> {
-    await this.sendPromise;
-    const inputContent = t.tContent(params.message);
-    const responsePromise = this.modelsModule.generateContent({
-      model: this.model,
-      contents: this.getHistory(true).concat(inputContent),
-      config: params.config ?? this.config,
-    });
-    this.sendPromise = (async () => {
-      const response = await responsePromise;
-      const outputContent = response.candidates?.[0]?.content;
-
-      // Because the AFC input contains the entire curated chat history in
-      // addition to the new user input, we need to truncate the AFC history
-      // to deduplicate the existing chat history.
-      const fullAutomaticFunctionCallingHistory =
-        response.automaticFunctionCallingHistory;
-      const index = this.getHistory(true).length;
-
-      let automaticFunctionCallingHistory: types.Content[] = [];
-      if (fullAutomaticFunctionCallingHistory != null) {
-        automaticFunctionCallingHistory =
-          fullAutomaticFunctionCallingHistory.slice(index) ?? [];
-      }
-
-      const modelOutput = outputContent ? [outputContent] : [];
-      this.recordHistory(
-        inputContent,
-        modelOutput,
-        automaticFunctionCallingHistory,
-      );
-      return;
-    })();
-    await this.sendPromise.catch(() => {
-      // Resets sendPromise to avoid subsequent calls failing
-      this.sendPromise = Promise.resolve();
-    });
-    return responsePromise;
+    return this.enqueue(() => this.send(params));
   }
 
   /**
@@ -233,6 +393,9 @@ export class Chat {
    * This method will wait for the previous message to be processed before
    * sending the next message.
    *
+   * The turn is added to the chat history once the response has been read
+   * to the end. An aborted response is not added.
+   *
    * @see {@link Chat#sendMessage} for non-streaming method.
    * @param params - parameters for sending the message.
    * @return The model's response.
@@ -250,23 +413,28 @@ export class Chat {
    */
   async sendMessageStream(
     params: types.SendMessageParameters,
-  ): Promise<AsyncGenerator<types.GenerateContentResponse>> {
-    await this.sendPromise;
-    const inputContent = t.tContent(params.message);
-    const streamResponse = this.modelsModule.generateContentStream({
-      model: this.model,
-      contents: this.getHistory(true).concat(inputContent),
-      config: params.config ?? this.config,
+  ): Promise<GenerateContentStream> {
+    // The next message waits until the response starts, not until it has
+    // been read.
+    return this.enqueue(async () => {
+      const inputContent = t.tContent(params.message);
+      const sentHistory = await this.selectHistory(inputContent);
+      const request = await this.buildRequest(
+        sentHistory.concat(inputContent),
+        params.config ?? this.config,
+      );
+      let response: GenerateContentStream;
+      try {
+        response = await this.modelsModule.generateContentStream(request);
+      } catch (e) {
+        this.contextCache?.handleError(request, e);
+        throw e;
+      }
+      return new GenerateContentStream(
+        this.processStreamResponse(response, inputContent),
+        (reason) => response.abort(reason),
+      );
     });
-    // Resolve the internal tracking of send completion promise - `sendPromise`
-    // for both success and failure response. The actual failure is still
-    // propagated by the `await streamResponse`.
-    this.sendPromise = streamResponse
-      .then(() => undefined)
-      .catch(() => undefined);
-    const response = await streamResponse;
-    const result = this.processStreamResponse(response, inputContent);
-    return result;
   }
 
   /**
@@ -301,16 +469,287 @@ export class Chat {
     return structuredClone(history);
   }
 
+  /**
+   * Returns a serializable snapshot of the chat session, which
+   * {@link Chats#restore} turns back into a chat session.
+   *
+   * @remarks
+   * Called by `JSON.stringify(chat)`. Messages that are still being sent are
+   * not included.
+   *
+   * @return The snapshot of the chat session.
+   */
+  toJSON(): ChatSnapshot {
+    return {
+      version: CHAT_SNAPSHOT_VERSION,
+      model: this.model,
+      config: toSerializableConfig(this.config),
+      history: this.getHistory(),
+      curatedHistory: this.getHistory(true),
+    };
+  }
+
+  /**
+   * Creates a new chat session with a copy of the history of this one, to
+   * continue the conversation in another direction.
+   *
+   * @remarks
+   * This method will wait for the previous message to be processed. The new
+   * session shares the model, the config and the history strategy. With
+   * context caching, it creates its own cached content.
+   *
+   * @return The new chat session.
+   *
+   * @example
+   * ```ts
+   * const alternative = await chat.fork();
+   * await alternative.sendMessage({message: 'Make it shorter.'});
+   * ```
+   */
+  async fork(): Promise<Chat> {
+    return this.enqueue(
+      async () =>
+        new Chat(
+          this.apiClient,
+          this.modelsModule,
+          this.model,
+          this.config,
+          this.getHistory(),
+          this.historyStrategy,
+          this.contextCacheConfig,
+        ),
+    );
+  }
+
+  /**
+   * Removes the last turns from the history.
+   *
+   * @remarks
+   * This method will wait for the previous message to be processed. A turn
+   * is a user message together with the model's answer, including any
+   * function calls and function responses, so that a function call is never
+   * separated from its response or from its thought signature.
+   *
+   * @param turns - The number of turns to remove. Defaults to 1.
+   * @return The removed contents of the comprehensive history.
+   * @throws Error if the history has fewer turns.
+   */
+  async rewind(turns: number = 1): Promise<types.Content[]> {
+    return this.enqueue(async () => {
+      const allTurns = splitTurns(this.history);
+      if (!Number.isInteger(turns) || turns < 0 || turns > allTurns.length) {
+        throw new Error(
+          `Cannot rewind ${turns} turns, the chat history has ${allTurns.length} turns.`,
+        );
+      }
+      const removed = allTurns.slice(allTurns.length - turns).flat();
+      this.history = allTurns.slice(0, allTurns.length - turns).flat();
+      return removed;
+    });
+  }
+
+  /**
+   * Sends the last user message again, replacing the model's answer with a
+   * new one.
+   *
+   * @remarks
+   * This method will wait for the previous message to be processed. If the
+   * request fails, the history is left unchanged.
+   *
+   * @param config - The config of the request, overriding the config of the
+   *     chat session.
+   * @return The model's new response.
+   * @throws Error if the history has no user message to send again.
+   */
+  async regenerate(
+    config?: types.GenerateContentConfig,
+  ): Promise<types.GenerateContentResponse> {
+    return this.enqueue(async () => {
+      const turns = splitTurns(this.history);
+      const index = turns.length - 1;
+      if (index < 0 || turns[index][0].role !== 'user') {
+        throw new Error('The chat history has no user message to regenerate.');
+      }
+      return this.resendTurn(index, turns[index][0].parts ?? [], config);
+    });
+  }
+
+  /**
+   * Replaces a past user message and sends it again, discarding the turns
+   * that followed it.
+   *
+   * @remarks
+   * This method will wait for the previous message to be processed. The
+   * turns before the edited one, including the thought signatures of the
+   * model's answers, are kept as they are. If the request fails, the history
+   * is left unchanged.
+   *
+   * @param index - The index of the turn to edit, counting from 0. See
+   *     {@link Chat#rewind} for what makes a turn.
+   * @param message - The new user message.
+   * @param config - The config of the request, overriding the config of the
+   *     chat session.
+   * @return The model's response to the new message.
+   * @throws Error if the turn does not exist or does not start with a user
+   *     message.
+   *
+   * @example
+   * ```ts
+   * await chat.sendMessage({message: 'Name a red fruit.'});
+   * await chat.sendMessage({message: 'And a yellow one?'});
+   * const response = await chat.editTurn(1, 'And a green one?');
+   * ```
+   */
+  async editTurn(
+    index: number,
+    message: types.PartListUnion,
+    config?: types.GenerateContentConfig,
+  ): Promise<types.GenerateContentResponse> {
+    return this.enqueue(async () => {
+      const turns = splitTurns(this.history);
+      if (!Number.isInteger(index) || index < 0 || index >= turns.length) {
+        throw new Error(
+          `Turn ${index} does not exist, the chat history has ${turns.length} turns.`,
+        );
+      }
+      if (turns[index][0].role !== 'user') {
+        throw new Error(`Turn ${index} does not start with a user message.`);
+      }
+      return this.resendTurn(index, message, config);
+    });
+  }
+
+  /**
+   * Ends the chat session by deleting its cached content, if context caching
+   * is enabled.
+   *
+   * @remarks
+   * This method will wait for the previous message to be processed. Messages
+   * sent afterwards are sent without a cached content.
+   */
+  async close(): Promise<void> {
+    return this.enqueue(async () => {
+      await this.contextCache?.close();
+    });
+  }
+
+  /** Sends a message without waiting for the previous one. */
+  private async send(
+    params: types.SendMessageParameters,
+  ): Promise<types.GenerateContentResponse> {
+    const inputContent = t.tContent(params.message);
+    const sentHistory = await this.selectHistory(inputContent);
+    const request = await this.buildRequest(
+      sentHistory.concat(inputContent),
+      params.config ?? this.config,
+    );
+    let response: types.GenerateContentResponse;
+    try {
+      response = await this.modelsModule.generateContent(request);
+    } catch (e) {
+      this.contextCache?.handleError(request, e);
+      throw e;
+    }
+    const outputContent = response.candidates?.[0]?.content;
+
+    // Because the AFC input contains the sent chat history in addition to
+    // the new user input, we need to truncate the AFC history to
+    // deduplicate the existing chat history.
+    const fullAutomaticFunctionCallingHistory =
+      response.automaticFunctionCallingHistory;
+    const index = t.tContents(request.contents).length - 1;
+
+    let automaticFunctionCallingHistory: types.Content[] = [];
+    if (fullAutomaticFunctionCallingHistory != null) {
+      automaticFunctionCallingHistory =
+        fullAutomaticFunctionCallingHistory.slice(index) ?? [];
+    }
+
+    const modelOutput = outputContent ? [outputContent] : [];
+    this.recordHistory(
+      inputContent,
+      modelOutput,
+      automaticFunctionCallingHistory,
+    );
+    return response;
+  }
+
+  /**
+   * Drops the turns from `index` on and sends the message, restoring the
+   * history if the request fails.
+   */
+  private async resendTurn(
+    index: number,
+    message: types.PartListUnion,
+    config?: types.GenerateContentConfig,
+  ): Promise<types.GenerateContentResponse> {
+    const previousHistory = this.history;
+    this.history = splitTurns(this.history).slice(0, index).flat();
+    try {
+      return await this.send({message, config});
+    } catch (e) {
+      this.history = previousHistory;
+      throw e;
+    }
+  }
+
+  /**
+   * Runs a task once the previous one has finished, successfully or not, and
+   * makes the next task wait for this one.
+   */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.sendPromise.then(task);
+    this.sendPromise = result.then(
+      () => undefined,
+      () => undefined,
+    );
+    return result;
+  }
+
+  /**
+   * Returns the request for the contents, with its stable prefix replaced by
+   * the cached content if context caching is enabled.
+   */
+  private async buildRequest(
+    contents: types.Content[],
+    config: types.GenerateContentConfig,
+  ): Promise<types.GenerateContentParameters> {
+    const request = {model: this.model, contents, config};
+    return this.contextCache ? this.contextCache.prepare(request) : request;
+  }
+
+  /**
+   * Returns the part of the curated history to send with a message, as
+   * selected by the history strategy.
+   */
+  private async selectHistory(
+    message: types.Content,
+  ): Promise<types.Content[]> {
+    const history = this.getHistory(true);
+    if (!this.historyStrategy) {
+      return history;
+    }
+    return this.historyStrategy.selectHistory(history, {
+      model: this.model,
+      message,
+      generateContent: (params) => this.modelsModule.generateContent(params),
+      countTokens: (params) => this.modelsModule.countTokens(params),
+    });
+  }
+
   private async *processStreamResponse(
     streamResponse: AsyncGenerator<types.GenerateContentResponse>,
     inputContent: types.Content,
   ) {
     const outputContent: types.Content[] = [];
+    // Calls whose arguments are streamed are only recorded once complete.
+    const assembler = new FunctionCallAssembler();
     for await (const chunk of streamResponse) {
       if (isValidResponse(chunk)) {
         const content = chunk.candidates?.[0]?.content;
-        if (content !== undefined) {
-          outputContent.push(content);
+        const assembled = content && assembleFunctionCalls(content, assembler);
+        if (assembled) {
+          outputContent.push(assembled);
         }
       }
       yield chunk;
@@ -6,8 +6,8 @@
 
 import {GoogleAuthOptions} from 'google-auth-library';
 
-import {ApiClient} from './_api_client.js';
-import {Batches} from './batches.js';
+import {ApiClient, ClientHttpOptions} from './_api_client.js';
+import {BatchJobs} from './batch_jobs.js';
 import {Caches} from './caches.js';
 import {Chats} from './chats.js';
 import {CrossDownloader} from './cross/_cross_downloader.js';
@@ -32,12 +32,13 @@ import {
   GeminiNextGenWebhooks,
 } from './gaos/google-genai.js';
 import type {GoogleGenAI as GeminiNextGenAPI} from './gaos/sdk/sdk.js';
+import {FetchFunction, HttpInterceptor} from './interceptors.js';
 import {Live} from './live.js';
 import {Models} from './models.js';
 import {Operations} from './operations.js';
+import {RateLimitOptions} from './rate_limiter.js';
 import {Tokens} from './tokens.js';
 import {Tunings} from './tunings.js';
-import {HttpOptions} from './types.js';
 import {WebAuth} from './web/_web_auth.js';
 
 const LANGUAGE_LABEL_PREFIX = 'gl-node/';
@@ -117,7 +118,39 @@ export interface GoogleGenAIOptions {
   /**
    * Optional. A set of customizable configuration for HTTP requests.
    */
-  httpOptions?: HttpOptions;
+  httpOptions?: ClientHttpOptions;
+  /**
+   * Optional. Interceptors applied to every HTTP request sent by the client.
+   *
+   * @remarks
+   * Interceptors can add headers (e.g. for tracing), redact or rewrite
+   * requests and responses, or record metrics. They apply to all the
+   * modules backed by the Gemini API or Vertex AI REST endpoints, including
+   * streamed responses. They do not apply to the Live API websocket
+   * connection. See {@link HttpInterceptor} for details.
+   */
+  interceptors?: HttpInterceptor[];
+  /**
+   * Optional. The `fetch` implementation used to send HTTP requests.
+   *
+   * @remarks
+   * Defaults to the global `fetch`. It is used by all the modules, including
+   * file uploads and downloads and the Interactions API, so that requests can
+   * be routed through a custom transport (e.g. an undici dispatcher or a proxy
+   * agent) without patching globals.
+   */
+  fetch?: FetchFunction;
+  /**
+   * Optional. Limits the rate and concurrency of requests sent by the client.
+   *
+   * @remarks
+   * Requests are delayed, rather than rejected, to stay within the given
+   * requests per minute, tokens per minute and number of concurrent requests.
+   * The limits apply to all the modules backed by the Gemini API or Vertex AI
+   * REST endpoints, per model by default. See {@link RateLimitOptions} for
+   * details.
+   */
+  rateLimit?: RateLimitOptions;
 }
 
 /**
@@ -156,10 +189,10 @@ export class GoogleGenAI {
   private readonly apiKey?: string;
   public readonly vertexai: boolean;
   private readonly apiVersion?: string;
-  private readonly httpOptions?: HttpOptions;
+  private readonly httpOptions?: ClientHttpOptions;
   readonly models: Models;
   readonly live: Live;
-  readonly batches: Batches;
+  readonly batches: BatchJobs;
   readonly chats: Chats;
   readonly caches: Caches;
   readonly files: Files;
@@ -275,13 +308,16 @@ export class GoogleGenAI {
       vertexai: this.vertexai,
       httpOptions: this.httpOptions,
       userAgentExtra: LANGUAGE_LABEL_PREFIX + 'cross',
+      interceptors: options.interceptors,
+      fetch: options.fetch,
+      rateLimit: options.rateLimit,
       uploader: new CrossUploader(),
       downloader: new CrossDownloader(),
     });
     this.models = new Models(this.apiClient);
     this.live = new Live(this.apiClient, auth, new CrossWebSocketFactory());
     this.chats = new Chats(this.models, this.apiClient);
-    this.batches = new Batches(this.apiClient);
+    this.batches = new BatchJobs(this.apiClient);
     this.caches = new Caches(this.apiClient);
     this.files = new Files(this.apiClient);
     this.operations = new Operations(this.apiClient);
@@ -0,0 +1,419 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {hasCallableTools} from './_afc.js';
+import * as t from './_transformers.js';
+import {Caches} from './caches.js';
+import {NotFoundError, PermissionDeniedError} from './errors.js';
+import {Models} from './models.js';
+import {GenerateContentStream} from './response_stream.js';
+import * as types from './types.js';
+
+const DEFAULT_TTL = '300s';
+
+/** Config for automatic context caching with a {@link ContextCache}. */
+export interface ContextCacheConfig {
+  /**
+   * The minimum number of tokens of the prefix to cache, below which requests
+   * are sent as they are. If not specified, default to 4096 for Pro models
+   * and 1024 for other models, the minimum the API accepts.
+   */
+  minTokens?: number;
+  /**
+   * The TTL of the cached content, as a duration string such as "300s". The
+   * TTL is extended while the cached content is used. If not specified,
+   * default to "300s".
+   */
+  ttl?: string;
+  /**
+   * Counts the tokens of a list of contents, for example with the
+   * `LocalTokenizer`. If not specified, `Models.countTokens` is called.
+   */
+  countTokens?: (contents: types.Content[]) => Promise<number>;
+  /**
+   * Called when the tokens cannot be counted or a cached content cannot be
+   * created, updated or deleted. The request is then sent without the
+   * cached content.
+   */
+  onError?: (error: unknown) => void;
+}
+
+interface CacheEntry {
+  name: string;
+  // The model, system instruction, tools and tool config of the cache.
+  key: string;
+  // The cached contents, as JSON strings.
+  contents: string[];
+  tokens: number;
+  expiresAt: number;
+}
+
+/**
+ * Moves the stable prefix of `generateContent` requests into a cached
+ * content, and keeps it alive while it is used.
+ *
+ * @remarks
+ * The prefix is the system instruction, the tools, the tool config and all
+ * contents but the last one. Once it has at least `minTokens` tokens, it is
+ * cached and the following requests that start with it only send the rest,
+ * with `cachedContent` set. When enough new contents have been added after
+ * the cached prefix, a larger cached content replaces it. A cached content
+ * that cannot be refreshed, or is no longer found, is not used again.
+ *
+ * Requests that set `cachedContent` themselves or use `CallableTool`s are
+ * sent as they are.
+ *
+ * @example
+ * ```ts
+ * const cache = new ContextCache(ai.models, ai.caches, {ttl: '600s'});
+ * for (const question of questions) {
+ *   const response = await cache.generateContent({
+ *     model: 'gemini-2.5-flash',
+ *     contents: [largeDocument, question],
+ *   });
+ * }
+ * await cache.close();
+ * ```
+ */
+export class ContextCache {
+  private entry: CacheEntry | undefined;
+  private readonly tokenCounts = new Map<string, number>();
+  private readonly ttlMs: number;
+  private pending: Promise<unknown> = Promise.resolve();
+  private closed = false;
+
+  constructor(
+    private readonly models: Models,
+    private readonly caches: Caches,
+    private readonly config: ContextCacheConfig = {},
+  ) {
+    this.ttlMs = parseTtl(config.ttl ?? DEFAULT_TTL);
+  }
+
+  /** The name of the cached content in use, if any. */
+  get cachedContent(): string | undefined {
+    return this.entry?.name;
+  }
+
+  /**
+   * Generates content, sending the cached prefix by reference.
+   *
+   * @see {@link Models#generateContent}
+   */
+  async generateContent(
+    params: types.GenerateContentParameters,
+  ): Promise<types.GenerateContentResponse> {
+    const request = await this.prepare(params);
+    try {
+      return await this.models.generateContent(request);
+    } catch (e) {
+      this.handleError(request, e);
+      throw e;
+    }
+  }
+
+  /**
+   * Generates content in a stream, sending the cached prefix by reference.
+   *
+   * @see {@link Models#generateContentStream}
+   */
+  async generateContentStream(
+    params: types.GenerateContentParameters,
+  ): Promise<GenerateContentStream> {
+    const request = await this.prepare(params);
+    try {
+      return await this.models.generateContentStream(request);
+    } catch (e) {
+      this.handleError(request, e);
+      throw e;
+    }
+  }
+
+  /**
+   * Returns the parameters to send instead of `params`: with the cached
+   * prefix replaced by `cachedContent`, creating or refreshing the cached
+   * content as needed.
+   */
+  prepare(
+    params: types.GenerateContentParameters,
+  ): Promise<types.GenerateContentParameters> {
+    // Requests are prepared one at a time, so that they share a cache.
+    const result = this.pending.then(() => this.prepareRequest(params));
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Stops using the cached content of `request` if the request failed
+   * because the cached content no longer exists, so that the next request
+   * creates a new one or is sent without a cache.
+   *
+   * @param request The request returned by {@link ContextCache#prepare}.
+   * @param error The error the request failed with.
+   */
+  handleError(request: types.GenerateContentParameters, error: unknown) {
+    // The API answers 403 rather than 404 for some missing cached contents.
+    if (
+      this.entry !== undefined &&
+      request.config?.cachedContent === this.entry.name &&
+      (error instanceof NotFoundError || error instanceof PermissionDeniedError)
+    ) {
+      this.entry = undefined;
+    }
+  }
+
+  /**
+   * Deletes the cached content. Later requests are sent without a cache.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    await this.pending;
+    const entry = this.entry;
+    this.entry = undefined;
+    if (entry) {
+      await this.deleteEntry(entry);
+    }
+  }
+
+  private async prepareRequest(
+    params: types.GenerateContentParameters,
+  ): Promise<types.GenerateContentParameters> {
+    const config = params.config ?? {};
+    if (this.closed || config.cachedContent || hasCallableTools(params)) {
+      return params;
+    }
+    const contents = t.tContents(params.contents);
+    const prefix = contents.slice(0, -1);
+    const key = JSON.stringify({
+      model: params.model,
+      systemInstruction: config.systemInstruction,
+      tools: config.tools,
+      toolConfig: config.toolConfig,
+    });
+
+    let entry = this.entry;
+    if (entry && !this.matches(entry, key, prefix)) {
+      this.entry = undefined;
+      if (entry.expiresAt > Date.now()) {
+        await this.deleteEntry(entry);
+      }
+      entry = undefined;
+    }
+    if (!entry) {
+      const tokens = await this.tryCount(() =>
+        this.countPrefix(params.model, config, prefix),
+      );
+      if (tokens === undefined) {
+        return params;
+      }
+      if (tokens >= this.minTokens(params.model)) {
+        entry = await this.createEntry(params.model, key, config, prefix);
+      }
+    } else if (prefix.length > entry.contents.length) {
+      // Cache the new contents once they are at least as large as the
+      // cached ones, so that the cost of creating caches stays linear.
+      const added = prefix.slice(entry.contents.length);
+      const tokens = await this.tryCount(() =>
+        this.countContents(params.model, added),
+      );
+      if (tokens === undefined) {
+        return params;
+      }
+      if (tokens >= Math.max(this.minTokens(params.model), entry.tokens)) {
+        const larger = await this.createEntry(
+          params.model,
+          key,
+          config,
+          prefix,
+        );
+        if (larger) {
+          await this.deleteEntry(entry);
+          entry = larger;
+        }
+      }
+    }
+    if (
+      entry &&
+      entry.expiresAt - Date.now() < this.ttlMs / 2 &&
+      !(await this.refreshEntry(entry))
+    ) {
+      // The cached content may have expired, send the request in full and
+      // create a new one next time.
+      entry = undefined;
+    }
+    this.entry = entry;
+    if (!entry) {
+      return params;
+    }
+
+    const cachedConfig: types.GenerateContentConfig = {
+      ...config,
+      cachedContent: entry.name,
+    };
+    delete cachedConfig.systemInstruction;
+    delete cachedConfig.tools;
+    delete cachedConfig.toolConfig;
+    return {
+      ...params,
+      contents: contents.slice(entry.contents.length),
+      config: cachedConfig,
+    };
+  }
+
+  private matches(
+    entry: CacheEntry,
+    key: string,
+    prefix: types.Content[],
+  ): boolean {
+    return (
+      entry.key === key &&
+      entry.expiresAt > Date.now() &&
+      entry.contents.length <= prefix.length &&
+      entry.contents.every(
+        (content, i) => content === JSON.stringify(prefix[i]),
+      )
+    );
+  }
+
+  private minTokens(model: string): number {
+    return this.config.minTokens ?? (model.includes('pro') ? 4096 : 1024);
+  }
+
+  /**
+   * Returns the count, or undefined if counting failed, in which case the
+   * request is sent without a cache.
+   */
+  private async tryCount(
+    count: () => Promise<number>,
+  ): Promise<number | undefined> {
+    try {
+      return await count();
+    } catch (e) {
+      this.config.onError?.(e);
+      return undefined;
+    }
+  }
+
+  private async countPrefix(
+    model: string,
+    config: types.GenerateContentConfig,
+    prefix: types.Content[],
+  ): Promise<number> {
+    let tokens = await this.countContents(model, prefix);
+    if (config.systemInstruction) {
+      tokens += await this.countContents(model, [
+        t.tContent(config.systemInstruction),
+      ]);
+    }
+    if (config.tools || config.toolConfig) {
+      // Tools cannot be counted on their own, estimate one token per four
+      // characters.
+      tokens += Math.ceil(
+        JSON.stringify([config.tools, config.toolConfig]).length / 4,
+      );
+    }
+    return tokens;
+  }
+
+  private async countContents(
+    model: string,
+    contents: types.Content[],
+  ): Promise<number> {
+    let tokens = 0;
+    // Counts are cached per content, so each content is only counted once.
+    for (const content of contents) {
+      const key = JSON.stringify(content);
+      let count = this.tokenCounts.get(key);
+      if (count === undefined) {
+        count = this.config.countTokens
+          ? await this.config.countTokens([content])
+          : ((
+              await this.models.countTokens({
+                model,
+                contents: [content],
+              })
+            ).totalTokens ?? 0);
+        this.tokenCounts.set(key, count);
+      }
+      tokens += count;
+    }
+    return tokens;
+  }
+
+  private async createEntry(
+    model: string,
+    key: string,
+    config: types.GenerateContentConfig,
+    prefix: types.Content[],
+  ): Promise<CacheEntry | undefined> {
+    try {
+      const cached = await this.caches.create({
+        model,
+        config: {
+          contents: prefix.length > 0 ? prefix : undefined,
+          systemInstruction: config.systemInstruction,
+          tools: config.tools as types.Tool[] | undefined,
+          toolConfig: config.toolConfig,
+          ttl: this.config.ttl ?? DEFAULT_TTL,
+        },
+      });
+      if (!cached.name) {
+        throw new Error('The cached content has no name.');
+      }
+      return {
+        name: cached.name,
+        key,
+        contents: prefix.map((content) => JSON.stringify(content)),
+        tokens:
+          cached.usageMetadata?.totalTokenCount ??
+          (await this.countContents(model, prefix)),
+        expiresAt: this.expiresAt(cached),
+      };
+    } catch (e) {
+      this.config.onError?.(e);
+      return undefined;
+    }
+  }
+
+  /** Extends the TTL of the entry, returns whether it succeeded. */
+  private async refreshEntry(entry: CacheEntry): Promise<boolean> {
+    try {
+      const cached = await this.caches.update({
+        name: entry.name,
+        config: {ttl: this.config.ttl ?? DEFAULT_TTL},
+      });
+      entry.expiresAt = this.expiresAt(cached);
+      return true;
+    } catch (e) {
+      this.config.onError?.(e);
+      return false;
+    }
+  }
+
+  private async deleteEntry(entry: CacheEntry) {
+    try {
+      await this.caches.delete({name: entry.name});
+    } catch (e) {
+      this.config.onError?.(e);
+    }
+  }
+
+  private expiresAt(cached: types.CachedContent): number {
+    const expireTime = cached.expireTime ? Date.parse(cached.expireTime) : NaN;
+    return isNaN(expireTime) ? Date.now() + this.ttlMs : expireTime;
+  }
+}
+
+/** Parses a duration string such as "300s" into milliseconds. */
+function parseTtl(ttl: string): number {
+  const seconds = ttl.endsWith('s') ? Number(ttl.slice(0, -1)) : NaN;
+  if (isNaN(seconds) || seconds <= 0) {
+    throw new Error(
+      `The TTL must be a positive duration such as "300s", but got "${ttl}".`,
+    );
+  }
+  return seconds * 1000;
+}
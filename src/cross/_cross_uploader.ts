@@ -4,7 +4,13 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 import {ApiClient} from '../_api_client.js';
-import {FileStat, Uploader} from '../_uploader.js';
+import {
+  FileStat,
+  UploadOptions,
+  UploadStream,
+  Uploader,
+  isUploadStream,
+} from '../_uploader.js';
 import * as _converters from '../converters/_operations_converters.js';
 import {
   File,
@@ -19,35 +25,50 @@ export const MAX_RETRY_COUNT = 3;
 export const INITIAL_RETRY_DELAY_MS = 1000;
 export const DELAY_MULTIPLIER = 2;
 export const X_GOOG_UPLOAD_STATUS_HEADER_FIELD = 'x-goog-upload-status';
+export const X_GOOG_UPLOAD_SIZE_RECEIVED_HEADER_FIELD =
+  'x-goog-upload-size-received';
 
 export class CrossUploader implements Uploader {
   async upload(
-    file: string | Blob,
+    file: string | Blob | UploadStream,
     uploadUrl: string,
     apiClient: ApiClient,
     httpOptions?: HttpOptions,
+    options?: UploadOptions,
   ): Promise<File> {
     if (typeof file === 'string') {
       throw crossError();
+    } else if (isUploadStream(file)) {
+      return uploadStream(file, uploadUrl, apiClient, httpOptions, options);
     } else {
-      return uploadBlob(file, uploadUrl, apiClient, httpOptions);
+      return uploadBlob(file, uploadUrl, apiClient, httpOptions, options);
     }
   }
 
   async uploadToFileSearchStore(
-    file: string | Blob,
+    file: string | Blob | UploadStream,
     uploadUrl: string,
     apiClient: ApiClient,
     httpOptions?: HttpOptions,
+    options?: UploadOptions,
   ): Promise<UploadToFileSearchStoreOperation> {
     if (typeof file === 'string') {
       throw crossError();
+    } else if (isUploadStream(file)) {
+      return uploadStreamToFileSearchStore(
+        file,
+        uploadUrl,
+        apiClient,
+        httpOptions,
+        options,
+      );
     } else {
       return uploadBlobToFileSearchStore(
         file,
         uploadUrl,
         apiClient,
         httpOptions,
+        options,
       );
     }
   }
@@ -66,21 +87,16 @@ export async function uploadBlob(
   uploadUrl: string,
   apiClient: ApiClient,
   httpOptions?: HttpOptions,
+  options?: UploadOptions,
 ): Promise<File> {
   const response = await uploadBlobInternal(
     file,
     uploadUrl,
     apiClient,
     httpOptions,
+    options,
   );
-  const responseJson = (await response?.json()) as Record<
-    string,
-    File | unknown
-  >;
-  if (response?.headers?.[X_GOOG_UPLOAD_STATUS_HEADER_FIELD] !== 'final') {
-    throw new Error('Failed to upload file: Upload status is not finalized.');
-  }
-  return responseJson['file'] as File;
+  return fileFromResponse(response);
 }
 
 export async function uploadBlobToFileSearchStore(
@@ -88,13 +104,76 @@ export async function uploadBlobToFileSearchStore(
   uploadUrl: string,
   apiClient: ApiClient,
   httpOptions?: HttpOptions,
+  options?: UploadOptions,
 ): Promise<UploadToFileSearchStoreOperation> {
   const response = await uploadBlobInternal(
     file,
     uploadUrl,
     apiClient,
     httpOptions,
+    options,
+  );
+  return operationFromResponse(response);
+}
+
+/**
+ * Uploads a file from a stream of its bytes, of the size in the options if
+ * known.
+ */
+export async function uploadStream(
+  file: UploadStream,
+  uploadUrl: string,
+  apiClient: ApiClient,
+  httpOptions?: HttpOptions,
+  options?: UploadOptions,
+): Promise<File> {
+  const response = await uploadChunks(
+    options?.sizeBytes,
+    streamChunkReader(file),
+    uploadUrl,
+    apiClient,
+    httpOptions,
+    options,
+  );
+  return fileFromResponse(response);
+}
+
+/**
+ * Uploads a file to a file search store from a stream of its bytes, of the
+ * size in the options if known.
+ */
+export async function uploadStreamToFileSearchStore(
+  file: UploadStream,
+  uploadUrl: string,
+  apiClient: ApiClient,
+  httpOptions?: HttpOptions,
+  options?: UploadOptions,
+): Promise<UploadToFileSearchStoreOperation> {
+  const response = await uploadChunks(
+    options?.sizeBytes,
+    streamChunkReader(file),
+    uploadUrl,
+    apiClient,
+    httpOptions,
+    options,
   );
+  return operationFromResponse(response);
+}
+
+async function fileFromResponse(response: HttpResponse): Promise<File> {
+  const responseJson = (await response?.json()) as Record<
+    string,
+    File | unknown
+  >;
+  if (response?.headers?.[X_GOOG_UPLOAD_STATUS_HEADER_FIELD] !== 'final') {
+    throw new Error('Failed to upload file: Upload status is not finalized.');
+  }
+  return responseJson['file'] as File;
+}
+
+async function operationFromResponse(
+  response: HttpResponse,
+): Promise<UploadToFileSearchStoreOperation> {
   const responseJson =
     (await response?.json()) as UploadToFileSearchStoreOperation;
   if (response?.headers?.[X_GOOG_UPLOAD_STATUS_HEADER_FIELD] !== 'final') {
@@ -107,35 +186,167 @@ export async function uploadBlobToFileSearchStore(
   return typedResp;
 }
 
+/**
+ * Reads the chunks of a stream in order, skipping the bytes before the offset
+ * of the first chunk read, as when an upload is resumed.
+ */
+function streamChunkReader(
+  stream: UploadStream,
+): (offset: number, size: number) => Promise<Blob> {
+  const iterator = readStream(stream);
+  let buffered = new Uint8Array(0);
+  // The offset in the file of the first buffered byte.
+  let position = 0;
+  let done = false;
+  return async (offset, size) => {
+    const parts = [buffered];
+    let bufferedSize = buffered.byteLength;
+    while (!done && position + bufferedSize < offset + size) {
+      const result = await iterator.next();
+      if (result.done) {
+        done = true;
+      } else {
+        parts.push(result.value);
+        bufferedSize += result.value.byteLength;
+      }
+    }
+    const bytes = concatBytes(parts, bufferedSize);
+    const start = Math.min(offset - position, bytes.byteLength);
+    const end = Math.min(start + size, bytes.byteLength);
+    buffered = bytes.subarray(end);
+    position += end;
+    return new Blob([bytes.subarray(start, end)]);
+  };
+}
+
+async function* readStream(stream: UploadStream): AsyncGenerator<Uint8Array> {
+  if ('getReader' in stream) {
+    const reader = stream.getReader();
+    try {
+      for (;;) {
+        const {done, value} = await reader.read();
+        if (done) {
+          return;
+        }
+        yield value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+  yield* stream;
+}
+
+function concatBytes(parts: Uint8Array[], size: number): Uint8Array {
+  if (parts.length === 1) {
+    return parts[0];
+  }
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.byteLength;
+  }
+  return bytes;
+}
+
 async function uploadBlobInternal(
   file: Blob,
   uploadUrl: string,
   apiClient: ApiClient,
   httpOptions?: HttpOptions,
+  options?: UploadOptions,
 ): Promise<HttpResponse> {
-  let finalUrl = uploadUrl;
-  const effectiveBaseUrl =
-    httpOptions?.baseUrl || apiClient.clientOptions.httpOptions?.baseUrl;
-  if (effectiveBaseUrl) {
-    const baseUri = new URL(effectiveBaseUrl);
-    const uploadUri = new URL(uploadUrl);
-    uploadUri.protocol = baseUri.protocol;
-    uploadUri.host = baseUri.host;
-    uploadUri.port = baseUri.port;
-    finalUrl = uploadUri.toString();
-  }
+  return uploadChunks(
+    file.size,
+    async (offset, size) => file.slice(offset, offset + size),
+    uploadUrl,
+    apiClient,
+    httpOptions,
+    options,
+  );
+}
 
-  let fileSize = 0;
+/**
+ * Uploads a file in chunks of `MAX_CHUNK_SIZE` bytes to a resumable upload
+ * URL.
+ *
+ * @param fileSize The size of the file in bytes. If undefined, chunks are
+ *     uploaded until a chunk is shorter than requested, which is the last.
+ * @param readChunk Reads the chunk of the file of the given size at the given
+ *     offset, or the bytes left if fewer.
+ * @param uploadUrl The upload URL returned when the upload was started.
+ * @param apiClient The ApiClient to use for uploading.
+ * @param httpOptions Optional HTTP options to merge.
+ * @param options Optional options to resume the upload and report its
+ *     progress.
+ * @return The response to the last chunk, or to the query of a resumed
+ *     upload that the server had already finalized.
+ */
+export async function uploadChunks(
+  fileSize: number | undefined,
+  readChunk: (offset: number, size: number) => Promise<Blob>,
+  uploadUrl: string,
+  apiClient: ApiClient,
+  httpOptions?: HttpOptions,
+  options?: UploadOptions,
+): Promise<HttpResponse> {
+  const finalUrl = rewriteUploadUrl(uploadUrl, apiClient, httpOptions);
   let offset = 0;
   let response: HttpResponse = new HttpResponse(new Response());
-  let uploadCommand = 'upload';
-  fileSize = file.size;
-  while (offset < fileSize) {
-    const chunkSize = Math.min(MAX_CHUNK_SIZE, fileSize - offset);
-    const chunk = file.slice(offset, offset + chunkSize);
-    if (offset + chunkSize >= fileSize) {
-      uploadCommand += ', finalize';
+  if (options?.resume) {
+    response = await queryUpload(
+      finalUrl,
+      apiClient,
+      httpOptions,
+      options.abortSignal,
+    );
+    const status = response.headers?.[X_GOOG_UPLOAD_STATUS_HEADER_FIELD];
+    if (status === 'final') {
+      return response;
+    }
+    if (status !== 'active') {
+      throw new Error(
+        `Failed to resume upload: Upload status is ${status ?? 'unknown'}.`,
+      );
+    }
+    offset = Number(
+      response.headers?.[X_GOOG_UPLOAD_SIZE_RECEIVED_HEADER_FIELD] ?? 0,
+    );
+    if (fileSize !== undefined && offset > fileSize) {
+      throw new Error(
+        `Failed to resume upload: The server has received ${offset} bytes, but the file has ${fileSize} bytes.`,
+      );
     }
+  } else if (fileSize === 0) {
+    return response;
+  }
+  // Reports the upload URL before the first chunk, so that an upload
+  // interrupted during it can be resumed.
+  options?.onProgress?.({
+    uploadUrl,
+    bytesUploaded: offset,
+    totalBytes: fileSize,
+  });
+
+  for (;;) {
+    const chunkSize =
+      fileSize === undefined
+        ? MAX_CHUNK_SIZE
+        : Math.min(MAX_CHUNK_SIZE, fileSize - offset);
+    const chunk = await readChunk(offset, chunkSize);
+    if (fileSize !== undefined && chunk.size !== chunkSize) {
+      throw new Error(
+        `Failed to read ${chunkSize} bytes from file at offset ${
+          offset
+        }. bytes actually read: ${chunk.size}`,
+      );
+    }
+    const isLastChunk =
+      fileSize === undefined
+        ? chunk.size < chunkSize
+        : offset + chunkSize >= fileSize;
+    const uploadCommand = isLastChunk ? 'upload, finalize' : 'upload';
     let retryCount = 0;
     let currentDelayMs = INITIAL_RETRY_DELAY_MS;
     while (retryCount < MAX_RETRY_COUNT) {
@@ -143,7 +354,7 @@ async function uploadBlobInternal(
         ...(httpOptions?.headers || {}),
         'X-Goog-Upload-Command': uploadCommand,
         'X-Goog-Upload-Offset': String(offset),
-        'Content-Length': String(chunkSize),
+        'Content-Length': String(chunk.size),
       };
 
       response = await apiClient.request({
@@ -156,6 +367,7 @@ async function uploadBlobInternal(
           baseUrl: finalUrl,
           headers: mergedHeaders,
         },
+        abortSignal: options?.abortSignal,
       });
       if (response?.headers?.[X_GOOG_UPLOAD_STATUS_HEADER_FIELD]) {
         break;
@@ -164,15 +376,23 @@ async function uploadBlobInternal(
       await sleep(currentDelayMs);
       currentDelayMs = currentDelayMs * DELAY_MULTIPLIER;
     }
-    offset += chunkSize;
+    offset += chunk.size;
     // The `x-goog-upload-status` header field can be `active`, `final` and
     //`cancelled` in resposne.
-    if (response?.headers?.[X_GOOG_UPLOAD_STATUS_HEADER_FIELD] !== 'active') {
+    const status = response?.headers?.[X_GOOG_UPLOAD_STATUS_HEADER_FIELD];
+    if (status === 'active' || status === 'final') {
+      options?.onProgress?.({
+        uploadUrl,
+        bytesUploaded: offset,
+        totalBytes: fileSize,
+      });
+    }
+    if (status !== 'active') {
       break;
     }
     // TODO(b/401391430) Investigate why the upload status is not finalized
     // even though all content has been uploaded.
-    if (fileSize <= offset) {
+    if (isLastChunk) {
       throw new Error(
         'All content has been uploaded, but the upload status is not finalized.',
       );
@@ -182,6 +402,55 @@ async function uploadBlobInternal(
   return response;
 }
 
+/**
+ * Queries the status of a resumable upload and the number of bytes the
+ * server has received, in the `x-goog-upload-status` and
+ * `x-goog-upload-size-received` headers of the response.
+ */
+export async function queryUpload(
+  uploadUrl: string,
+  apiClient: ApiClient,
+  httpOptions?: HttpOptions,
+  abortSignal?: AbortSignal,
+): Promise<HttpResponse> {
+  return apiClient.request({
+    path: '',
+    httpMethod: 'POST',
+    httpOptions: {
+      ...httpOptions,
+      apiVersion: '',
+      baseUrl: uploadUrl,
+      headers: {
+        ...(httpOptions?.headers || {}),
+        'X-Goog-Upload-Command': 'query',
+      },
+    },
+    abortSignal,
+  });
+}
+
+/**
+ * Points the upload URL at the base URL of the HTTP options or the client,
+ * if any.
+ */
+function rewriteUploadUrl(
+  uploadUrl: string,
+  apiClient: ApiClient,
+  httpOptions?: HttpOptions,
+): string {
+  const effectiveBaseUrl =
+    httpOptions?.baseUrl || apiClient.clientOptions.httpOptions?.baseUrl;
+  if (!effectiveBaseUrl) {
+    return uploadUrl;
+  }
+  const baseUri = new URL(effectiveBaseUrl);
+  const uploadUri = new URL(uploadUrl);
+  uploadUri.protocol = baseUri.protocol;
+  uploadUri.host = baseUri.host;
+  uploadUri.port = baseUri.port;
+  return uploadUri.toString();
+}
+
 export async function getBlobStat(file: Blob): Promise<FileStat> {
   const fileStat: FileStat = {size: file.size, type: file.type};
   return fileStat;
@@ -9,6 +9,7 @@ import {
   ContentListUnion,
   CountTokensConfig,
   CountTokensResult,
+  ModalityTokenCount,
 } from '../../types.js';
 
 /**
@@ -79,6 +80,18 @@ export interface TokenizerConfig {
   modelHash: string;
 }
 
+/**
+ * Local tokenizer count tokens result, with the tokens of each modality.
+ */
+export interface LocalCountTokensResult extends CountTokensResult {
+  /**
+   * The number of tokens of each modality. The tokens of images, audio,
+   * video and documents are estimated from their size, duration or page
+   * count.
+   */
+  promptTokensDetails?: ModalityTokenCount[];
+}
+
 /**
  * Interface for local tokenizer implementation.
  */
@@ -88,12 +101,13 @@ export interface ILocalTokenizer {
    *
    * @param contents The contents to tokenize
    * @param config Optional configuration for counting tokens
-   * @return A CountTokensResult containing the total number of tokens
+   * @return A LocalCountTokensResult containing the total number of tokens
+   *     and the tokens of each modality
    */
   countTokens(
     contents: ContentListUnion,
     config?: CountTokensConfig,
-  ): Promise<CountTokensResult>;
+  ): Promise<LocalCountTokensResult>;
 
   /**
    * Computes detailed token information for the given content.
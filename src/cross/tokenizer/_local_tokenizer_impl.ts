@@ -15,16 +15,22 @@
  */
 
 import {tContent, tContents} from '../../_transformers.js';
-import type {
+import {
   ComputeTokensResult,
   ContentListUnion,
   CountTokensConfig,
-  CountTokensResult,
+  MediaModality,
+  ModalityTokenCount,
   TokensInfo,
 } from '../../types.js';
 import {SentencePieceProcessor} from '../sentencepiece/_processor.js';
-import {ILocalTokenizer, TokenizerPlatform} from './_interfaces.js';
+import {
+  ILocalTokenizer,
+  LocalCountTokensResult,
+  TokenizerPlatform,
+} from './_interfaces.js';
 import {getTokenizerName, loadModelProtoBytes} from './_loader.js';
+import {estimateMediaTokens} from './_media_estimator.js';
 import {TextsAccumulator} from './_texts_accumulator.js';
 
 type SentencePieceProcessorConstructor = new (
@@ -32,10 +38,14 @@ type SentencePieceProcessorConstructor = new (
 ) => SentencePieceProcessor;
 
 /**
- * LocalTokenizer provides text-only local tokenization for Gemini models.
+ * LocalTokenizer provides local tokenization for Gemini models.
+ *
+ * Text is tokenized exactly. The tokens of images, audio, video and PDF
+ * documents are estimated from their size, duration or page count by
+ * `countTokens`, see `_media_estimator.ts`.
  *
  * LIMITATIONS:
- * - Only supports text-based tokenization (no multimodal)
+ * - Media tokens are estimates, and `computeTokens` only supports text
  * - Forward compatibility depends on open-source tokenizer models
  * - For tools/schemas, only supports types.Tool and types.Schema objects
  *   (Python functions or Pydantic models cannot be passed directly)
@@ -80,7 +90,10 @@ export class LocalTokenizer implements ILocalTokenizer {
    *
    * @param contents The contents to tokenize
    * @param config Optional configuration for counting tokens
-   * @return A CountTokensResult containing the total number of tokens
+   * @return A LocalCountTokensResult containing the total number of tokens
+   *     and the tokens of each modality, estimated for media
+   * @throws Error if the tokens of a media part cannot be estimated, for
+   *     example audio or video of unknown duration
    *
    * @example
    * ```typescript
@@ -92,7 +105,7 @@ export class LocalTokenizer implements ILocalTokenizer {
   async countTokens(
     contents: ContentListUnion,
     config?: CountTokensConfig,
-  ): Promise<CountTokensResult> {
+  ): Promise<LocalCountTokensResult> {
     await this.ensureProcessor();
 
     const processedContents = tContents(contents);
@@ -114,15 +127,41 @@ export class LocalTokenizer implements ILocalTokenizer {
     }
 
     const texts = textAccumulator.getTexts();
-    let totalTokens = 0;
+    let textTokens = 0;
 
     for (const text of texts) {
       const tokens = this.processor!.encode(text);
-      totalTokens += tokens.length;
+      textTokens += tokens.length;
+    }
+
+    const tokensByModality = new Map<MediaModality, number>([
+      [MediaModality.TEXT, textTokens],
+    ]);
+    for (const part of textAccumulator.getMediaParts()) {
+      const estimates = estimateMediaTokens(
+        part,
+        config?.generationConfig?.mediaResolution,
+      );
+      for (const {modality, tokenCount} of estimates) {
+        tokensByModality.set(
+          modality!,
+          (tokensByModality.get(modality!) ?? 0) + (tokenCount ?? 0),
+        );
+      }
+    }
+
+    const promptTokensDetails: ModalityTokenCount[] = [];
+    let totalTokens = 0;
+    for (const [modality, tokenCount] of tokensByModality) {
+      if (tokenCount > 0 || modality === MediaModality.TEXT) {
+        promptTokensDetails.push({modality, tokenCount});
+      }
+      totalTokens += tokenCount;
     }
 
     return {
       totalTokens,
+      promptTokensDetails,
     };
   }
 
@@ -152,6 +191,11 @@ export class LocalTokenizer implements ILocalTokenizer {
     for (const content of processedContents) {
       const textAccumulator = new TextsAccumulator();
       textAccumulator.addContent(content);
+      if (textAccumulator.getMediaParts().length > 0) {
+        throw new Error(
+          'LocalTokenizers do not support non-text content types. Use countTokens to estimate the tokens of media.',
+        );
+      }
 
       const texts = textAccumulator.getTexts();
 
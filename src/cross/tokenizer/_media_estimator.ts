@@ -0,0 +1,320 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Estimates the tokens of images, audio, video and PDF documents without
+ * calling the API.
+ *
+ * The estimates follow the documented token costs of Gemini models:
+ *
+ * - Images: 258 tokens when both dimensions are at most 384 pixels, otherwise
+ *   258 tokens per 768x768 tile. With a media resolution, a fixed number of
+ *   tokens per image instead: 64 for a low and 256 for a medium or high
+ *   `GenerationConfig.mediaResolution`; 280, 560, 1120 and 2240 for a low,
+ *   medium, high and ultra high `Part.mediaResolution`.
+ * - Audio: 32 tokens per second.
+ * - Video: the frames sampled at `videoMetadata.fps` (1 per second by
+ *   default) at 258 tokens per frame, plus the audio track at 32 tokens per
+ *   second. With a media resolution, 66 tokens per frame for a low
+ *   `GenerationConfig.mediaResolution`; 70 for a low or medium and 280 for a
+ *   high or ultra high `Part.mediaResolution`.
+ * - PDF documents: 258 tokens per page. With a `Part.mediaResolution`, 280
+ *   tokens per page for a low, 560 for a medium and 1120 for a high or ultra
+ *   high resolution.
+ *
+ * `Part.mediaResolution.numTokens` overrides the tokens per image, frame or
+ * page.
+ *
+ * The image size is read from inline PNG, JPEG, GIF and WebP data, the audio
+ * duration from inline WAV data, and the PDF page count from inline PDF
+ * data. Audio and video durations are otherwise taken from
+ * `videoMetadata.startOffset` and `videoMetadata.endOffset`. Images of
+ * unknown size count as one tile.
+ */
+
+import {decodeBase64} from '../../_common.js';
+import {
+  MediaModality,
+  MediaResolution,
+  ModalityTokenCount,
+  Part,
+  PartMediaResolutionLevel,
+} from '../../types.js';
+
+const TOKENS_PER_TILE = 258;
+const TILE_SIZE = 768;
+const SMALL_IMAGE_SIZE = 384;
+const AUDIO_TOKENS_PER_SECOND = 32;
+const TOKENS_PER_FRAME = 258;
+const TOKENS_PER_PAGE = 258;
+
+const IMAGE_TOKENS_BY_LEVEL: Record<string, number> = {
+  [PartMediaResolutionLevel.MEDIA_RESOLUTION_LOW]: 280,
+  [PartMediaResolutionLevel.MEDIA_RESOLUTION_MEDIUM]: 560,
+  [PartMediaResolutionLevel.MEDIA_RESOLUTION_HIGH]: 1120,
+  [PartMediaResolutionLevel.MEDIA_RESOLUTION_ULTRA_HIGH]: 2240,
+};
+
+const FRAME_TOKENS_BY_LEVEL: Record<string, number> = {
+  [PartMediaResolutionLevel.MEDIA_RESOLUTION_LOW]: 70,
+  [PartMediaResolutionLevel.MEDIA_RESOLUTION_MEDIUM]: 70,
+  [PartMediaResolutionLevel.MEDIA_RESOLUTION_HIGH]: 280,
+  [PartMediaResolutionLevel.MEDIA_RESOLUTION_ULTRA_HIGH]: 280,
+};
+
+const PAGE_TOKENS_BY_LEVEL: Record<string, number> = {
+  [PartMediaResolutionLevel.MEDIA_RESOLUTION_LOW]: 280,
+  [PartMediaResolutionLevel.MEDIA_RESOLUTION_MEDIUM]: 560,
+  [PartMediaResolutionLevel.MEDIA_RESOLUTION_HIGH]: 1120,
+  [PartMediaResolutionLevel.MEDIA_RESOLUTION_ULTRA_HIGH]: 1120,
+};
+
+const IMAGE_TOKENS_BY_RESOLUTION: Record<string, number> = {
+  [MediaResolution.MEDIA_RESOLUTION_LOW]: 64,
+  [MediaResolution.MEDIA_RESOLUTION_MEDIUM]: 256,
+  [MediaResolution.MEDIA_RESOLUTION_HIGH]: 256,
+};
+
+const FRAME_TOKENS_BY_RESOLUTION: Record<string, number> = {
+  [MediaResolution.MEDIA_RESOLUTION_LOW]: 66,
+};
+
+/**
+ * Returns whether the inline data of a part is text, which is tokenized
+ * instead of estimated.
+ */
+export function isTextMimeType(mimeType: string | undefined): boolean {
+  return (
+    mimeType !== undefined &&
+    (mimeType.startsWith('text/') || mimeType === 'application/json')
+  );
+}
+
+/**
+ * Estimates the tokens of a media part, by modality.
+ *
+ * @param part The part with the inline or file data
+ * @param mediaResolution The media resolution of the request, if any
+ * @return The estimated tokens of each modality of the part
+ * @throws Error if the modality of the part is not supported, or the
+ *     duration or page count it needs is unknown
+ */
+export function estimateMediaTokens(
+  part: Part,
+  mediaResolution?: MediaResolution,
+): ModalityTokenCount[] {
+  const mimeType = part.inlineData?.mimeType ?? part.fileData?.mimeType ?? '';
+  const bytes =
+    part.inlineData?.data !== undefined
+      ? decodeBase64(part.inlineData.data)
+      : undefined;
+  const level = part.mediaResolution?.level;
+  const numTokens = part.mediaResolution?.numTokens;
+  const description = part.fileData?.fileUri
+    ? `${mimeType || 'file'} ${part.fileData.fileUri}`
+    : `${mimeType || 'inline'} data`;
+
+  if (mimeType.startsWith('image/')) {
+    return [
+      {
+        modality: MediaModality.IMAGE,
+        tokenCount:
+          numTokens ??
+          (level && IMAGE_TOKENS_BY_LEVEL[level]) ??
+          (mediaResolution && IMAGE_TOKENS_BY_RESOLUTION[mediaResolution]) ??
+          imageTiles(bytes && imageSize(bytes)) * TOKENS_PER_TILE,
+      },
+    ];
+  }
+  if (mimeType.startsWith('audio/')) {
+    const seconds = clipSeconds(part) ?? (bytes && wavSeconds(bytes));
+    if (seconds === undefined) {
+      throw new Error(
+        `Cannot estimate the tokens of ${description}: its duration is unknown. Set videoMetadata.startOffset and videoMetadata.endOffset to count it.`,
+      );
+    }
+    return [
+      {
+        modality: MediaModality.AUDIO,
+        tokenCount: Math.ceil(seconds * AUDIO_TOKENS_PER_SECOND),
+      },
+    ];
+  }
+  if (mimeType.startsWith('video/')) {
+    const seconds = clipSeconds(part);
+    if (seconds === undefined) {
+      throw new Error(
+        `Cannot estimate the tokens of ${description}: its duration is unknown. Set videoMetadata.startOffset and videoMetadata.endOffset to count it.`,
+      );
+    }
+    const frames = Math.max(
+      1,
+      Math.ceil(seconds * (part.videoMetadata?.fps ?? 1)),
+    );
+    const tokensPerFrame =
+      numTokens ??
+      (level && FRAME_TOKENS_BY_LEVEL[level]) ??
+      (mediaResolution && FRAME_TOKENS_BY_RESOLUTION[mediaResolution]) ??
+      TOKENS_PER_FRAME;
+    return [
+      {modality: MediaModality.VIDEO, tokenCount: frames * tokensPerFrame},
+      {
+        modality: MediaModality.AUDIO,
+        tokenCount: Math.ceil(seconds * AUDIO_TOKENS_PER_SECOND),
+      },
+    ];
+  }
+  if (mimeType === 'application/pdf') {
+    const pages = bytes && pdfPageCount(bytes);
+    if (!pages) {
+      throw new Error(
+        `Cannot estimate the tokens of ${description}: its page count is unknown. Pass the PDF as inline data to count it.`,
+      );
+    }
+    return [
+      {
+        modality: MediaModality.DOCUMENT,
+        tokenCount:
+          pages *
+          (numTokens ??
+            (level && PAGE_TOKENS_BY_LEVEL[level]) ??
+            TOKENS_PER_PAGE),
+      },
+    ];
+  }
+  throw new Error(
+    `LocalTokenizers cannot estimate the tokens of ${description}.`,
+  );
+}
+
+function imageTiles(size: {width: number; height: number} | undefined) {
+  if (!size) {
+    return 1;
+  }
+  if (size.width <= SMALL_IMAGE_SIZE && size.height <= SMALL_IMAGE_SIZE) {
+    return 1;
+  }
+  return Math.ceil(size.width / TILE_SIZE) * Math.ceil(size.height / TILE_SIZE);
+}
+
+/** Reads the size of a PNG, JPEG, GIF or WebP image from its header. */
+function imageSize(
+  bytes: Uint8Array,
+): {width: number; height: number} | undefined {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ascii = (start: number, end: number) =>
+    String.fromCharCode(...bytes.subarray(start, end));
+  // PNG: the IHDR chunk follows the signature.
+  if (bytes.length >= 24 && ascii(1, 4) === 'PNG') {
+    return {width: view.getUint32(16), height: view.getUint32(20)};
+  }
+  // GIF: the logical screen size follows the signature.
+  if (bytes.length >= 10 && ascii(0, 3) === 'GIF') {
+    return {
+      width: view.getUint16(6, true),
+      height: view.getUint16(8, true),
+    };
+  }
+  // WebP: the size is in the lossy, lossless or extended header.
+  if (bytes.length >= 30 && ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+    const format = ascii(12, 16);
+    if (format === 'VP8 ') {
+      return {
+        width: view.getUint16(26, true) & 0x3fff,
+        height: view.getUint16(28, true) & 0x3fff,
+      };
+    }
+    if (format === 'VP8L') {
+      const bits = view.getUint32(21, true);
+      return {width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1};
+    }
+    if (format === 'VP8X') {
+      const uint24 = (offset: number) =>
+        bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+      return {width: uint24(24) + 1, height: uint24(27) + 1};
+    }
+    return undefined;
+  }
+  // JPEG: the size is in the first start of frame segment.
+  if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      const isStartOfFrame =
+        marker >= 0xc0 &&
+        marker <= 0xcf &&
+        marker !== 0xc4 &&
+        marker !== 0xc8 &&
+        marker !== 0xcc;
+      if (isStartOfFrame) {
+        return {
+          width: view.getUint16(offset + 7),
+          height: view.getUint16(offset + 5),
+        };
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  }
+  return undefined;
+}
+
+/** Reads the duration of WAV audio from its header. */
+function wavSeconds(bytes: Uint8Array): number | undefined {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ascii = (start: number, end: number) =>
+    String.fromCharCode(...bytes.subarray(start, end));
+  if (bytes.length < 12 || ascii(0, 4) !== 'RIFF' || ascii(8, 12) !== 'WAVE') {
+    return undefined;
+  }
+  let byteRate: number | undefined;
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = ascii(offset, offset + 4);
+    const size = view.getUint32(offset + 4, true);
+    if (id === 'fmt ' && offset + 16 <= bytes.length) {
+      byteRate = view.getUint32(offset + 16, true);
+    } else if (id === 'data' && byteRate) {
+      return size / byteRate;
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return undefined;
+}
+
+/** Counts the pages of a PDF document from its page objects. */
+function pdfPageCount(bytes: Uint8Array): number | undefined {
+  const text = new TextDecoder('latin1').decode(bytes);
+  if (!text.startsWith('%PDF')) {
+    return undefined;
+  }
+  const pages = (text.match(/\/Type\s*\/Page\b/g) ?? []).length;
+  if (pages > 0) {
+    return pages;
+  }
+  // The page objects may be compressed, fall back to the page tree counts.
+  const counts = [...text.matchAll(/\/Count\s+(\d+)/g)].map((match) =>
+    Number(match[1]),
+  );
+  return counts.length > 0 ? Math.max(...counts) : undefined;
+}
+
+/** Returns the duration of the clip of a part, from its video metadata. */
+function clipSeconds(part: Part): number | undefined {
+  const end = parseOffset(part.videoMetadata?.endOffset);
+  if (end === undefined) {
+    return undefined;
+  }
+  return Math.max(0, end - (parseOffset(part.videoMetadata?.startOffset) ?? 0));
+}
+
+/** Parses an offset such as "12.5s" into seconds. */
+function parseOffset(offset: string | undefined): number | undefined {
+  if (offset === undefined || !offset.endsWith('s')) {
+    return undefined;
+  }
+  const seconds = Number(offset.slice(0, -1));
+  return isNaN(seconds) ? undefined : seconds;
+}
@@ -15,9 +15,14 @@
  * If a user provides a Content object with fields that this local tokenizer
  * doesn't recognize, this class will log a warning.
  *
+ * Parts with media are collected separately, for their tokens to be estimated.
+ * Inline text data, such as text/plain or application/json, is counted as
+ * text.
+ *
  * Translated from python-genai/local_tokenizer.py
  */
 
+import {decodeBase64} from '../../_common.js';
 import type {
   Content,
   FunctionCall,
@@ -27,15 +32,18 @@ import type {
   Schema,
   Tool,
 } from '../../types.js';
+import {isTextMimeType} from './_media_estimator.js';
 
 /**
  * Accumulates countable texts from Content and Tool objects.
  */
 export class TextsAccumulator {
   private texts: string[];
+  private mediaParts: Part[];
 
   constructor() {
     this.texts = [];
+    this.mediaParts = [];
   }
 
   /**
@@ -45,6 +53,13 @@ export class TextsAccumulator {
     return this.texts;
   }
 
+  /**
+   * Returns all accumulated parts with inline or file data other than text.
+   */
+  getMediaParts(): Part[] {
+    return this.mediaParts;
+  }
+
   /**
    * Adds multiple Content objects.
    */
@@ -64,10 +79,16 @@ export class TextsAccumulator {
       for (const part of content.parts) {
         const countedPart: Part = {};
 
-        if (part.fileData || part.inlineData) {
-          throw new Error(
-            'LocalTokenizers do not support non-text content types.',
+        if (part.inlineData && isTextMimeType(part.inlineData.mimeType)) {
+          countedPart.inlineData = part.inlineData;
+          this.texts.push(
+            new TextDecoder().decode(decodeBase64(part.inlineData.data ?? '')),
           );
+        } else if (part.fileData || part.inlineData) {
+          countedPart.fileData = part.fileData;
+          countedPart.inlineData = part.inlineData;
+          countedPart.mediaResolution = part.mediaResolution;
+          this.mediaParts.push(part);
         }
 
         if (part.videoMetadata) {
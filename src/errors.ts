@@ -4,6 +4,87 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import type {BatchJob, Operation} from './types.js';
+
+const RETRY_INFO_TYPE = 'type.googleapis.com/google.rpc.RetryInfo';
+const QUOTA_FAILURE_TYPE = 'type.googleapis.com/google.rpc.QuotaFailure';
+const ERROR_INFO_TYPE = 'type.googleapis.com/google.rpc.ErrorInfo';
+const BAD_REQUEST_TYPE = 'type.googleapis.com/google.rpc.BadRequest';
+const REQUEST_INFO_TYPE = 'type.googleapis.com/google.rpc.RequestInfo';
+
+/**
+ * A `google.rpc` error detail, as found in the `error.details` list of an
+ * API error response.
+ */
+export interface ApiErrorDetail {
+  /** The fully qualified type of the detail, for example
+   * `type.googleapis.com/google.rpc.RetryInfo`. */
+  '@type': string;
+  [key: string]: unknown;
+}
+
+/** `google.rpc.RetryInfo`: how long the client should wait before retrying. */
+export interface RetryInfoDetail extends ApiErrorDetail {
+  /** The delay as a protobuf duration string, for example `"3s"` or
+   * `"0.5s"`. */
+  retryDelay?: string;
+}
+
+/** A single quota check that failed. */
+export interface QuotaViolation {
+  /** The subject on which the quota check failed. */
+  subject?: string;
+  /** A description of how the quota check failed. */
+  description?: string;
+  /** The metric of the violated quota, for example
+   * `generativelanguage.googleapis.com/generate_content_free_tier_requests`. */
+  quotaMetric?: string;
+  /** The id of the violated quota. */
+  quotaId?: string;
+  /** The dimensions of the violated quota, for example the model. */
+  quotaDimensions?: Record<string, string>;
+  /** The enforced quota value at the time of the violation. */
+  quotaValue?: string;
+}
+
+/** `google.rpc.QuotaFailure`: the quota checks that failed. */
+export interface QuotaFailureDetail extends ApiErrorDetail {
+  violations?: QuotaViolation[];
+}
+
+/** `google.rpc.ErrorInfo`: the structured cause of the error. */
+export interface ErrorInfoDetail extends ApiErrorDetail {
+  /** The reason of the error, for example `API_KEY_INVALID`. */
+  reason?: string;
+  /** The logical grouping to which the reason belongs. */
+  domain?: string;
+  /** Additional structured details about the error. */
+  metadata?: Record<string, string>;
+}
+
+/** A single invalid field in a request. */
+export interface FieldViolation {
+  /** The path to the invalid field, for example `contents[0].parts`. */
+  field?: string;
+  /** A description of why the field is invalid. */
+  description?: string;
+  /** The reason of the field-level error. */
+  reason?: string;
+}
+
+/** `google.rpc.BadRequest`: the fields of the request that are invalid. */
+export interface BadRequestDetail extends ApiErrorDetail {
+  fieldViolations?: FieldViolation[];
+}
+
+/** `google.rpc.RequestInfo`: information about the failed request. */
+export interface RequestInfoDetail extends ApiErrorDetail {
+  /** An opaque id of the request, useful when reporting issues. */
+  requestId?: string;
+  /** Data used to serve the request, for debugging. */
+  servingData?: string;
+}
+
 /**
  * Details for errors from calling the API.
  */
@@ -12,19 +93,313 @@ export interface ApiErrorInfo {
   message: string;
   /** The HTTP status code. */
   status: number;
+  /** The canonical `google.rpc` status, for example `RESOURCE_EXHAUSTED`. */
+  rpcStatus?: string;
+  /** The `google.rpc` details of the error response. */
+  details?: ApiErrorDetail[];
+  /** The headers of the error response. */
+  headers?: Record<string, string>;
 }
 
 /**
  * API errors raised by the GenAI API.
+ *
+ * @remarks
+ * Depending on the status code and details of the error response, one of
+ * {@link InvalidArgumentError}, {@link PermissionDeniedError},
+ * {@link NotFoundError}, {@link RateLimitError}, {@link QuotaExceededError}
+ * or {@link ServerError} is raised. All of them keep the `ApiError` name so
+ * existing `error.name === 'ApiError'` checks keep working; use `instanceof`
+ * to tell them apart.
  */
 export class ApiError extends Error {
   /** HTTP status code */
   status: number;
+  /** The canonical `google.rpc` status, for example `RESOURCE_EXHAUSTED`. */
+  rpcStatus?: string;
+  /** The `google.rpc` details of the error response. */
+  details: ApiErrorDetail[];
+  /** The headers of the error response, if it was received over HTTP. */
+  responseHeaders?: Record<string, string>;
+  /**
+   * The id of the failed request, taken from the `google.rpc.RequestInfo`
+   * detail or the `x-request-id` response header.
+   */
+  requestId?: string;
+  /**
+   * How long the server asked the client to wait before retrying, in
+   * fractions of a second. Taken from the `google.rpc.RetryInfo` detail or
+   * the `Retry-After` response header.
+   */
+  retryDelay?: number;
 
   constructor(options: ApiErrorInfo) {
     super(options.message);
     this.name = 'ApiError';
     this.status = options.status;
-    Object.setPrototypeOf(this, ApiError.prototype);
+    this.rpcStatus = options.rpcStatus;
+    this.details = options.details ?? [];
+    this.responseHeaders = options.headers;
+    this.requestId =
+      this.requestInfo?.requestId ?? getHeader(options.headers, 'x-request-id');
+    this.retryDelay =
+      parseDuration(this.retryInfo?.retryDelay) ??
+      parseRetryAfter(getHeader(options.headers, 'retry-after'));
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+
+  /** The `google.rpc.RetryInfo` detail, if present. */
+  get retryInfo(): RetryInfoDetail | undefined {
+    return this.findDetail<RetryInfoDetail>(RETRY_INFO_TYPE);
+  }
+
+  /** The `google.rpc.QuotaFailure` detail, if present. */
+  get quotaFailure(): QuotaFailureDetail | undefined {
+    return this.findDetail<QuotaFailureDetail>(QUOTA_FAILURE_TYPE);
+  }
+
+  /** The `google.rpc.ErrorInfo` detail, if present. */
+  get errorInfo(): ErrorInfoDetail | undefined {
+    return this.findDetail<ErrorInfoDetail>(ERROR_INFO_TYPE);
+  }
+
+  /** The `google.rpc.BadRequest` detail, if present. */
+  get badRequest(): BadRequestDetail | undefined {
+    return this.findDetail<BadRequestDetail>(BAD_REQUEST_TYPE);
+  }
+
+  /** The `google.rpc.RequestInfo` detail, if present. */
+  get requestInfo(): RequestInfoDetail | undefined {
+    return this.findDetail<RequestInfoDetail>(REQUEST_INFO_TYPE);
+  }
+
+  private findDetail<T extends ApiErrorDetail>(type: string): T | undefined {
+    return (this.details ?? []).find((detail) => detail['@type'] === type) as
+      | T
+      | undefined;
+  }
+}
+
+/** Raised when the request is malformed or has invalid arguments (400). */
+export class InvalidArgumentError extends ApiError {}
+
+/** Raised when the caller is not authenticated or not allowed (401, 403). */
+export class PermissionDeniedError extends ApiError {}
+
+/** Raised when the requested resource does not exist (404). */
+export class NotFoundError extends ApiError {}
+
+/**
+ * Raised when too many requests were sent (429). See `retryDelay` for how
+ * long to wait before retrying.
+ */
+export class RateLimitError extends ApiError {}
+
+/**
+ * Raised when a quota was exhausted (429 with a `google.rpc.QuotaFailure`
+ * detail). See `quotaFailure` for the violated quotas.
+ */
+export class QuotaExceededError extends RateLimitError {}
+
+/** Raised when the server failed to handle the request (5xx). */
+export class ServerError extends ApiError {}
+
+/**
+ * Creates the {@link ApiError} subclass matching the status code and details
+ * of an error response.
+ *
+ * @param options The details of the error.
+ * @return The error to throw.
+ */
+export function createApiError(options: ApiErrorInfo): ApiError {
+  const status = options.status;
+  if (status === 400) {
+    return new InvalidArgumentError(options);
+  }
+  if (status === 401 || status === 403) {
+    return new PermissionDeniedError(options);
+  }
+  if (status === 404) {
+    return new NotFoundError(options);
+  }
+  if (status === 429) {
+    const isQuotaFailure = (options.details ?? []).some(
+      (detail) => detail['@type'] === QUOTA_FAILURE_TYPE,
+    );
+    return isQuotaFailure
+      ? new QuotaExceededError(options)
+      : new RateLimitError(options);
+  }
+  if (status >= 500) {
+    return new ServerError(options);
+  }
+  return new ApiError(options);
+}
+
+/** A value that does not match a schema. */
+export interface SchemaIssue {
+  /**
+   * The path to the value, for example `items[0].name`, or an empty string
+   * for the root value.
+   */
+  path: string;
+  /** What is wrong with the value. */
+  message: string;
+}
+
+/**
+ * Raised when the structured output of a response is not valid JSON or does
+ * not match the schema of the response.
+ */
+export class StructuredOutputError extends Error {
+  /** The problems found, in the order they were found. */
+  issues: SchemaIssue[];
+  /** The path to the first offending value, empty for the root value. */
+  path: string;
+  /** The text of the response, if any. */
+  text?: string;
+
+  constructor(message: string, issues: SchemaIssue[], text?: string) {
+    super(message);
+    this.name = 'StructuredOutputError';
+    this.issues = issues;
+    this.path = issues[0]?.path ?? '';
+    this.text = text;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Raised when a long-running operation completes with an error.
+ *
+ * @remarks
+ * The `error` of an operation is a `google.rpc.Status`, whose `code` and
+ * `details` are exposed here. See `operation` for the completed operation.
+ */
+export class OperationError extends Error {
+  /** The `google.rpc.Code` of the error, for example 3 for
+   * `INVALID_ARGUMENT`. */
+  code?: number;
+  /** The `google.rpc` details of the error. */
+  details: ApiErrorDetail[];
+  /** The completed operation. */
+  operation: Operation<unknown>;
+
+  constructor(operation: Operation<unknown>) {
+    const error = operation.error ?? {};
+    const message =
+      typeof error['message'] === 'string'
+        ? error['message']
+        : JSON.stringify(error);
+    super(`Operation ${operation.name ?? ''} failed: ${message}`);
+    this.name = 'OperationError';
+    this.code = typeof error['code'] === 'number' ? error['code'] : undefined;
+    this.details = Array.isArray(error['details'])
+      ? (error['details'] as ApiErrorDetail[])
+      : [];
+    this.operation = operation;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Raised when a long-running operation is not complete by the timeout given
+ * to wait for it. See `operation` for its latest state.
+ */
+export class OperationTimeoutError extends Error {
+  /** The latest state of the operation. */
+  operation: Operation<unknown>;
+
+  constructor(operation: Operation<unknown>, timeout: number) {
+    super(
+      `Operation ${operation.name ?? ''} did not complete within ${timeout} seconds.`,
+    );
+    this.name = 'OperationTimeoutError';
+    this.operation = operation;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Raised when a batch job ends in the `JOB_STATE_FAILED` or
+ * `JOB_STATE_EXPIRED` state. See `job` for the ended batch job.
+ */
+export class BatchJobError extends Error {
+  /** The `google.rpc.Code` of the error of the job, if any. */
+  code?: number;
+  /** The details of the error of the job. */
+  details: string[];
+  /** The ended batch job. */
+  job: BatchJob;
+
+  constructor(job: BatchJob) {
+    const message = job.error?.message;
+    super(
+      `Batch job ${job.name ?? ''} ended in state ${job.state ?? ''}` +
+        (message ? `: ${message}` : '.'),
+    );
+    this.name = 'BatchJobError';
+    this.code = job.error?.code;
+    this.details = job.error?.details ?? [];
+    this.job = job;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Raised when a batch job has not ended by the timeout given to wait for it.
+ * See `job` for its latest state.
+ */
+export class BatchJobTimeoutError extends Error {
+  /** The latest state of the batch job. */
+  job: BatchJob;
+
+  constructor(job: BatchJob, timeout: number) {
+    super(
+      `Batch job ${job.name ?? ''} did not complete within ${timeout} seconds.`,
+    );
+    this.name = 'BatchJobTimeoutError';
+    this.job = job;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+function getHeader(
+  headers: Record<string, string> | undefined,
+  name: string,
+): string | undefined {
+  if (!headers) {
+    return undefined;
+  }
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === name) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/** Parses a protobuf duration string such as `"3s"` or `"0.250s"`. */
+function parseDuration(duration: string | undefined): number | undefined {
+  if (typeof duration !== 'string') {
+    return undefined;
+  }
+  const match = /^(\d+(?:\.\d+)?)s$/.exec(duration.trim());
+  return match ? Number(match[1]) : undefined;
+}
+
+/** Parses a `Retry-After` header given in seconds or as an HTTP date. */
+function parseRetryAfter(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds);
+  }
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return undefined;
   }
+  return Math.max(0, (date - Date.now()) / 1000);
 }
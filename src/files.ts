@@ -9,6 +9,12 @@
 import {ApiClient} from './_api_client.js';
 import * as common from './_common.js';
 import {BaseModule} from './_common.js';
+import {
+  DownloadFileContentParameters,
+  downloadContent,
+  readContent,
+} from './_download.js';
+import {ResumableUploadFileParameters} from './_uploader.js';
 import * as converters from './converters/_files_converters.js';
 import {PagedItem, Pager} from './pagers.js';
 import * as types from './types.js';
@@ -49,6 +55,11 @@ export class Files extends BaseModule {
    * Supported upload sources:
    * - Node.js: File path (string) or Blob object.
    * - Browser: Blob object (e.g., File).
+   * - All environments: the bytes of the file (e.g., a `Buffer` or
+   *   `Uint8Array`) or a stream of them (e.g., a web `ReadableStream` or a
+   *   Node.js `Readable`). The `mimeType` must be set in the config for these,
+   *   and `sizeBytes` for a stream of known size. A stream of unknown size is
+   *   uploaded in chunks until it ends.
    *
    * @remarks
    * The `mimeType` can be specified in the `config` parameter. If omitted:
@@ -64,11 +75,17 @@ export class Files extends BaseModule {
    * .mp3 -> audio/mpeg
    * .mp4 -> video/mp4
    *
+   * The file is uploaded in chunks. `config.onProgress` is called once the
+   * upload has started and after each chunk, with the upload URL and the
+   * bytes uploaded so far. If the upload is interrupted, passing the upload
+   * URL as `config.resumeUploadUrl` resumes it from the offset the server has
+   * received.
+   *
    * This section can contain multiple paragraphs and code examples.
    *
    * @param params - Optional parameters specified in the
-   *        `types.UploadFileParameters` interface.
-   *         @see {@link types.UploadFileParameters#config} for the optional
+   *        `ResumableUploadFileParameters` interface.
+   *         @see {@link ResumableUploadFileParameters#config} for the optional
    *         config in the parameters.
    * @return A promise that resolves to a `types.File` object.
    * @throws An error if called on a Gemini Enterprise Agent Platform (previously known as Vertex AI) client.
@@ -85,8 +102,18 @@ export class Files extends BaseModule {
    * }});
    * console.log(file.name);
    * ```
+   *
+   * The following code saves the progress of an upload, and resumes it if
+   * it was interrupted.
+   *
+   * ```ts
+   * const file = await ai.files.upload({file: 'video.mp4', config: {
+   *   resumeUploadUrl: saved?.uploadUrl,
+   *   onProgress: (progress) => save(progress),
+   * }});
+   * ```
    */
-  async upload(params: types.UploadFileParameters): Promise<types.File> {
+  async upload(params: ResumableUploadFileParameters): Promise<types.File> {
     if (this.apiClient.isVertexAI()) {
       throw new Error(
         'Gemini Enterprise Agent Platform (previously known as Vertex AI) does not support uploading files. You can share files through a GCS bucket.',
@@ -103,8 +130,9 @@ export class Files extends BaseModule {
   /**
    * Downloads a remotely stored file asynchronously to a location specified in
    * the `params` object. This method only works on Node environment, to
-   * download files in the browser, use a browser compliant method like an <a>
-   * tag.
+   * download files in the browser or other runtimes, use
+   * {@link Files.downloadAsBlob}, {@link Files.downloadAsBytes} or
+   * {@link Files.downloadStream}.
    *
    * @param params - The parameters for the download request.
    *
@@ -121,6 +149,73 @@ export class Files extends BaseModule {
     await this.apiClient.downloadFile(params);
   }
 
+  /**
+   * Downloads a remotely stored file, or the inline bytes of a video, as a
+   * stream. This method works in Node, browsers and edge runtimes.
+   *
+   * @param params - The parameters for the download request. The config can
+   *     set an `onProgress` callback, called as the stream is read, and an
+   *     `abortSignal` to cancel the download.
+   * @return The bytes of the file, as they are received.
+   *
+   * @example
+   * ```ts
+   * const stream = await ai.files.downloadStream({file: file.name});
+   * for await (const chunk of stream) {
+   *   console.log(`Received ${chunk.byteLength} bytes.`);
+   * }
+   * ```
+   */
+  async downloadStream(
+    params: DownloadFileContentParameters,
+  ): Promise<ReadableStream<Uint8Array>> {
+    const {stream} = await downloadContent(params, this.apiClient);
+    return stream;
+  }
+
+  /**
+   * Downloads a remotely stored file, or the inline bytes of a video, into
+   * memory. This method works in Node, browsers and edge runtimes.
+   *
+   * @param params - The parameters for the download request, see
+   *     {@link Files.downloadStream}.
+   * @return The bytes of the file.
+   *
+   * @example
+   * ```ts
+   * const bytes = await ai.files.downloadAsBytes({file: operation.response.generatedVideos[0]});
+   * ```
+   */
+  async downloadAsBytes(
+    params: DownloadFileContentParameters,
+  ): Promise<Uint8Array> {
+    const {stream} = await downloadContent(params, this.apiClient);
+    return readContent(stream);
+  }
+
+  /**
+   * Downloads a remotely stored file, or the inline bytes of a video, as a
+   * `Blob` of its MIME type. This method works in Node, browsers and edge
+   * runtimes.
+   *
+   * @param params - The parameters for the download request, see
+   *     {@link Files.downloadStream}.
+   * @return The file as a `Blob`.
+   *
+   * @example
+   * ```ts
+   * const blob = await ai.files.downloadAsBlob({file: file.name});
+   * videoElement.src = URL.createObjectURL(blob);
+   * ```
+   */
+  async downloadAsBlob(
+    params: DownloadFileContentParameters,
+  ): Promise<Blob> {
+    const {stream, mimeType} = await downloadContent(params, this.apiClient);
+    const bytes = await readContent(stream);
+    return new Blob([bytes], mimeType ? {type: mimeType} : undefined);
+  }
+
   /**
    * Registers Google Cloud Storage files for use with the API.
    * This method is only available in Node.js environments.
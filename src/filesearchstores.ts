@@ -9,6 +9,7 @@
 import {ApiClient} from './_api_client.js';
 import * as common from './_common.js';
 import {BaseModule} from './_common.js';
+import {ResumableUploadToFileSearchStoreParameters} from './_uploader.js';
 import * as converters from './converters/_filesearchstores_converters.js';
 import {Documents} from './documents.js';
 import {PagedItem, Pager} from './pagers.js';
@@ -54,6 +55,8 @@ export class FileSearchStores extends BaseModule {
    * Supported upload sources:
    * - Node.js: File path (string) or Blob object.
    * - Browser: Blob object (e.g., File).
+   * - All environments: the bytes of the file or a stream of them, as for
+   *   `files.upload`.
    *
    * @remarks
    * The `mimeType` can be specified in the `config` parameter. If omitted:
@@ -65,10 +68,11 @@ export class FileSearchStores extends BaseModule {
    * This section can contain multiple paragraphs and code examples.
    *
    * @param params - Optional parameters specified in the
-   *        `types.UploadToFileSearchStoreParameters` interface.
-   *         @see {@link types.UploadToFileSearchStoreParameters#config} for the optional
+   *        `ResumableUploadToFileSearchStoreParameters` interface.
+   *         @see {@link ResumableUploadToFileSearchStoreParameters#config} for the optional
    *         config in the parameters.
-   * @return A promise that resolves to a long running operation.
+   * @return A promise that resolves to a long running operation. Use
+   *     `operations.wait` to wait until the file is imported.
    * @throws An error if called on a Gemini Enterprise Agent Platform (previously known as Vertex AI) client.
    * @throws An error if the `mimeType` is not provided and can not be inferred,
    * the `mimeType` can be provided in the `params.config` parameter.
@@ -81,11 +85,12 @@ export class FileSearchStores extends BaseModule {
    * const operation = await ai.fileSearchStores.upload({fileSearchStoreName: 'fileSearchStores/foo-bar', file: 'file.txt', config: {
    *   mimeType: 'text/plain',
    * }});
-   * console.log(operation.name);
+   * const completed = await ai.operations.wait(operation);
+   * console.log(completed.response?.documentName);
    * ```
    */
   async uploadToFileSearchStore(
-    params: types.UploadToFileSearchStoreParameters,
+    params: ResumableUploadToFileSearchStoreParameters,
   ): Promise<types.UploadToFileSearchStoreOperation> {
     if (this.apiClient.isVertexAI()) {
       throw new Error(
@@ -382,7 +387,18 @@ export class FileSearchStores extends BaseModule {
    * This is a long-running operation, see aip.dev/151
    *
    * @param params - The parameters for importing a file to a file search store.
-   * @return ImportFileOperation.
+   * @return ImportFileOperation. Use `operations.wait` to wait until the file
+   *     is imported.
+   *
+   * @example
+   * ```ts
+   * const operation = await ai.fileSearchStores.importFile({
+   *   fileSearchStoreName: 'fileSearchStores/foo-bar',
+   *   fileName: 'files/abc',
+   * });
+   * const completed = await ai.operations.wait(operation);
+   * console.log(completed.response?.documentName);
+   * ```
    */
 
   async importFile(
@@ -0,0 +1,224 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {CallToolOptions} from './_afc.js';
+import {
+  StandardSchema,
+  ValidationResult,
+  isObject,
+  isStandardSchema,
+  validateValue,
+} from './_schema_validation.js';
+import * as t from './_transformers.js';
+import * as types from './types.js';
+
+/** What a {@link FunctionToolOptions.handler} gets next to the arguments. */
+export interface FunctionToolContext {
+  /** The function call that the handler answers. */
+  functionCall: types.FunctionCall;
+  /**
+   * Aborted when the result is no longer needed, for example because the
+   * call timed out.
+   */
+  abortSignal?: AbortSignal;
+}
+
+/** Options for {@link functionTool}. */
+export interface FunctionToolOptions<Args = Record<string, unknown>> {
+  /** The name of the function, as the model calls it. */
+  name: string;
+  /** What the function does and when to call it. */
+  description?: string;
+  /**
+   * The schema of the arguments: a JSON schema, a `Schema`, or a Standard
+   * Schema such as a zod schema. The arguments of each call are validated
+   * against it before the handler runs.
+   */
+  parameters?: StandardSchema<Args> | Record<string, unknown>;
+  /**
+   * The JSON schema of the arguments to declare to the model. Required when
+   * `parameters` is a Standard Schema, which cannot be converted by the SDK,
+   * for example the result of `zodToJsonSchema(schema)` or
+   * `z.toJSONSchema(schema)`.
+   */
+  parametersJsonSchema?: unknown;
+  /**
+   * Runs the function. The returned value is sent to the model as the
+   * `output` of the function response. Errors it throws are sent as the
+   * `error`.
+   */
+  handler: (args: Args, context: FunctionToolContext) => unknown;
+  /** The configuration of the tool, such as the timeout of each call. */
+  config?: types.CallableToolConfig;
+}
+
+/**
+ * A `CallableTool` that runs one or more typed functions, as created by
+ * {@link functionTool} and {@link functionToolset}.
+ */
+export class FunctionTool implements types.CallableTool {
+  /**
+   * @param functions - The functions of the tool.
+   * @param config - The configuration of the tool.
+   * @throws Error if two functions have the same name.
+   */
+  constructor(
+    readonly functions: ReadonlyArray<FunctionToolOptions<unknown>>,
+    readonly config?: types.CallableToolConfig,
+  ) {
+    const names = new Set<string>();
+    for (const fn of functions) {
+      if (names.has(fn.name)) {
+        throw new Error(`Function ${fn.name} is declared more than once.`);
+      }
+      names.add(fn.name);
+    }
+  }
+
+  async tool(): Promise<types.Tool> {
+    return t.tTool({
+      functionDeclarations: this.functions.map((fn) => toDeclaration(fn)),
+    });
+  }
+
+  async callTool(
+    functionCalls: types.FunctionCall[],
+    options?: CallToolOptions,
+  ): Promise<types.Part[]> {
+    const parts: types.Part[] = [];
+    for (const functionCall of functionCalls) {
+      const fn = this.functions.find((fn) => fn.name === functionCall.name);
+      if (!fn) {
+        continue;
+      }
+      const validation = await validateArgs(fn, functionCall.args ?? {});
+      let response: Record<string, unknown>;
+      if ('issues' in validation) {
+        response = {
+          error: `Invalid arguments for function ${fn.name}: ${validation.issues
+            .map((issue) => issue.message)
+            .join(' ')}`,
+        };
+      } else {
+        // A failing call is answered with its error, so that the other calls
+        // still get their results.
+        try {
+          response = {
+            output: await fn.handler(validation.value, {
+              functionCall,
+              abortSignal: options?.abortSignal,
+            }),
+          };
+        } catch (e) {
+          response = {error: e instanceof Error ? e.message : String(e)};
+        }
+      }
+      parts.push({
+        functionResponse: {
+          ...(functionCall.id ? {id: functionCall.id} : {}),
+          name: fn.name,
+          response,
+        },
+      });
+    }
+    return parts;
+  }
+}
+
+/**
+ * Creates a `CallableTool` from a function, for automatic function calling.
+ *
+ * @remarks
+ * The arguments the model sends are validated against `parameters`. Invalid
+ * arguments are answered with an error response that tells the model what to
+ * fix, and the handler is not called.
+ *
+ * @example
+ * ```ts
+ * import {z} from 'zod';
+ * import {zodToJsonSchema} from 'zod-to-json-schema';
+ *
+ * const schema = z.object({city: z.string()});
+ * const getWeather = functionTool({
+ *   name: 'getWeather',
+ *   description: 'Returns the weather in a city.',
+ *   parameters: schema,
+ *   parametersJsonSchema: zodToJsonSchema(schema),
+ *   handler: async ({city}) => ({forecast: `Sunny in ${city}`}),
+ * });
+ * const response = await ai.models.generateContent({
+ *   model: 'gemini-2.5-flash',
+ *   contents: 'What is the weather in Boston?',
+ *   config: {tools: [getWeather]},
+ * });
+ * ```
+ */
+export function functionTool<Args = Record<string, unknown>>(
+  options: FunctionToolOptions<Args>,
+): FunctionTool {
+  return new FunctionTool(
+    [options as FunctionToolOptions<unknown>],
+    options.config,
+  );
+}
+
+/**
+ * Groups functions into one `CallableTool`, which declares all of them to
+ * the model and runs the one each function call names.
+ *
+ * @param tools - The functions, as created by {@link functionTool}.
+ * @param config - The configuration of the toolset. If not specified, the
+ *     configuration of the first function is used.
+ * @throws Error if two functions have the same name.
+ *
+ * @example
+ * ```ts
+ * const calendar = functionToolset([listEvents, createEvent, deleteEvent]);
+ * ```
+ */
+export function functionToolset(
+  tools: FunctionTool[],
+  config?: types.CallableToolConfig,
+): FunctionTool {
+  return new FunctionTool(
+    tools.flatMap((tool) => tool.functions),
+    config ?? tools[0]?.config,
+  );
+}
+
+function toDeclaration(
+  fn: FunctionToolOptions<unknown>,
+): types.FunctionDeclaration {
+  const declaration: types.FunctionDeclaration = {name: fn.name};
+  if (fn.description !== undefined) {
+    declaration.description = fn.description;
+  }
+  if (fn.config?.behavior !== undefined) {
+    declaration.behavior = fn.config.behavior;
+  }
+  if (fn.parametersJsonSchema !== undefined) {
+    declaration.parametersJsonSchema = t.tJsonSchema(fn.parametersJsonSchema);
+  } else if (isStandardSchema(fn.parameters)) {
+    throw new Error(
+      `Function ${fn.name} needs a parametersJsonSchema to declare its Standard Schema parameters.`,
+    );
+  } else if (fn.parameters !== undefined) {
+    // Copied, because `tTool` converts it in place.
+    declaration.parameters = structuredClone(fn.parameters) as types.Schema;
+  }
+  return declaration;
+}
+
+async function validateArgs(
+  fn: FunctionToolOptions<unknown>,
+  args: Record<string, unknown>,
+): Promise<ValidationResult<unknown>> {
+  const schema = fn.parameters ?? fn.parametersJsonSchema;
+  if (isStandardSchema(schema) || isObject(schema)) {
+    return validateValue(schema, args);
+  }
+  return {value: args};
+}
@@ -46,6 +46,7 @@ import type {
 import { RequestOptions } from "./lib/sdks.js";
 import type { Result } from "./types/fp.js";
 import { SDKOptions } from "./lib/config.js";
+import { Fetcher, HTTPClient } from "./lib/http.js";
 import { agentsCreate } from "./funcs/agents-create.js";
 import { agentsDelete } from "./funcs/agents-delete.js";
 import { agentsGet } from "./funcs/agents-get.js";
@@ -88,6 +89,7 @@ export interface GoogleGenAIParentClient {
   getDefaultHeaders?(): Record<string, string>;
   getHeaders?(): Record<string, string> | undefined;
   getAuthHeaders(url?: string): Headers | Promise<Headers>;
+  getFetch?(): Fetcher | undefined;
 }
 
 export function getGoogleGenAIServerURL(
@@ -122,8 +124,14 @@ export function buildGoogleGenAIClient(
   parentClient: GoogleGenAIParentClient,
   options: SDKOptions = {},
 ): GoogleGenAI {
+  const fetcher = parentClient.getFetch?.();
   const sdk = new GoogleGenAI({
     ...options,
+    http_client:
+      options.http_client ??
+      (fetcher
+        ? new HTTPClient({ fetcher: (input, init) => fetcher(input, init) })
+        : undefined),
     api_version: options.api_version ?? getGoogleGenAIAPIVersion(parentClient),
     security:
       options.security ??
@@ -13,6 +13,8 @@ import {
   RequestTimeoutError,
 } from "../models/errors/http-client-errors.js";
 import { GoogleGenAiError } from "../models/errors/google-gen-ai-error.js";
+import { apiErrorFromResponse } from "../../_errors.js";
+import { ApiError } from "../../errors.js";
 
 export class GeminiNextGenAPIClientError extends Error {}
 
@@ -166,7 +168,7 @@ export class RateLimitError extends APIError<429, Headers> {}
 export class InternalServerError extends APIError<number, Headers> {}
 
 export function wrapSDKError(error: unknown): unknown {
-  if (isCompatAPIErrorInstance(error)) {
+  if (isCompatAPIErrorInstance(error) || error instanceof ApiError) {
     return error;
   }
 
@@ -181,15 +183,34 @@ export function wrapSDKError(error: unknown): unknown {
   return error;
 }
 
-function wrapAPIError(error: GoogleGenAiError): APIError {
+/**
+ * Maps an HTTP error to the SDK's `ApiError` hierarchy, so that errors raised
+ * by the Interactions client can be handled like those raised by `models`,
+ * `files` etc. Like every `ApiError`, the error keeps the `ApiError` name; the
+ * fields of the matching compat error are kept for code written against them.
+ */
+function wrapAPIError(error: GoogleGenAiError): unknown {
   const errorPayload = getErrorPayload(error);
-  const wrapped = APIError.generate(
+  const compat = APIError.generate(
     error.statusCode,
     errorPayload,
     error.message,
     error.headers,
   ) as APIError;
+  if (!compat.status) {
+    return compat;
+  }
 
+  // The generated error models drop unknown fields such as `details`, so the
+  // raw body is preferred when it is JSON.
+  const wrapped = apiErrorFromResponse(
+    compat.message,
+    compat.status,
+    parseJsonBody(error.body) ?? errorPayload,
+    error.headers,
+  );
+  defineReadonly(wrapped, "headers", compat.headers);
+  defineReadonly(wrapped, "error", compat.error);
   defineReadonly(wrapped, "body", error.body);
   defineReadonly(wrapped, "contentType", error.contentType);
   defineReadonly(wrapped, "rawResponse", error.rawResponse);
@@ -233,6 +254,15 @@ function getErrorPayload(error: GoogleGenAiError): object | undefined {
     : undefined;
 }
 
+function parseJsonBody(body: string): object | undefined {
+  try {
+    const parsed = JSON.parse(body) as unknown;
+    return parsed && typeof parsed === "object" ? (parsed as object) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 function getObjectProperty(value: unknown, key: string): unknown {
   return value && typeof value === "object"
     ? (value as Record<string, unknown>)[key]
@@ -0,0 +1,173 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * A `fetch` compatible function used to send HTTP requests.
+ *
+ * @remarks
+ * It can be used to route requests through a custom transport, such as an
+ * undici dispatcher, a proxy agent, or an in-process mock or recording
+ * transport.
+ */
+export type FetchFunction = (
+  input: RequestInfo | URL,
+  init?: RequestInit,
+) => Promise<Response>;
+
+/**
+ * The request that is about to be sent to the API, as seen by an
+ * {@link HttpInterceptor}.
+ */
+export interface InterceptedRequest {
+  /** The fully resolved request URL, including query parameters. */
+  url: string;
+  /**
+   * The options the request is sent with. `headers` is always a `Headers`
+   * object, `body` is a JSON string or a `Blob` for file uploads.
+   */
+  init: RequestInit;
+}
+
+/**
+ * Information about the HTTP attempt an {@link HttpInterceptor} is called for.
+ */
+export interface HttpInterceptorContext {
+  /**
+   * Whether the response is a server-sent events stream, as is the case for
+   * `generateContentStream` and `Chat.sendMessageStream`.
+   */
+  stream: boolean;
+  /**
+   * The 1-based attempt number. It is greater than 1 when the request is
+   * being retried according to `HttpOptions.retryOptions`.
+   */
+  attempt: number;
+}
+
+/**
+ * Intercepts every HTTP request sent by the SDK's `ApiClient`, which covers
+ * the models, files, caches, batches, tunings, operations and file search
+ * store modules, as well as file uploads and downloads.
+ *
+ * @remarks
+ * Interceptors are called once per attempt, so a request that is retried
+ * passes through the chain again. Within a chain, each hook is called in the
+ * order the interceptors were registered, and receives the value returned by
+ * the previous one.
+ *
+ * For streamed responses `afterSuccess` receives the raw server-sent events
+ * `Response` before it is parsed into chunks. An interceptor that needs to
+ * observe or rewrite individual chunks can return a new `Response` wrapping
+ * `response.body`.
+ *
+ * @example
+ * ```ts
+ * const ai = new GoogleGenAI({
+ *   apiKey: 'GEMINI_API_KEY',
+ *   interceptors: [
+ *     {
+ *       beforeRequest: (ctx, request) => {
+ *         (request.init.headers as Headers).set('traceparent', traceId());
+ *         return request;
+ *       },
+ *       afterSuccess: (ctx, response) => {
+ *         metrics.record(response.status, ctx.attempt);
+ *         return response;
+ *       },
+ *     },
+ *   ],
+ * });
+ * ```
+ */
+export interface HttpInterceptor {
+  /**
+   * Called before a request is sent. May return a modified or replaced
+   * request, or throw to stop the request from being sent.
+   */
+  beforeRequest?: (
+    context: HttpInterceptorContext,
+    request: InterceptedRequest,
+  ) => InterceptedRequest | Promise<InterceptedRequest>;
+  /**
+   * Called after a successful (2xx) response is received. May return a
+   * modified or replaced response, or throw to reject it.
+   */
+  afterSuccess?: (
+    context: HttpInterceptorContext,
+    response: Response,
+  ) => Response | Promise<Response>;
+  /**
+   * Called when the request could not be sent (`response` is `null`) or the
+   * server returned a non-successful status (`error` is `null`).
+   *
+   * @remarks
+   * Returning a non-null `error` rejects the attempt with that error.
+   * Returning only a `response` lets the SDK handle that response instead,
+   * which allows an interceptor to recover from a failure.
+   */
+  afterError?: (
+    context: HttpInterceptorContext,
+    response: Response | null,
+    error: unknown,
+  ) =>
+    | {response: Response | null; error: unknown}
+    | Promise<{response: Response | null; error: unknown}>;
+}
+
+/**
+ * Sends a request through the given interceptors.
+ *
+ * @param interceptors The interceptors to apply, in registration order.
+ * @param context The context passed to each interceptor hook.
+ * @param request The request to send.
+ * @param send The function that actually performs the request.
+ * @return The response after all interceptors have been applied.
+ */
+export async function sendWithInterceptors(
+  interceptors: HttpInterceptor[],
+  context: HttpInterceptorContext,
+  request: InterceptedRequest,
+  send: (request: InterceptedRequest) => Promise<Response>,
+): Promise<Response> {
+  let req = request;
+  for (const interceptor of interceptors) {
+    if (interceptor.beforeRequest) {
+      req = await interceptor.beforeRequest(context, req);
+    }
+  }
+
+  let response: Response | null = null;
+  let error: unknown = null;
+  try {
+    response = await send(req);
+  } catch (e) {
+    error = e;
+  }
+
+  if (response !== null && response.ok) {
+    for (const interceptor of interceptors) {
+      if (interceptor.afterSuccess) {
+        response = await interceptor.afterSuccess(context, response);
+      }
+    }
+    return response;
+  }
+
+  for (const interceptor of interceptors) {
+    if (interceptor.afterError) {
+      const result = await interceptor.afterError(context, response, error);
+      response = result.response;
+      error = result.error;
+    }
+  }
+  if (error !== null && error !== undefined) {
+    throw error;
+  }
+  if (response === null) {
+    throw new Error('An interceptor discarded both the response and error.');
+  }
+  return response;
+}
@@ -10,7 +10,10 @@
  * @experimental
  */
 
+import * as afc from './_afc.js';
+import type {AutomaticFunctionCallingOptions} from './_afc.js';
 import {ApiClient} from './_api_client.js';
+import {AsyncQueue} from './_async_queue.js';
 import {Auth} from './_auth.js';
 import * as t from './_transformers.js';
 import {WebSocket, WebSocketCallbacks, WebSocketFactory} from './_websocket.js';
@@ -23,6 +26,10 @@ import * as types from './types.js';
 const FUNCTION_RESPONSE_REQUIRES_ID =
   'FunctionResponse request must have an `id` field from the response of a ToolCall.FunctionalCalls in Google AI.';
 
+// Number of unread messages at which a session that is consumed by iteration
+// stops reading from the socket, where the platform supports it.
+const MESSAGE_HIGH_WATER_MARK = 64;
+
 /**
  * Handles incoming messages from the WebSocket.
  *
@@ -64,6 +71,33 @@ async function handleWebSocketMessage(
   onmessage(serverMessage);
 }
 
+/** Callbacks of a session connected with {@link Live.connect}. */
+export interface LiveSessionCallbacks
+  extends Omit<types.LiveCallbacks, 'onmessage'> {
+  /**
+   * Called when a message is received from the server. If not set, the
+   * messages are read by iterating over the `Session`.
+   */
+  onmessage?: (e: types.LiveServerMessage) => void;
+}
+
+/** Config for {@link Live.connect}. */
+export interface LiveSessionConnectConfig extends types.LiveConnectConfig {
+  /** The configuration for automatic function calling of the `CallableTool`s
+   * in `tools`. Handled by the SDK and not sent to the server. */
+  automaticFunctionCalling?: AutomaticFunctionCallingOptions;
+}
+
+/** Parameters for {@link Live.connect}. */
+export interface LiveSessionConnectParameters
+  extends Omit<types.LiveConnectParameters, 'callbacks' | 'config'> {
+  /** Callbacks for the events of the session. If not set, the messages are
+   * read by iterating over the `Session`. */
+  callbacks?: LiveSessionCallbacks;
+  /** Optional configuration parameters for the request. */
+  config?: LiveSessionConnectConfig;
+}
+
 /**
    Live class encapsulates the configuration for live interaction with the
    Generative Language API. It embeds ApiClient for general API settings.
@@ -93,9 +127,24 @@ export class Live {
      future versions.
 
      @remarks
+     Server messages are delivered to `callbacks.onmessage` when it is set.
+     Otherwise they are read by iterating over the returned session, see
+     {@link Session.receiveTurn}.
+
+     When `config.tools` contains `CallableTool`s, tool calls for their
+     functions are run automatically and their responses are sent back to the
+     server, at most `config.automaticFunctionCalling.maximumRemoteCalls`
+     times (10 by default). Tool calls are still delivered as messages. Calls
+     that the server cancels are aborted and their responses are not sent.
+     Set `config.automaticFunctionCalling.disable` to answer tool calls with
+     {@link Session.sendToolResponse} instead. If running the calls fails, for
+     example because a hook of `config.automaticFunctionCalling` throws, the
+     error is reported to `callbacks.onerror`, or thrown when iterating over
+     the session.
 
      @param params - The parameters for establishing a connection to the model.
-     @return A live session.
+     @return A live session. Rejects if the connection closes or reports an
+       error before it is set up.
 
      @example
      ```ts
@@ -127,7 +176,7 @@ export class Live {
      });
      ```
     */
-  async connect(params: types.LiveConnectParameters): Promise<Session> {
+  async connect(params: LiveSessionConnectParameters): Promise<Session> {
     // TODO: b/404946746 - Support per request HTTP options.
     if (params.config && params.config.httpOptions) {
       throw new Error(
@@ -190,7 +239,8 @@ export class Live {
       onopenResolve = resolve;
     });
 
-    const callbacks: types.LiveCallbacks = params.callbacks;
+    const callbacks: LiveSessionCallbacks | undefined = params.callbacks;
+    const onmessage = callbacks?.onmessage;
 
     const onopenAwaitedCallback = function () {
       callbacks?.onopen?.();
@@ -198,12 +248,35 @@ export class Live {
     };
 
     const apiClient = this.apiClient;
+    // Set once the tools are known, before any tool call can arrive.
+    let functionCaller: LiveFunctionCaller | undefined;
     let sessionResolved = false;
     const messageQueue: types.LiveServerMessage[] = [];
+    // Without an `onmessage` callback, messages are read by iterating over
+    // the session.
+    const messages = onmessage
+      ? undefined
+      : new AsyncQueue<types.LiveServerMessage>({
+          highWaterMark: MESSAGE_HIGH_WATER_MARK,
+          onHighWaterMark: () => conn.pause?.(),
+          onDrain: () => conn.resume?.(),
+        });
     let setupCompleteResolve: (value: unknown) => void = () => {};
     const setupCompletePromise = new Promise((resolve) => {
       setupCompleteResolve = resolve;
     });
+    // Rejected when the connection fails before it is set up, so that
+    // `connect` does not wait for it forever.
+    let setupFailedReject: (reason: Error) => void = () => {};
+    const setupFailedPromise = new Promise<never>((_, reject) => {
+      setupFailedReject = reject;
+    });
+    setupFailedPromise.catch(() => {});
+    const failSetup = (reason: Error) => {
+      if (!sessionResolved) {
+        setupFailedReject(reason);
+      }
+    };
 
     const websocketCallbacks: WebSocketCallbacks = {
       onopen: onopenAwaitedCallback,
@@ -215,8 +288,11 @@ export class Live {
               session.setupComplete = msg.setupComplete;
               setupCompleteResolve({});
             }
-            if (sessionResolved) {
-              callbacks.onmessage(msg);
+            functionCaller?.handle(msg, session);
+            if (messages) {
+              messages.push(msg);
+            } else if (sessionResolved) {
+              onmessage?.(msg);
             } else {
               messageQueue.push(msg);
             }
@@ -224,16 +300,30 @@ export class Live {
           event,
         );
       },
-      onerror:
-        callbacks?.onerror ??
-        function (e: ErrorEvent) {
+      onerror: (e: ErrorEvent) => {
+        failSetup(errorFromEvent(e));
+        if (messages) {
+          callbacks?.onerror?.(e);
+          messages.fail(errorFromEvent(e));
+        } else if (callbacks?.onerror) {
+          callbacks.onerror(e);
+        } else {
           void e;
-        },
-      onclose:
-        callbacks?.onclose ??
-        function (e: CloseEvent) {
+        }
+      },
+      onclose: (e: CloseEvent) => {
+        failSetup(
+          new Error('The connection closed before it was set up.', {cause: e}),
+        );
+        if (messages) {
+          callbacks?.onclose?.(e);
+          messages.close();
+        } else if (callbacks?.onclose) {
+          callbacks.onclose(e);
+        } else {
           void e;
-        },
+        }
+      },
     };
 
     const conn = this.webSocketFactory.create(
@@ -243,7 +333,7 @@ export class Live {
     );
     conn.connect();
     // Wait for the websocket to open before sending requests.
-    await onopenPromise;
+    await Promise.race([onopenPromise, setupFailedPromise]);
 
     let transformedModel = t.tModel(this.apiClient, params.model);
     if (
@@ -277,12 +367,18 @@ export class Live {
         'Setting `LiveConnectConfig.generation_config` is deprecated, please set the fields on `LiveConnectConfig` directly. It will be removed in the next major version (not before 7/31/2026).',
       );
     }
+    const afcEnabled = !afc.shouldDisableAfc(params.config);
+    const afcTools = new Map<string, types.CallableTool>();
     const inputTools = params.config?.tools ?? [];
     const convertedTools: types.Tool[] = [];
     for (const tool of inputTools) {
       if (this.isCallableTool(tool)) {
         const callableTool = tool as types.CallableTool;
-        convertedTools.push(await callableTool.tool());
+        const toolDeclaration = await callableTool.tool();
+        convertedTools.push(toolDeclaration);
+        if (afcEnabled) {
+          addAfcTool(afcTools, callableTool, toolDeclaration);
+        }
       } else {
         convertedTools.push(tool as types.Tool);
       }
@@ -293,7 +389,7 @@ export class Live {
     const liveConnectParameters: types.LiveConnectParameters = {
       model: transformedModel,
       config: params.config,
-      callbacks: params.callbacks,
+      callbacks: params.callbacks as types.LiveCallbacks,
     };
     if (this.apiClient.isVertexAI()) {
       clientMessage = converters.liveConnectParametersToVertex(
@@ -307,16 +403,68 @@ export class Live {
       );
     }
     delete clientMessage['config'];
-    const session = new Session(conn, this.apiClient);
+    if (afcTools.size > 0) {
+      functionCaller = new LiveFunctionCaller(
+        afcTools,
+        (error) => websocketCallbacks.onerror(errorEventFrom(error)),
+        params.config?.automaticFunctionCalling,
+        sharedRemoteCallCounters.get(params),
+      );
+    }
+    const session = new Session(conn, this.apiClient, messages, functionCaller);
     conn.send(JSON.stringify(clientMessage));
-    await setupCompletePromise;
+    await Promise.race([setupCompletePromise, setupFailedPromise]);
     sessionResolved = true;
     for (const msg of messageQueue) {
-      callbacks.onmessage(msg);
+      onmessage?.(msg);
     }
     return session;
   }
 
+  /**
+     Establishes a connection like {@link Live.connect}, and keeps it alive
+     by reconnecting when the server announces that it will close the
+     connection or when the connection is lost.
+
+     @experimental
+
+     @remarks
+     Session resumption is enabled for the session, and every reconnect
+     resumes it with the latest handle sent by the server, so the
+     conversation continues where it left off. When the server sends a
+     `goAway` message, the session reconnects as soon as it can be resumed,
+     and at the latest when `goAway.timeLeft` runs out. Messages sent while
+     reconnecting are sent once the new connection is set up.
+
+     Messages are delivered to `callbacks.onmessage` or by iterating over the
+     returned session, as for {@link Live.connect}. `callbacks.onclose` is
+     only called when the session is closed by calling `close` or after
+     reconnecting failed. `automaticFunctionCalling.maximumRemoteCalls`
+     applies to the whole session, not to each connection.
+
+     @param params - The parameters for establishing a connection to the model.
+     @param options - The options for reconnecting.
+     @return A live session that reconnects automatically.
+
+     @example
+     ```ts
+     const session = await ai.live.connectReconnecting(
+       {model: model, config: {responseModalities: [Modality.AUDIO]}},
+       {
+         onReconnect: (event) => {
+           console.log('Reconnect %s after %s', event.type, event.reason);
+         },
+       },
+     );
+     ```
+    */
+  async connectReconnecting(
+    params: LiveSessionConnectParameters,
+    options: LiveReconnectOptions = {},
+  ): Promise<ReconnectingSession> {
+    return ReconnectingSession.connect(this, params, options);
+  }
+
   // TODO: b/416041229 - Abstract this method to a common place.
   private isCallableTool(tool: types.ToolUnion): boolean {
     return 'callTool' in tool && typeof tool.callTool === 'function';
@@ -339,8 +487,76 @@ export class Session {
   constructor(
     readonly conn: WebSocket,
     private readonly apiClient: ApiClient,
+    private readonly messages?: AsyncQueue<types.LiveServerMessage>,
+    private readonly functionCaller?: LiveFunctionCaller,
   ) {}
 
+  /**
+     Iterates over the messages received from the server, including the
+     `setupComplete` message.
+
+     @experimental
+
+     @remarks
+     Only available when the session was connected without a
+     `callbacks.onmessage` callback. Messages are buffered until they are
+     read; when many are left unread, the SDK stops reading from the socket
+     (in Node.js) until they are. Iteration ends when the connection closes,
+     and throws if the connection reports an error. Breaking out of the loop
+     does not close the session, and a later loop picks up where it left off.
+
+     @example
+     ```ts
+     const session = await ai.live.connect({model: model});
+     session.sendClientContent({turns: 'Hello?'});
+     for await (const message of session) {
+       console.log(message.serverContent?.modelTurn?.parts);
+     }
+     ```
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<types.LiveServerMessage> {
+    if (!this.messages) {
+      throw new Error(
+        'This session delivers its messages to `callbacks.onmessage`. ' +
+          'Connect without an `onmessage` callback to iterate over it.',
+      );
+    }
+    while (true) {
+      const result = await this.messages.next();
+      if (result.done) {
+        return;
+      }
+      yield result.value;
+    }
+  }
+
+  /**
+     Yields the messages received from the server until the current model
+     turn is complete, including the message with `turnComplete` set.
+
+     @experimental
+
+     @remarks
+     Has the same requirements as iterating over the session. It also ends
+     when the connection closes.
+
+     @example
+     ```ts
+     session.sendClientContent({turns: 'Tell me a story.'});
+     for await (const message of session.receiveTurn()) {
+       console.log(message.text);
+     }
+     ```
+   */
+  async *receiveTurn(): AsyncGenerator<types.LiveServerMessage> {
+    for await (const message of this) {
+      yield message;
+      if (message.serverContent?.turnComplete) {
+        return;
+      }
+    }
+  }
+
   private tLiveClientContent(
     apiClient: ApiClient,
     params: types.LiveSendClientContentParameters,
@@ -558,10 +774,593 @@ export class Session {
      ```
    */
   close() {
+    this.functionCaller?.abortAll();
     this.conn.close();
   }
 }
 
+/** Options for {@link Live.connectReconnecting}. */
+export interface LiveReconnectOptions {
+  /** Maximum number of consecutive attempts to reconnect before giving up.
+   * If not specified, default to 5. */
+  attempts?: number;
+  /** Delay before retrying a failed reconnect, in fractions of a second.
+   * Doubles after each failed attempt. If not specified, default to 1.0
+   * second. */
+  initialDelay?: number;
+  /** Maximum delay between reconnect attempts, in fractions of a second. If
+   * not specified, default to 60.0 seconds. */
+  maxDelay?: number;
+  /** Called when reconnecting starts, succeeds or fails. */
+  onReconnect?: (event: LiveReconnectEvent) => void;
+}
+
+/** Describes a step of reconnecting a {@link ReconnectingSession}. */
+export interface LiveReconnectEvent {
+  /**
+   * `reconnecting` before each attempt, `reconnected` once the new
+   * connection is set up and `failed` when the last attempt failed.
+   */
+  type: 'reconnecting' | 'reconnected' | 'failed';
+  /**
+   * `goAway` when the server announced that it will close the connection,
+   * `connectionLost` when the connection closed unexpectedly.
+   */
+  reason: 'goAway' | 'connectionLost';
+  /** The 1-based number of the attempt. */
+  attempt: number;
+  /**
+   * Whether the session is resumed with a handle. Without one, for example
+   * when the connection was lost before the server sent a handle, a new
+   * session is started.
+   */
+  resumed: boolean;
+  /** The error of the failed attempt, for `failed` events. */
+  error?: unknown;
+}
+
+const DEFAULT_RECONNECT_ATTEMPTS = 5;
+const DEFAULT_RECONNECT_INITIAL_DELAY = 1;
+const DEFAULT_RECONNECT_MAX_DELAY = 60;
+// How long before `goAway.timeLeft` runs out to reconnect, in milliseconds.
+const GO_AWAY_MARGIN_MS = 1000;
+
+/**
+   A live session that reconnects when the server sends `goAway` or the
+   connection is lost, resuming the conversation with the latest session
+   resumption handle. Created by {@link Live.connectReconnecting}.
+
+   @experimental
+  */
+export class ReconnectingSession {
+  private current!: Session;
+  private handle?: string;
+  private resumable = false;
+  private reconnecting = false;
+  private closed = false;
+  private goAwayPending = false;
+  private goAwayTimer?: ReturnType<typeof setTimeout>;
+  // Resolves the delay between reconnect attempts early when closing.
+  private cancelBackoff?: () => void;
+  // Sessions that were replaced and whose events are ignored.
+  private readonly retired = new WeakSet<Session>();
+  // Sends made while reconnecting, run on the new session.
+  private pendingSends: Array<(session: Session) => void> = [];
+  private readonly messages?: AsyncQueue<types.LiveServerMessage>;
+  private setupDelivered = false;
+  // Counts the automatic function calls across connections, so that
+  // reconnecting does not reset `maximumRemoteCalls`.
+  private readonly remoteCalls: RemoteCallCounter = {count: 0};
+
+  private constructor(
+    private readonly live: Live,
+    private readonly params: LiveSessionConnectParameters,
+    private readonly options: LiveReconnectOptions,
+  ) {
+    this.handle = params.config?.sessionResumption?.handle;
+    if (!params.callbacks?.onmessage) {
+      this.messages = new AsyncQueue<types.LiveServerMessage>({
+        highWaterMark: MESSAGE_HIGH_WATER_MARK,
+        onHighWaterMark: () => this.current?.conn.pause?.(),
+        onDrain: () => this.current?.conn.resume?.(),
+      });
+    }
+  }
+
+  /**
+     Connects a new reconnecting session. Use {@link Live.connectReconnecting}
+     instead.
+
+     @experimental
+   */
+  static async connect(
+    live: Live,
+    params: LiveSessionConnectParameters,
+    options: LiveReconnectOptions = {},
+  ): Promise<ReconnectingSession> {
+    const session = new ReconnectingSession(live, params, options);
+    session.current = await session.open();
+    params.callbacks?.onopen?.();
+    return session;
+  }
+
+  /** The session of the current connection. */
+  get session(): Session {
+    return this.current;
+  }
+
+  /** The latest session resumption handle sent by the server, if any. */
+  get resumptionHandle(): string | undefined {
+    return this.handle;
+  }
+
+  /**
+     Iterates over the messages received from the server across reconnects.
+     See {@link Session} for the requirements.
+
+     @experimental
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<types.LiveServerMessage> {
+    if (!this.messages) {
+      throw new Error(
+        'This session delivers its messages to `callbacks.onmessage`. ' +
+          'Connect without an `onmessage` callback to iterate over it.',
+      );
+    }
+    while (true) {
+      const result = await this.messages.next();
+      if (result.done) {
+        return;
+      }
+      yield result.value;
+    }
+  }
+
+  /**
+     Yields the messages received from the server until the current model
+     turn is complete. See {@link Session.receiveTurn}.
+
+     @experimental
+   */
+  async *receiveTurn(): AsyncGenerator<types.LiveServerMessage> {
+    for await (const message of this) {
+      yield message;
+      if (message.serverContent?.turnComplete) {
+        return;
+      }
+    }
+  }
+
+  /**
+     Sends client content, see {@link Session.sendClientContent}.
+
+     @experimental
+   */
+  sendClientContent(params: types.LiveSendClientContentParameters) {
+    this.send((session) => session.sendClientContent(params));
+  }
+
+  /**
+     Sends realtime input, see {@link Session.sendRealtimeInput}.
+
+     @experimental
+   */
+  sendRealtimeInput(params: types.LiveSendRealtimeInputParameters) {
+    this.send((session) => session.sendRealtimeInput(params));
+  }
+
+  /**
+     Sends function responses, see {@link Session.sendToolResponse}.
+
+     @experimental
+   */
+  sendToolResponse(params: types.LiveSendToolResponseParameters) {
+    this.send((session) => session.sendToolResponse(params));
+  }
+
+  /**
+     Closes the session without reconnecting.
+
+     @experimental
+   */
+  close() {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    clearTimeout(this.goAwayTimer);
+    this.cancelBackoff?.();
+    this.pendingSends = [];
+    if (this.retired.has(this.current)) {
+      // The connection was lost and is being replaced.
+      this.params.callbacks?.onclose?.({} as CloseEvent);
+      this.messages?.close();
+    } else {
+      this.current.close();
+    }
+  }
+
+  private send(action: (session: Session) => void) {
+    if (this.reconnecting) {
+      this.pendingSends.push(action);
+    } else {
+      action(this.current);
+    }
+  }
+
+  // Connects a session that resumes the latest handle. Rejects when the
+  // connection closes before it is set up.
+  private open(): Promise<Session> {
+    const userConfig = this.params.config;
+    // `Live.connect` modifies the config, so every connection gets a copy.
+    const config: LiveSessionConnectConfig = {
+      ...userConfig,
+      tools: userConfig?.tools ? [...userConfig.tools] : undefined,
+      sessionResumption: {
+        ...userConfig?.sessionResumption,
+        handle: this.handle,
+      },
+    };
+    return new Promise((resolve, reject) => {
+      let session: Session | undefined;
+      let failed = false;
+      const callbacks: LiveSessionCallbacks = {
+        onmessage: (message) => {
+          if (session && this.retired.has(session)) {
+            return;
+          }
+          if (message.setupComplete) {
+            // Only the first connection's setup is reported.
+            if (this.setupDelivered) {
+              return;
+            }
+            this.setupDelivered = true;
+          }
+          this.handleMessage(message);
+        },
+        onerror: (e) => {
+          if (!session || !this.retired.has(session)) {
+            this.params.callbacks?.onerror?.(e);
+          }
+        },
+        onclose: (e) => {
+          if (!session) {
+            failed = true;
+            reject(
+              new Error('The connection closed before it was set up.', {
+                cause: e,
+              }),
+            );
+          } else if (!this.retired.has(session)) {
+            this.handleClose(session, e);
+          }
+        },
+      };
+      const connectParams: LiveSessionConnectParameters = {
+        model: this.params.model,
+        config,
+        callbacks,
+      };
+      sharedRemoteCallCounters.set(connectParams, this.remoteCalls);
+      this.live.connect(connectParams).then((connected) => {
+        session = connected;
+        if (!failed) {
+          resolve(connected);
+        }
+      }, reject);
+    });
+  }
+
+  private handleMessage(message: types.LiveServerMessage) {
+    const update = message.sessionResumptionUpdate;
+    if (update) {
+      this.resumable = !!update.resumable && !!update.newHandle;
+      if (this.resumable) {
+        this.handle = update.newHandle;
+        if (this.goAwayPending) {
+          void this.reconnect('goAway');
+        }
+      }
+    }
+    if (message.goAway) {
+      this.handleGoAway(message.goAway);
+    }
+    this.deliver(message);
+  }
+
+  private handleGoAway(goAway: types.LiveServerGoAway) {
+    if (this.closed || this.reconnecting) {
+      return;
+    }
+    if (this.resumable) {
+      void this.reconnect('goAway');
+      return;
+    }
+    // Wait for a handle that can be resumed, but not past the deadline.
+    this.goAwayPending = true;
+    const timeLeft = parseFloat(goAway.timeLeft ?? '0') * 1000 || 0;
+    clearTimeout(this.goAwayTimer);
+    this.goAwayTimer = setTimeout(
+      () => void this.reconnect('goAway'),
+      Math.max(0, timeLeft - GO_AWAY_MARGIN_MS),
+    );
+  }
+
+  private handleClose(session: Session, e: CloseEvent) {
+    if (this.closed) {
+      this.params.callbacks?.onclose?.(e);
+      this.messages?.close();
+      return;
+    }
+    // The server closed the connection, or it was lost.
+    this.retired.add(session);
+    void this.reconnect('connectionLost', e);
+  }
+
+  private async reconnect(
+    reason: LiveReconnectEvent['reason'],
+    closeEvent?: CloseEvent,
+  ) {
+    if (this.reconnecting || this.closed) {
+      return;
+    }
+    this.reconnecting = true;
+    this.goAwayPending = false;
+    clearTimeout(this.goAwayTimer);
+    const previous = this.current;
+    const attempts = this.options.attempts ?? DEFAULT_RECONNECT_ATTEMPTS;
+    let delay = this.options.initialDelay ?? DEFAULT_RECONNECT_INITIAL_DELAY;
+    for (let attempt = 1; ; attempt++) {
+      const resumed = this.handle !== undefined;
+      this.options.onReconnect?.({
+        type: 'reconnecting',
+        reason,
+        attempt,
+        resumed,
+      });
+      try {
+        const session = await this.open();
+        if (this.closed) {
+          this.retired.add(session);
+          session.close();
+          return;
+        }
+        this.current = session;
+        this.reconnecting = false;
+        this.resumable = false;
+        if (!this.retired.has(previous)) {
+          this.retired.add(previous);
+          previous.close();
+        }
+        for (const action of this.pendingSends.splice(0)) {
+          action(session);
+        }
+        this.options.onReconnect?.({
+          type: 'reconnected',
+          reason,
+          attempt,
+          resumed,
+        });
+        return;
+      } catch (error) {
+        if (this.closed) {
+          return;
+        }
+        if (attempt >= attempts) {
+          this.options.onReconnect?.({
+            type: 'failed',
+            reason,
+            attempt,
+            resumed,
+            error,
+          });
+          this.fail(error, closeEvent);
+          return;
+        }
+        await this.backoff(delay);
+        if (this.closed) {
+          return;
+        }
+        delay = Math.min(
+          delay * 2,
+          this.options.maxDelay ?? DEFAULT_RECONNECT_MAX_DELAY,
+        );
+      }
+    }
+  }
+
+  // Waits before the next reconnect attempt, or until the session is closed.
+  private backoff(delay: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.cancelBackoff = undefined;
+        resolve();
+      }, delay * 1000);
+      this.cancelBackoff = () => {
+        this.cancelBackoff = undefined;
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+
+  private fail(error: unknown, closeEvent?: CloseEvent) {
+    this.closed = true;
+    this.reconnecting = false;
+    this.pendingSends = [];
+    if (!this.retired.has(this.current)) {
+      this.retired.add(this.current);
+      this.current.close();
+    }
+    this.params.callbacks?.onclose?.(closeEvent ?? ({} as CloseEvent));
+    this.messages?.fail(error);
+  }
+
+  private deliver(message: types.LiveServerMessage) {
+    if (this.messages) {
+      this.messages.push(message);
+    } else {
+      this.params.callbacks?.onmessage?.(message);
+    }
+  }
+}
+
+// Maps the functions declared by a CallableTool to the tool, as
+// `Models.generateContent` does for automatic function calling.
+function addAfcTool(
+  afcTools: Map<string, types.CallableTool>,
+  callableTool: types.CallableTool,
+  toolDeclaration: types.Tool,
+) {
+  for (const declaration of toolDeclaration.functionDeclarations ?? []) {
+    if (!declaration.name) {
+      throw new Error('Function declaration name is required.');
+    }
+    if (afcTools.has(declaration.name)) {
+      throw new Error(`Duplicate tool declaration name: ${declaration.name}`);
+    }
+    afcTools.set(declaration.name, callableTool);
+  }
+}
+
+// The number of tool call messages that automatic function calling answered.
+interface RemoteCallCounter {
+  count: number;
+}
+
+// Counters that `Live.connect` uses instead of starting a new one, by the
+// parameters of the connection. Set by `ReconnectingSession`.
+const sharedRemoteCallCounters = new WeakMap<
+  LiveSessionConnectParameters,
+  RemoteCallCounter
+>();
+
+/**
+ * Runs the CallableTools of a session for the tool calls sent by the server
+ * and sends their responses back.
+ */
+class LiveFunctionCaller {
+  private readonly maxRemoteCalls: number;
+  private closed = false;
+  // Abort controllers of the running calls, by function call id.
+  private readonly inFlight = new Map<string, AbortController>();
+
+  constructor(
+    private readonly afcTools: Map<string, types.CallableTool>,
+    private readonly onError: (error: unknown) => void,
+    private readonly config?: AutomaticFunctionCallingOptions,
+    private readonly remoteCalls: RemoteCallCounter = {count: 0},
+  ) {
+    this.maxRemoteCalls =
+      config?.maximumRemoteCalls ?? afc.DEFAULT_MAX_REMOTE_CALLS;
+  }
+
+  /**
+   * Starts the calls of a tool call message, and aborts the calls of a tool
+   * call cancellation message. Function calls without a matching
+   * CallableTool are left for the user to answer.
+   */
+  handle(message: types.LiveServerMessage, session: Session) {
+    for (const id of message.toolCallCancellation?.ids ?? []) {
+      this.inFlight.get(id)?.abort();
+    }
+    const functionCalls = (message.toolCall?.functionCalls ?? []).filter(
+      (functionCall) =>
+        functionCall.name !== undefined && this.afcTools.has(functionCall.name),
+    );
+    if (
+      this.closed ||
+      functionCalls.length === 0 ||
+      this.remoteCalls.count >= this.maxRemoteCalls
+    ) {
+      return;
+    }
+    this.remoteCalls.count++;
+    this.callTools(functionCalls, session).catch((error) =>
+      this.onError(error),
+    );
+  }
+
+  /** Aborts all running calls and stops handling new ones. */
+  abortAll() {
+    this.closed = true;
+    for (const controller of this.inFlight.values()) {
+      controller.abort();
+    }
+  }
+
+  private async callTools(
+    functionCalls: types.FunctionCall[],
+    session: Session,
+  ) {
+    const controllers = functionCalls.map((functionCall) => {
+      const controller = new AbortController();
+      if (functionCall.id) {
+        this.inFlight.set(functionCall.id, controller);
+      }
+      return controller;
+    });
+    let results: afc.FunctionCallResult[];
+    try {
+      // The server waits for a response to every call, so failed calls are
+      // answered with their error.
+      results = await afc.callFunctions(
+        functionCalls,
+        this.afcTools,
+        {...this.config, respondWithErrors: true},
+        {
+          iteration: this.remoteCalls.count,
+          getAbortSignal: (functionCall) =>
+            controllers[functionCalls.indexOf(functionCall)].signal,
+        },
+      );
+    } finally {
+      for (const functionCall of functionCalls) {
+        if (functionCall.id) {
+          this.inFlight.delete(functionCall.id);
+        }
+      }
+    }
+    const functionResponses: types.FunctionResponse[] = [];
+    functionCalls.forEach((functionCall, index) => {
+      if (controllers[index].signal.aborted) {
+        return;
+      }
+      for (const part of results[index].parts) {
+        if (part.functionResponse) {
+          functionResponses.push({
+            ...part.functionResponse,
+            name: part.functionResponse.name ?? functionCall.name,
+          });
+        }
+      }
+    });
+    if (functionResponses.length > 0 && !this.closed) {
+      session.sendToolResponse({functionResponses});
+    }
+  }
+}
+
+// Converts the error event of a WebSocket to an error that iterating over a
+// session can throw.
+function errorFromEvent(e: ErrorEvent): Error {
+  if (e?.error instanceof Error) {
+    return e.error;
+  }
+  return new Error(`Live session error: ${e?.message ?? 'unknown error'}`, {
+    cause: e,
+  });
+}
+
+// Wraps an error of the session, such as a failed automatic function call,
+// in an error event for `callbacks.onerror`.
+function errorEventFrom(error: unknown): ErrorEvent {
+  return {
+    error,
+    message: error instanceof Error ? error.message : String(error),
+  } as ErrorEvent;
+}
+
 // Converts an headers object to a "map" object as expected by the WebSocket
 // constructor. We use this as the Auth interface works with Headers objects
 // while the WebSocket constructor takes a map.
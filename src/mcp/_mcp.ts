@@ -7,6 +7,7 @@
 import type {Client as McpClient} from '@modelcontextprotocol/sdk/client/index.js';
 import type {Tool as McpTool} from '@modelcontextprotocol/sdk/types.js';
 
+import type {CallToolOptions} from '../_afc.js';
 import {GOOGLE_API_CLIENT_HEADER} from '../_api_client.js';
 import {mcpToolsToGeminiTool} from '../_transformers.js';
 import {
@@ -87,7 +88,7 @@ export class McpCallableTool implements CallableTool {
   private readonly mcpClients;
   private mcpTools: McpTool[] = [];
   private functionNameToMcpClient: Record<string, McpClient> = {};
-  private readonly config: CallableToolConfig;
+  readonly config: CallableToolConfig;
 
   private constructor(
     mcpClients: McpClient[] = [],
@@ -144,19 +145,27 @@ export class McpCallableTool implements CallableTool {
     return mcpToolsToGeminiTool(this.mcpTools, this.config);
   }
 
-  public async callTool(functionCalls: FunctionCall[]): Promise<Part[]> {
+  public async callTool(
+    functionCalls: FunctionCall[],
+    options?: CallToolOptions,
+  ): Promise<Part[]> {
     await this.initialize();
     const functionCallResponseParts: Part[] = [];
     for (const functionCall of functionCalls) {
       if (functionCall.name! in this.functionNameToMcpClient) {
         const mcpClient = this.functionNameToMcpClient[functionCall.name!];
-        let requestOptions = undefined;
+        let requestOptions:
+          | {timeout?: number; signal?: AbortSignal}
+          | undefined = undefined;
         // TODO: b/424238654 - Add support for finer grained timeout control.
         if (this.config.timeout) {
           requestOptions = {
             timeout: this.config.timeout,
           };
         }
+        if (options?.abortSignal) {
+          requestOptions = {...requestOptions, signal: options.abortSignal};
+        }
         const callToolResponse = await mcpClient.callTool(
           {
             name: functionCall.name!,
@@ -11,10 +11,22 @@ import {ApiClient} from './_api_client.js';
 import * as common from './_common.js';
 import {BaseModule} from './_common.js';
 import * as _internal_types from './_internal_types.js';
+import {StandardSchema, isStandardSchema} from './_schema_validation.js';
+import {FunctionCallAssembler} from './_streamed_function_calls.js';
+import {
+  GenerateContentParsedParameters,
+  GenerateContentStreamParsedParameters,
+  ParsedGenerateContentResponse,
+  ParsedStreamItem,
+  parseResponseWithSchema,
+  parseStreamWithSchema,
+  setResponseSchema,
+} from './_structured_output.js';
 import {tContents, tIsVertexEmbedContentModel} from './_transformers.js';
 import * as converters from './converters/_models_converters.js';
 import * as mcp from './mcp/_mcp.js';
 import {PagedItem, Pager} from './pagers.js';
+import {GenerateContentStream, mergeContents} from './response_stream.js';
 import * as types from './types.js';
 
 export class Models extends BaseModule {
@@ -129,7 +141,9 @@ export class Models extends BaseModule {
     const transformedParams = await this.processParamsMaybeAddMcpUsage(params);
     this.maybeMoveToResponseJsonSchema(params);
     if (!afc.hasCallableTools(params) || afc.shouldDisableAfc(params.config)) {
-      return await this.generateContentInternal(transformedParams);
+      const response = await this.generateContentInternal(transformedParams);
+      setResponseSchema(response, params.config);
+      return response;
     }
 
     const incompatibleToolIndexes = afc.findAfcIncompatibleToolIndexes(params);
@@ -152,22 +166,32 @@ export class Models extends BaseModule {
     const maxRemoteCalls =
       transformedParams.config?.automaticFunctionCalling?.maximumRemoteCalls ??
       afc.DEFAULT_MAX_REMOTE_CALLS;
+    const afcTools = await this.initAfcToolsMap(params);
+    const trace: afc.AutomaticFunctionCallingTrace = {
+      calls: [],
+      usageMetadata: [],
+    };
     let remoteCalls = 0;
     while (remoteCalls < maxRemoteCalls) {
       response = await this.generateContentInternal(transformedParams);
+      if (response.usageMetadata) {
+        trace.usageMetadata.push(response.usageMetadata);
+      }
       if (!response.functionCalls || response.functionCalls!.length === 0) {
         break;
       }
 
       const responseContent: types.Content = response.candidates![0].content!;
-      const functionResponseParts: types.Part[] = [];
-      for (const tool of params.config?.tools ?? []) {
-        if (afc.isCallableTool(tool)) {
-          const callableTool = tool as types.CallableTool;
-          const parts = await callableTool.callTool(response.functionCalls!);
-          functionResponseParts.push(...parts);
-        }
-      }
+      const results = await afc.callFunctions(
+        response.functionCalls,
+        afcTools,
+        params.config?.automaticFunctionCalling,
+        {iteration: remoteCalls + 1},
+      );
+      trace.calls.push(...results.map((result) => result.trace));
+      const functionResponseParts: types.Part[] = results.flatMap(
+        (result) => result.parts,
+      );
 
       remoteCalls++;
 
@@ -191,9 +215,149 @@ export class Models extends BaseModule {
       response!.automaticFunctionCallingHistory =
         automaticFunctionCallingHistory;
     }
+    afc.setAutomaticFunctionCallingTrace(response!, trace);
+    if (trace.usageMetadata.length > 1) {
+      // Include the tokens of the intermediate model responses.
+      response!.usageMetadata = afc.sumUsageMetadata(trace.usageMetadata);
+    }
+    setResponseSchema(response!, params.config);
     return response!;
   };
 
+  /**
+   * Generates content and parses the JSON output of the model, validated
+   * against a schema.
+   *
+   * @remarks
+   * Sets the `responseMimeType` to `application/json` unless the config sets
+   * it. When the output does not match the schema, the validation error can
+   * be sent back to the model to get a corrected response, see
+   * `maxValidationRetries`.
+   *
+   * @param params - The parameters for generating content, with the schema of
+   *     the output.
+   * @return The response, with its parsed output in `parsed`.
+   * @throws StructuredOutputError if the output is not valid JSON or does not
+   *     match the schema after all retries.
+   *
+   * @example
+   * ```ts
+   * import {z} from 'zod';
+   * import {zodToJsonSchema} from 'zod-to-json-schema';
+   *
+   * const recipe = z.object({name: z.string(), steps: z.array(z.string())});
+   * const response = await ai.models.generateContentParsed({
+   *   model: 'gemini-2.5-flash',
+   *   contents: 'Give me a recipe for pancakes.',
+   *   config: {responseJsonSchema: zodToJsonSchema(recipe)},
+   *   schema: recipe,
+   *   maxValidationRetries: 2,
+   * });
+   * console.log(response.parsed.steps);
+   * ```
+   */
+  generateContentParsed = async <T>(
+    params: GenerateContentParsedParameters<T>,
+  ): Promise<ParsedGenerateContentResponse<T>> => {
+    const {schema, maxValidationRetries = 0, ...request} = params;
+    const config = this.structuredOutputConfig(request.config, schema);
+    let contents = tContents(request.contents);
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.generateContent({
+        ...request,
+        contents,
+        config,
+      });
+      try {
+        const parsed = await parseResponseWithSchema(response.text, schema);
+        // Shadows the `parsed` getter, which only knows JSON schemas.
+        Object.defineProperty(response, 'parsed', {value: parsed});
+        return response as ParsedGenerateContentResponse<T>;
+      } catch (e) {
+        if (attempt >= maxValidationRetries) {
+          throw e;
+        }
+        contents = [
+          ...contents,
+          response.candidates?.[0]?.content ?? {
+            role: 'model',
+            parts: [{text: response.text ?? ''}],
+          },
+          {
+            role: 'user',
+            parts: [
+              {
+                text: `${(e as Error).message}\nRespond again with JSON that matches the schema.`,
+              },
+            ],
+          },
+        ];
+      }
+    }
+  };
+
+  /**
+   * Generates content in a stream and parses the JSON output of the model as
+   * it arrives, then validates the whole output against a schema.
+   *
+   * @remarks
+   * Each chunk yields the output received so far, parsed as partial JSON, so
+   * that it can be shown before the stream ends. The last item, yielded once
+   * the stream has ended, holds the whole output validated against the
+   * schema. Sets the `responseMimeType` to `application/json` unless the
+   * config sets it.
+   *
+   * @param params - The parameters for generating content, with the schema of
+   *     the output.
+   * @return The partial outputs, then the validated output.
+   * @throws StructuredOutputError from the stream if the whole output is not
+   *     valid JSON or does not match the schema.
+   *
+   * @example
+   * ```ts
+   * const stream = await ai.models.generateContentStreamParsed<Recipe>({
+   *   model: 'gemini-2.5-flash',
+   *   contents: 'Give me a recipe for pancakes.',
+   *   schema: recipeJsonSchema,
+   * });
+   * for await (const {partial, parsed} of stream) {
+   *   render(parsed ?? partial);
+   * }
+   * ```
+   */
+  generateContentStreamParsed = async <T>(
+    params: GenerateContentStreamParsedParameters<T>,
+  ): Promise<AsyncGenerator<ParsedStreamItem<T>>> => {
+    const {schema, ...request} = params;
+    const stream = await this.generateContentStream({
+      ...request,
+      config: this.structuredOutputConfig(request.config, schema),
+    });
+    return parseStreamWithSchema(stream, schema);
+  };
+
+  /**
+   * Returns the config to request JSON output, sending a JSON schema unless
+   * the config already sets a response schema.
+   */
+  private structuredOutputConfig(
+    config: types.GenerateContentConfig | undefined,
+    schema: StandardSchema | Record<string, unknown>,
+  ): types.GenerateContentConfig {
+    const structuredConfig: types.GenerateContentConfig = {
+      ...config,
+      responseMimeType: config?.responseMimeType ?? 'application/json',
+    };
+    if (
+      !isStandardSchema(schema) &&
+      !structuredConfig.responseSchema &&
+      !structuredConfig.responseJsonSchema
+    ) {
+      structuredConfig.responseJsonSchema = schema;
+    }
+    return structuredConfig;
+  }
+
   /**
    * This logic is needed for GenerateContentConfig only.
    * Previously we made GenerateContentConfig.responseSchema field to accept
@@ -255,10 +419,62 @@ export class Models extends BaseModule {
    *   console.log(chunk);
    * }
    * ```
+   *
+   * @example
+   * ```ts
+   * const stream = await ai.models.generateContentStream({
+   *   model: 'gemini-2.0-flash',
+   *   contents: 'why is the sky blue?',
+   * });
+   * stream.on('text', (delta) => process.stdout.write(delta));
+   * const response = await stream.finalResponse();
+   * ```
    */
   generateContentStream = async (
     params: types.GenerateContentParameters,
-  ): Promise<AsyncGenerator<types.GenerateContentResponse>> => {
+  ): Promise<GenerateContentStream> => {
+    // Aborting the stream cancels the request, as does the abort signal of
+    // the config.
+    const controller = new AbortController();
+    const abortSignal = params.config?.abortSignal;
+    const onAbort = () => controller.abort(abortSignal?.reason);
+    if (abortSignal?.aborted) {
+      onAbort();
+    } else {
+      abortSignal?.addEventListener('abort', onAbort, {once: true});
+    }
+    // The signal may be reused for many requests, stop following it once the
+    // stream has ended, failed or been aborted.
+    const stopFollowing = () =>
+      abortSignal?.removeEventListener('abort', onAbort);
+    let stream: AsyncGenerator<types.GenerateContentResponse>;
+    try {
+      stream = await this.startContentStream({
+        ...params,
+        config: {...params.config, abortSignal: controller.signal},
+      });
+    } catch (e) {
+      stopFollowing();
+      throw e;
+    }
+    return new GenerateContentStream(
+      (async function* () {
+        try {
+          yield* stream;
+        } finally {
+          stopFollowing();
+        }
+      })(),
+      (reason) => {
+        stopFollowing();
+        controller.abort(reason);
+      },
+    );
+  };
+
+  private async startContentStream(
+    params: types.GenerateContentParameters,
+  ): Promise<AsyncGenerator<types.GenerateContentResponse>> {
     this.maybeMoveToResponseJsonSchema(params);
     if (afc.shouldDisableAfc(params.config)) {
       const transformedParams =
@@ -277,25 +493,8 @@ export class Models extends BaseModule {
       );
     }
 
-    // With tool compatibility confirmed, validate that the configuration are
-    // compatible with each other and raise an error if invalid.
-    const streamFunctionCall =
-      params?.config?.toolConfig?.functionCallingConfig
-        ?.streamFunctionCallArguments;
-    const disableAfc = params?.config?.automaticFunctionCalling?.disable;
-
-    if (streamFunctionCall && !disableAfc) {
-      throw new Error(
-        "Running in streaming mode with 'streamFunctionCallArguments' enabled, " +
-          'this feature is not compatible with automatic function calling (AFC). ' +
-          "Please set 'config.automaticFunctionCalling.disable' to true to disable AFC " +
-          "or leave 'config.toolConfig.functionCallingConfig.streamFunctionCallArguments' " +
-          'to be undefined or set to false to disable streaming function call arguments feature.',
-      );
-    }
-
     return await this.processAfcStream(params);
-  };
+  }
 
   /**
    * Transforms the CallableTools in the parameters to be simply Tools, it
@@ -396,36 +595,39 @@ export class Models extends BaseModule {
         const response =
           await models.generateContentStreamInternal(transformedParams);
 
-        const functionResponses: types.Part[] = [];
+        const functionCalls: types.FunctionCall[] = [];
         const responseContents: types.Content[] = [];
+        // Calls whose arguments are streamed are only run once complete.
+        const assembler = new FunctionCallAssembler();
 
         for await (const chunk of response) {
           yield chunk;
           if (chunk.candidates && chunk.candidates[0]?.content) {
             responseContents.push(chunk.candidates[0].content);
             for (const part of chunk.candidates[0].content.parts ?? []) {
-              if (remoteCallCount < maxRemoteCalls && part.functionCall) {
-                if (!part.functionCall.name) {
+              const functionCall =
+                part.functionCall && assembler.add(part.functionCall);
+              if (remoteCallCount < maxRemoteCalls && functionCall) {
+                if (!functionCall.name) {
                   throw new Error(
                     'Function call name was not returned by the model.',
                   );
                 }
-                if (!afcTools.has(part.functionCall.name)) {
-                  throw new Error(
-                    `Automatic function calling was requested, but not all the tools the model used implement the CallableTool interface. Available tools: ${afcTools.keys()}, missing tool: ${
-                      part.functionCall.name
-                    }`,
-                  );
-                } else {
-                  const responseParts = await afcTools
-                    .get(part.functionCall.name)!
-                    .callTool([part.functionCall]);
-                  functionResponses.push(...responseParts);
-                }
+                functionCalls.push(functionCall);
               }
             }
           }
         }
+        // The calls are run once the model response is complete, so that
+        // independent calls can run in parallel.
+        const functionResponses: types.Part[] = (
+          await afc.callFunctions(
+            functionCalls,
+            afcTools,
+            params.config?.automaticFunctionCalling,
+            {iteration: remoteCallCount + 1},
+          )
+        ).flatMap((result) => result.parts);
 
         if (functionResponses.length > 0) {
           wereFunctionsCalled = true;
@@ -442,7 +644,7 @@ export class Models extends BaseModule {
           yield typedResponseChunk;
 
           const newContents: types.Content[] = [];
-          newContents.push(...responseContents);
+          newContents.push(...mergeContents(responseContents));
           newContents.push({
             role: 'user',
             parts: functionResponses,
@@ -646,7 +848,7 @@ export class Models extends BaseModule {
    *  Generates videos based on a text description and configuration.
    *
    * @param params - The parameters for generating videos.
-   * @return A Promise<GenerateVideosOperation> which allows you to track the progress and eventually retrieve the generated videos using the operations.get method.
+   * @return A Promise<GenerateVideosOperation> which allows you to track the progress and eventually retrieve the generated videos using the operations.wait or operations.get method.
    *
    * @example
    * ```ts
@@ -659,12 +861,9 @@ export class Models extends BaseModule {
    *    numberOfVideos: 1
    * });
    *
-   * while (!operation.done) {
-   *   await new Promise(resolve => setTimeout(resolve, 10000));
-   *   operation = await ai.operations.getVideosOperation({operation: operation});
-   * }
+   * const completed = await ai.operations.wait(operation, {pollInterval: 10});
    *
-   * console.log(operation.response?.generatedVideos?.[0]?.video?.uri);
+   * console.log(completed.response?.generatedVideos?.[0]?.video?.uri);
    * ```
    */
 
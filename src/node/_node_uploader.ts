@@ -7,18 +7,22 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 
 import {ApiClient} from '../_api_client.js';
-import {FileStat, Uploader} from '../_uploader.js';
+import {
+  FileStat,
+  UploadOptions,
+  UploadStream,
+  Uploader,
+  isUploadStream,
+} from '../_uploader.js';
 import * as _converters from '../converters/_operations_converters.js';
 import {
-  DELAY_MULTIPLIER,
-  INITIAL_RETRY_DELAY_MS,
-  MAX_CHUNK_SIZE,
-  MAX_RETRY_COUNT,
   X_GOOG_UPLOAD_STATUS_HEADER_FIELD,
   getBlobStat,
-  sleep,
   uploadBlob,
   uploadBlobToFileSearchStore,
+  uploadChunks,
+  uploadStream,
+  uploadStreamToFileSearchStore,
 } from '../cross/_cross_uploader.js';
 import {
   File,
@@ -41,10 +45,11 @@ export class NodeUploader implements Uploader {
   }
 
   async upload(
-    file: string | Blob,
+    file: string | Blob | UploadStream,
     uploadUrl: string,
     apiClient: ApiClient,
     httpOptions?: HttpOptions,
+    options?: UploadOptions,
   ): Promise<File> {
     if (typeof file === 'string') {
       return await this.uploadFileFromPath(
@@ -52,17 +57,21 @@ export class NodeUploader implements Uploader {
         uploadUrl,
         apiClient,
         httpOptions,
+        options,
       );
+    } else if (isUploadStream(file)) {
+      return uploadStream(file, uploadUrl, apiClient, httpOptions, options);
     } else {
-      return uploadBlob(file, uploadUrl, apiClient, httpOptions);
+      return uploadBlob(file, uploadUrl, apiClient, httpOptions, options);
     }
   }
 
   async uploadToFileSearchStore(
-    file: string | Blob,
+    file: string | Blob | UploadStream,
     uploadUrl: string,
     apiClient: ApiClient,
     httpOptions?: HttpOptions,
+    options?: UploadOptions,
   ): Promise<UploadToFileSearchStoreOperation> {
     if (typeof file === 'string') {
       return await this.uploadFileToFileSearchStoreFromPath(
@@ -70,6 +79,15 @@ export class NodeUploader implements Uploader {
         uploadUrl,
         apiClient,
         httpOptions,
+        options,
+      );
+    } else if (isUploadStream(file)) {
+      return uploadStreamToFileSearchStore(
+        file,
+        uploadUrl,
+        apiClient,
+        httpOptions,
+        options,
       );
     } else {
       return uploadBlobToFileSearchStore(
@@ -77,6 +95,7 @@ export class NodeUploader implements Uploader {
         uploadUrl,
         apiClient,
         httpOptions,
+        options,
       );
     }
   }
@@ -183,12 +202,14 @@ export class NodeUploader implements Uploader {
     uploadUrl: string,
     apiClient: ApiClient,
     httpOptions?: HttpOptions,
+    options?: UploadOptions,
   ): Promise<File> {
     const response = await this.uploadFileFromPathInternal(
       file,
       uploadUrl,
       apiClient,
       httpOptions,
+      options,
     );
     const responseJson = (await response?.json()) as Record<
       string,
@@ -205,12 +226,14 @@ export class NodeUploader implements Uploader {
     uploadUrl: string,
     apiClient: ApiClient,
     httpOptions?: HttpOptions,
+    options?: UploadOptions,
   ): Promise<UploadToFileSearchStoreOperation> {
     const response = await this.uploadFileFromPathInternal(
       file,
       uploadUrl,
       apiClient,
       httpOptions,
+      options,
     );
     const responseJson =
       (await response?.json()) as UploadToFileSearchStoreOperation;
@@ -229,23 +252,8 @@ export class NodeUploader implements Uploader {
     uploadUrl: string,
     apiClient: ApiClient,
     httpOptions?: HttpOptions,
+    options?: UploadOptions,
   ): Promise<HttpResponse> {
-    let finalUrl = uploadUrl;
-    const effectiveBaseUrl =
-      httpOptions?.baseUrl || apiClient.clientOptions.httpOptions?.baseUrl;
-    if (effectiveBaseUrl) {
-      const baseUri = new URL(effectiveBaseUrl);
-      const uploadUri = new URL(uploadUrl);
-      uploadUri.protocol = baseUri.protocol;
-      uploadUri.host = baseUri.host;
-      uploadUri.port = baseUri.port;
-      finalUrl = uploadUri.toString();
-    }
-
-    let fileSize = 0;
-    let offset = 0;
-    let response: HttpResponse = new HttpResponse(new Response());
-    let uploadCommand = 'upload';
     let fileHandle: fs.FileHandle | undefined;
     const fileName = path.basename(file);
     try {
@@ -253,73 +261,31 @@ export class NodeUploader implements Uploader {
       if (!fileHandle) {
         throw new Error(`Failed to open file`);
       }
-      fileSize = (await fileHandle.stat()).size;
-      while (offset < fileSize) {
-        const chunkSize = Math.min(MAX_CHUNK_SIZE, fileSize - offset);
-        if (offset + chunkSize >= fileSize) {
-          uploadCommand += ', finalize';
-        }
-        const buffer = new Uint8Array(chunkSize);
-        const {bytesRead: bytesRead} = await fileHandle.read(
-          buffer,
-          0,
-          chunkSize,
-          offset,
-        );
-
-        if (bytesRead !== chunkSize) {
-          throw new Error(
-            `Failed to read ${chunkSize} bytes from file at offset ${
-              offset
-            }. bytes actually read: ${bytesRead}`,
+      const handle = fileHandle;
+      const fileSize = (await handle.stat()).size;
+      return await uploadChunks(
+        fileSize,
+        async (offset, chunkSize) => {
+          const buffer = new Uint8Array(chunkSize);
+          const {bytesRead: bytesRead} = await handle.read(
+            buffer,
+            0,
+            chunkSize,
+            offset,
           );
-        }
-
-        const chunk = new Blob([buffer]);
-        let retryCount = 0;
-        let currentDelayMs = INITIAL_RETRY_DELAY_MS;
-        while (retryCount < MAX_RETRY_COUNT) {
-          const mergedHeaders = {
+          return new Blob([buffer.subarray(0, bytesRead)]);
+        },
+        uploadUrl,
+        apiClient,
+        {
+          ...httpOptions,
+          headers: {
             ...(httpOptions?.headers || {}),
-            'X-Goog-Upload-Command': uploadCommand,
-            'X-Goog-Upload-Offset': String(offset),
-            'Content-Length': String(bytesRead),
             'X-Goog-Upload-File-Name': fileName,
-          };
-
-          response = await apiClient.request({
-            path: '',
-            body: chunk,
-            httpMethod: 'POST',
-            httpOptions: {
-              ...httpOptions,
-              apiVersion: '',
-              baseUrl: finalUrl,
-              headers: mergedHeaders,
-            },
-          });
-          if (response?.headers?.[X_GOOG_UPLOAD_STATUS_HEADER_FIELD]) {
-            break;
-          }
-          retryCount++;
-          await sleep(currentDelayMs);
-          currentDelayMs = currentDelayMs * DELAY_MULTIPLIER;
-        }
-        offset += bytesRead;
-        // The `x-goog-upload-status` header field can be `active`, `final` and
-        //`cancelled` in resposne.
-        if (
-          response?.headers?.[X_GOOG_UPLOAD_STATUS_HEADER_FIELD] !== 'active'
-        ) {
-          break;
-        }
-        if (fileSize <= offset) {
-          throw new Error(
-            'All content has been uploaded, but the upload status is not finalized.',
-          );
-        }
-      }
-      return response;
+          },
+        },
+        options,
+      );
     } finally {
       // Ensure the file handle is always closed
       if (fileHandle) {
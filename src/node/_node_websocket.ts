@@ -55,4 +55,12 @@ export class NodeWebSocket implements WebSocket {
 
     this.ws.close();
   }
+
+  pause() {
+    this.ws?.pause();
+  }
+
+  resume() {
+    this.ws?.resume();
+  }
 }
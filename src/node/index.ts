@@ -4,14 +4,77 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+export {getAutomaticFunctionCallingTrace} from '../_afc.js';
+export type {
+  AutomaticFunctionCallEvent,
+  AutomaticFunctionCallTrace,
+  AutomaticFunctionCallingOptions,
+  AutomaticFunctionCallingTrace,
+  CallToolOptions,
+} from '../_afc.js';
+export type {
+  ClientHttpOptions,
+  HttpRetryEvent,
+  RetryOptions,
+} from '../_api_client.js';
 export {setDefaultBaseUrls} from '../_base_url.js';
 export type {BaseUrlParameters} from '../_base_url.js';
+export type {
+  BatchJobResult,
+  BatchJobResultsConfig,
+  BatchJobResultsReader,
+} from '../_batch_results.js';
+export type {
+  DownloadFileContentConfig,
+  DownloadFileContentParameters,
+  DownloadProgress,
+} from '../_download.js';
+export {parsePartialJson} from '../_partial_json.js';
+export type {PollingConfig} from '../_polling.js';
+export type {
+  StandardSchema,
+  StandardSchemaResult,
+} from '../_schema_validation.js';
+export {parseResponse} from '../_structured_output.js';
+export type {
+  DeepPartial,
+  GenerateContentParsedParameters,
+  GenerateContentStreamParsedParameters,
+  ParsedGenerateContentResponse,
+  ParsedStreamItem,
+} from '../_structured_output.js';
+export type {
+  ResumableUploadConfig,
+  ResumableUploadFileConfig,
+  ResumableUploadFileParameters,
+  ResumableUploadToFileSearchStoreConfig,
+  ResumableUploadToFileSearchStoreParameters,
+  UploadFileSource,
+  UploadProgress,
+} from '../_uploader.js';
+export * from '../batch_jobs.js';
 export * from '../batches.js';
 export * from '../caches.js';
+export * from '../chat_history_store.js';
+export {
+  slidingWindowHistory,
+  summarizingHistory,
+  tokenBudgetHistory,
+} from '../chat_history_strategies.js';
+export type {
+  ChatHistoryContext,
+  ChatHistoryStrategy,
+  SlidingWindowHistoryOptions,
+  SummarizingHistoryOptions,
+  TokenBudgetHistoryOptions,
+} from '../chat_history_strategies.js';
 export * from '../chats.js';
 export type {GoogleGenAIOptions} from '../client.js';
+export {ContextCache} from '../context_cache.js';
+export type {ContextCacheConfig} from '../context_cache.js';
 export * from '../errors.js';
 export {Files} from '../files.js';
+export * from '../function_tool.js';
 export type {SseMessage, Stream} from '../gaos/lib/event-streams.js';
 export type {
   Agents,
@@ -20,12 +83,21 @@ export type {
   Triggers,
   Webhooks,
 } from '../gaos/resources.js';
+export type {
+  FetchFunction,
+  HttpInterceptor,
+  HttpInterceptorContext,
+  InterceptedRequest,
+} from '../interceptors.js';
 export * from '../live.js';
 export {mcpToTool} from '../mcp/_mcp.js';
 export {Models} from '../models.js';
 export type {LiveMusicSession} from '../music.js';
 export {Operations} from '../operations.js';
 export {PagedItem, Pager} from '../pagers.js';
+export type {RateLimitOptions, RateLimitRequest} from '../rate_limiter.js';
+export * from '../response_stream.js';
 export {Tokens} from '../tokens.js';
 export * from '../types.js';
+export {FileChatHistoryStore} from './node_chat_history_store.js';
 export * from './node_client.js';
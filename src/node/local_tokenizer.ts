@@ -11,12 +11,12 @@
  * without requiring users to manually create a platform instance.
  */
 
+import type {LocalCountTokensResult} from '../cross/tokenizer/_interfaces.js';
 import {LocalTokenizer as BaseLocalTokenizer} from '../cross/tokenizer/_local_tokenizer_impl.js';
 import type {
   ComputeTokensResult,
   ContentListUnion,
   CountTokensConfig,
-  CountTokensResult,
 } from '../types.js';
 import {NodeTokenizerPlatform} from './_node_tokenizer_platform.js';
 
@@ -55,12 +55,13 @@ export class LocalTokenizer {
    *
    * @param contents The contents to tokenize
    * @param config Optional configuration for counting tokens
-   * @return A CountTokensResult containing the total number of tokens
+   * @return A LocalCountTokensResult containing the total number of tokens
+   *     and the tokens of each modality
    */
   async countTokens(
     contents: ContentListUnion,
     config?: CountTokensConfig,
-  ): Promise<CountTokensResult> {
+  ): Promise<LocalCountTokensResult> {
     return this.baseTokenizer.countTokens(contents, config);
   }
 
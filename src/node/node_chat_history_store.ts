@@ -0,0 +1,65 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import type {ChatHistoryStore} from '../chat_history_store.js';
+import type {ChatSnapshot} from '../chats.js';
+
+/**
+ * A {@link ChatHistoryStore} that saves each session as a JSON file in a
+ * directory. This store is only available in Node.js environments.
+ */
+export class FileChatHistoryStore implements ChatHistoryStore {
+  /**
+   * @param directory The directory to store the sessions in. It is created
+   *     when the first session is saved.
+   */
+  constructor(private readonly directory: string) {}
+
+  async load(sessionId: string): Promise<ChatSnapshot | undefined> {
+    let data: string;
+    try {
+      data = await fs.readFile(this.filePath(sessionId), 'utf8');
+    } catch (e) {
+      if (isNotFoundError(e)) {
+        return undefined;
+      }
+      throw e;
+    }
+    return JSON.parse(data) as ChatSnapshot;
+  }
+
+  async save(sessionId: string, snapshot: ChatSnapshot): Promise<void> {
+    await fs.mkdir(this.directory, {recursive: true});
+    const filePath = this.filePath(sessionId);
+    // Write to a temporary file first so that a crash never leaves a
+    // truncated snapshot behind.
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(snapshot), 'utf8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    try {
+      await fs.unlink(this.filePath(sessionId));
+    } catch (e) {
+      if (!isNotFoundError(e)) {
+        throw e;
+      }
+    }
+  }
+
+  private filePath(sessionId: string): string {
+    // Encode the id so that it cannot point outside of the directory.
+    return path.join(this.directory, `${encodeURIComponent(sessionId)}.json`);
+  }
+}
+
+function isNotFoundError(e: unknown): boolean {
+  return (e as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
@@ -6,9 +6,9 @@
 
 import {GoogleAuthOptions} from 'google-auth-library';
 
-import {ApiClient} from '../_api_client.js';
+import {ApiClient, ClientHttpOptions} from '../_api_client.js';
 import {getBaseUrl} from '../_base_url.js';
-import {Batches} from '../batches.js';
+import {BatchJobs} from '../batch_jobs.js';
 import {Caches} from '../caches.js';
 import {Chats} from '../chats.js';
 import {GoogleGenAIOptions} from '../client.js';
@@ -38,7 +38,6 @@ import {NodeWebSocketFactory} from '../node/_node_websocket.js';
 import {Operations} from '../operations.js';
 import {Tokens} from '../tokens.js';
 import {Tunings} from '../tunings.js';
-import {HttpOptions} from '../types.js';
 
 import {NodeUploader} from './_node_uploader.js';
 import {NodeFiles} from './node_files.js';
@@ -135,10 +134,10 @@ export class GoogleGenAI {
   private readonly project?: string;
   private readonly location?: string;
   private readonly apiVersion?: string;
-  private readonly httpOptions?: HttpOptions;
+  private readonly httpOptions?: ClientHttpOptions;
   readonly models: Models;
   readonly live: Live;
-  readonly batches: Batches;
+  readonly batches: BatchJobs;
   readonly chats: Chats;
   readonly caches: Caches;
   readonly files: Files;
@@ -332,12 +331,15 @@ export class GoogleGenAI {
       vertexai: this.vertexai,
       httpOptions: this.httpOptions,
       userAgentExtra: LANGUAGE_LABEL_PREFIX + process.version,
+      interceptors: options.interceptors,
+      fetch: options.fetch,
+      rateLimit: options.rateLimit,
       uploader: new NodeUploader(),
       downloader: new NodeDownloader(),
     });
     this.models = new Models(this.apiClient);
     this.live = new Live(this.apiClient, auth, new NodeWebSocketFactory());
-    this.batches = new Batches(this.apiClient);
+    this.batches = new BatchJobs(this.apiClient);
     this.chats = new Chats(this.models, this.apiClient);
     this.caches = new Caches(this.apiClient);
     this.files = new NodeFiles(this.apiClient);
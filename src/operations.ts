@@ -9,7 +9,9 @@
 import {ApiClient} from './_api_client.js';
 import * as common from './_common.js';
 import {BaseModule} from './_common.js';
+import {PollingConfig, pollUntilDone} from './_polling.js';
 import * as converters from './converters/_operations_converters.js';
+import {OperationError, OperationTimeoutError} from './errors.js';
 import * as types from './types.js';
 
 export class Operations extends BaseModule {
@@ -93,7 +95,7 @@ export class Operations extends BaseModule {
       const rawOperation = await this.fetchPredictVideosOperationInternal({
         operationName: operation.name,
         resourceName: resourceName,
-        config: {httpOptions: httpOptions},
+        config: {httpOptions: httpOptions, abortSignal: config?.abortSignal},
       });
 
       return operation._fromAPIResponse({
@@ -112,6 +114,58 @@ export class Operations extends BaseModule {
     }
   }
 
+  /**
+   * Waits for a long-running operation to complete, polling its status.
+   *
+   * @remarks
+   * Works for any operation, such as the `GenerateVideosOperation` returned
+   * by `models.generateVideos` or the `ImportFileOperation` returned by
+   * `fileSearchStores.importFile`. The delay between polls grows by the
+   * `backoff` of the config after each poll.
+   *
+   * @param operation The operation to wait for.
+   * @param config The polling configuration.
+   * @return The completed operation, of the same type as the given one.
+   * @throws OperationError if the operation completes with an error.
+   * @throws OperationTimeoutError if the operation is not complete by the
+   *     timeout of the config.
+   *
+   * @example
+   * ```ts
+   * const operation = await ai.operations.wait(
+   *   await ai.models.generateVideos({
+   *     model: 'veo-2.0-generate-001',
+   *     prompt: 'A neon hologram of a cat driving at top speed',
+   *   }),
+   *   {pollInterval: 10, onProgress: (op) => console.log(op.metadata)},
+   * );
+   * console.log(operation.response?.generatedVideos?.[0]?.video?.uri);
+   * ```
+   */
+  async wait<T, U extends types.Operation<T>>(
+    operation: U,
+    config?: PollingConfig<U>,
+  ): Promise<U> {
+    const completed = await pollUntilDone(
+      operation,
+      async (current) =>
+        (await this.get<T, U>({
+          operation: current,
+          config: {
+            httpOptions: config?.httpOptions,
+            abortSignal: config?.abortSignal,
+          },
+        })) as U,
+      (current) => current.done === true,
+      config,
+      (current, timeout) => new OperationTimeoutError(current, timeout),
+    );
+    if (completed.error) {
+      throw new OperationError(completed);
+    }
+    return completed;
+  }
+
   private async getVideosOperationInternal(
     params: types.GetOperationParameters,
   ): Promise<Record<string, unknown>> {
@@ -0,0 +1,300 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const WINDOW_MS = 60_000;
+
+/**
+ * Partial definition of the NodeJS.Timeout, as in `_api_client.ts`.
+ * https://nodejs.org/api/timers.html#timeoutunref
+ */
+declare interface NodeJSTimeout {
+  unref(): this;
+}
+
+/**
+ * The request a {@link RateLimitOptions.estimateTokens} function estimates
+ * the token count of.
+ */
+export interface RateLimitRequest {
+  /** The model the request is sent to, for example `gemini-2.5-flash`, or
+   * `undefined` for requests that do not target a model. */
+  model?: string;
+  /** The URL path of the request, relative to the API version. */
+  path: string;
+  /** The parsed JSON request body, in the REST API format. */
+  body?: Record<string, unknown>;
+}
+
+/**
+ * Options for the client-side rate limiter, which delays requests so that
+ * they stay within the given quotas instead of being rejected with a 429.
+ *
+ * @remarks
+ * The limiter applies to every request the client sends through its
+ * `ApiClient`, including retries. When the server still answers with a 429
+ * that carries a retry delay, requests to the same model are held back until
+ * that delay has passed.
+ *
+ * @example
+ * ```ts
+ * import {LocalTokenizer} from '@google/genai/tokenizer/node';
+ *
+ * const tokenizer = new LocalTokenizer('gemini-2.5-flash');
+ * const ai = new GoogleGenAI({
+ *   apiKey: 'GEMINI_API_KEY',
+ *   rateLimit: {
+ *     requestsPerMinute: 1000,
+ *     tokensPerMinute: 1_000_000,
+ *     maxConcurrentRequests: 50,
+ *     estimateTokens: async ({body}) =>
+ *       body?.['contents']
+ *         ? (await tokenizer.countTokens(body['contents'] as Content[]))
+ *             .totalTokens ?? 0
+ *         : 0,
+ *   },
+ * });
+ * ```
+ */
+export interface RateLimitOptions {
+  /** Maximum number of requests started in any 60 second window. */
+  requestsPerMinute?: number;
+  /**
+   * Maximum number of tokens sent in any 60 second window, as estimated by
+   * `estimateTokens`. A single request estimated above the limit is sent
+   * once the window is empty.
+   */
+  tokensPerMinute?: number;
+  /**
+   * Maximum number of requests awaiting a response at the same time, across
+   * all models. A request counts until its response body has been read or
+   * cancelled, so streamed responses and downloads count until they end.
+   */
+  maxConcurrentRequests?: number;
+  /**
+   * Whether `requestsPerMinute` and `tokensPerMinute` apply to each model
+   * separately, matching how the API enforces quotas. If not specified,
+   * default to true.
+   */
+  perModel?: boolean;
+  /**
+   * Estimates the number of tokens of a request, for example with
+   * `models.countTokens` or the `LocalTokenizer`. Only called when
+   * `tokensPerMinute` is set. If not specified, a request is estimated at one
+   * token per four characters of its body.
+   */
+  estimateTokens?: (request: RateLimitRequest) => number | Promise<number>;
+}
+
+interface WindowEntry {
+  time: number;
+  tokens: number;
+}
+
+interface Bucket {
+  window: WindowEntry[];
+  pausedUntil: number;
+}
+
+interface Waiter {
+  bucket: Bucket;
+  tokens: number;
+  resolve: (release: () => void) => void;
+  reject: (error: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Delays requests so that they stay within a {@link RateLimitOptions} quota.
+ * Requests are admitted in the order they were made, per bucket.
+ */
+export class RateLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+  private readonly waiters: Waiter[] = [];
+  private inFlight = 0;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(private readonly options: RateLimitOptions) {}
+
+  /**
+   * Estimates the tokens of a request, or returns 0 when tokens are not
+   * limited.
+   */
+  async estimateTokens(request: RateLimitRequest): Promise<number> {
+    if (!this.options.tokensPerMinute) {
+      return 0;
+    }
+    if (this.options.estimateTokens) {
+      return this.options.estimateTokens(request);
+    }
+    return request.body
+      ? Math.ceil(JSON.stringify(request.body).length / 4)
+      : 0;
+  }
+
+  /**
+   * Waits until a request may be sent.
+   *
+   * @param model The model the request is sent to, if any.
+   * @param tokens The estimated tokens of the request.
+   * @param signal Aborts waiting, rejecting with the signal's reason.
+   * @return A function to call once the response body has been read.
+   */
+  acquire(
+    model: string | undefined,
+    tokens: number,
+    signal?: AbortSignal,
+  ): Promise<() => void> {
+    if (signal?.aborted) {
+      return Promise.reject(abortReason(signal));
+    }
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        bucket: this.getBucket(model),
+        tokens,
+        resolve,
+        reject,
+        signal,
+      };
+      if (signal) {
+        waiter.onAbort = () => {
+          const index = this.waiters.indexOf(waiter);
+          if (index !== -1) {
+            this.waiters.splice(index, 1);
+            reject(abortReason(signal));
+            this.drain();
+          }
+        };
+        signal.addEventListener('abort', waiter.onAbort);
+      }
+      this.waiters.push(waiter);
+      this.drain();
+    });
+  }
+
+  /**
+   * Holds back requests to a model, for example because the server answered
+   * with a retry delay.
+   *
+   * @param model The model to pause, if any.
+   * @param seconds How long to pause for, in fractions of a second.
+   */
+  pause(model: string | undefined, seconds: number) {
+    const bucket = this.getBucket(model);
+    bucket.pausedUntil = Math.max(
+      bucket.pausedUntil,
+      Date.now() + seconds * 1000,
+    );
+  }
+
+  private getBucket(model: string | undefined): Bucket {
+    const key = this.options.perModel === false ? '' : (model ?? '');
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = {window: [], pausedUntil: 0};
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  private drain() {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    const now = Date.now();
+    const blocked = new Set<Bucket>();
+    let nextCheck = Infinity;
+    for (let i = 0; i < this.waiters.length; ) {
+      const maxConcurrent = this.options.maxConcurrentRequests;
+      if (maxConcurrent && this.inFlight >= maxConcurrent) {
+        // Woken up again by `release`.
+        return;
+      }
+      const waiter = this.waiters[i];
+      const wait = blocked.has(waiter.bucket)
+        ? Infinity
+        : this.waitTime(waiter, now);
+      if (wait > 0) {
+        // Keep later requests to the same bucket behind this one.
+        blocked.add(waiter.bucket);
+        nextCheck = Math.min(nextCheck, wait);
+        i++;
+        continue;
+      }
+      this.waiters.splice(i, 1);
+      this.grant(waiter, now);
+    }
+    if (nextCheck !== Infinity) {
+      this.timer = setTimeout(() => this.drain(), nextCheck);
+      if (
+        typeof (this.timer as unknown as NodeJSTimeout).unref === 'function'
+      ) {
+        // Waiting requests do not keep the Node.js process alive, see
+        // https://nodejs.org/api/timers.html#timeoutunref
+        (this.timer as unknown as NodeJSTimeout).unref();
+      }
+    }
+  }
+
+  private grant(waiter: Waiter, now: number) {
+    if (waiter.signal && waiter.onAbort) {
+      waiter.signal.removeEventListener('abort', waiter.onAbort);
+    }
+    waiter.bucket.window.push({time: now, tokens: waiter.tokens});
+    this.inFlight++;
+    let released = false;
+    waiter.resolve(() => {
+      if (!released) {
+        released = true;
+        this.inFlight--;
+        this.drain();
+      }
+    });
+  }
+
+  /** Returns how long, in milliseconds, the waiter must still wait. */
+  private waitTime(waiter: Waiter, now: number): number {
+    const bucket = waiter.bucket;
+    while (
+      bucket.window.length > 0 &&
+      bucket.window[0].time <= now - WINDOW_MS
+    ) {
+      bucket.window.shift();
+    }
+    if (bucket.pausedUntil > now) {
+      return bucket.pausedUntil - now;
+    }
+    const rpm = this.options.requestsPerMinute;
+    if (rpm && bucket.window.length >= rpm) {
+      return bucket.window[bucket.window.length - rpm].time + WINDOW_MS - now;
+    }
+    const tpm = this.options.tokensPerMinute;
+    if (tpm) {
+      let used = bucket.window.reduce((sum, entry) => sum + entry.tokens, 0);
+      if (used > 0 && used + waiter.tokens > tpm) {
+        // Wait for enough of the window to expire.
+        for (const entry of bucket.window) {
+          used -= entry.tokens;
+          if (used <= 0 || used + waiter.tokens <= tpm) {
+            return entry.time + WINDOW_MS - now;
+          }
+        }
+      }
+    }
+    return 0;
+  }
+}
+
+/** Returns the model of a request path such as `models/gemini:generate`. */
+export function modelFromPath(path: string): string | undefined {
+  const match = /(?:^|\/)models\/([^/:?]+)/.exec(path);
+  return match ? match[1] : undefined;
+}
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new Error('The operation was aborted.');
+}
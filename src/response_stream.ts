@@ -0,0 +1,480 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  FunctionCallAssembler,
+  assembleFunctionCall,
+  continuesFunctionCall,
+  isStreamedFunctionCall,
+} from './_streamed_function_calls.js';
+import * as types from './types.js';
+
+/** The listeners of the events of a {@link GenerateContentStream}. */
+export interface GenerateContentStreamEvents {
+  /** Called with each chunk of the response. */
+  chunk: (chunk: types.GenerateContentResponse) => void;
+  /**
+   * Called with each piece of text of the first candidate, and the text
+   * received so far.
+   */
+  text: (delta: string, snapshot: string) => void;
+  /**
+   * Called with each piece of thought summary of the first candidate, and
+   * the thought summary received so far.
+   */
+  thought: (delta: string, snapshot: string) => void;
+  /**
+   * Called with each complete function call of the first candidate. Calls
+   * whose arguments are streamed are assembled first.
+   */
+  functionCall: (functionCall: types.FunctionCall) => void;
+  /**
+   * Called with each piece of the arguments of a function call that are
+   * streamed with `streamFunctionCallArguments`, and the call assembled so
+   * far.
+   */
+  functionCallArgs: (
+    partialArgs: types.PartialArg[],
+    snapshot: types.FunctionCall,
+  ) => void;
+  /** Called with the merged response once the stream has ended. */
+  end: (response: types.GenerateContentResponse) => void;
+  /** Called when reading the stream fails, including when it is aborted. */
+  error: (error: unknown) => void;
+}
+
+type Listeners = {
+  [E in keyof GenerateContentStreamEvents]: Array<
+    GenerateContentStreamEvents[E]
+  >;
+};
+
+/**
+ * The streamed response of `generateContentStream`, an async generator of
+ * its chunks with helpers to read it as text, as one merged response or
+ * through events.
+ *
+ * @remarks
+ * The stream can be read once. The helpers read the chunks that the loop
+ * over the stream has not read yet, and events are emitted as chunks are
+ * read by either.
+ *
+ * @example
+ * ```ts
+ * const stream = await ai.models.generateContentStream({
+ *   model: 'gemini-2.5-flash',
+ *   contents: 'Write a story about a magic backpack.',
+ * });
+ * stream.on('text', (delta) => process.stdout.write(delta));
+ * const response = await stream.finalResponse();
+ * console.log(response.usageMetadata);
+ * ```
+ */
+export class GenerateContentStream
+  implements AsyncGenerator<types.GenerateContentResponse, undefined>
+{
+  private readonly chunks: types.GenerateContentResponse[] = [];
+  private readonly listeners: Listeners = {
+    chunk: [],
+    text: [],
+    thought: [],
+    functionCall: [],
+    functionCallArgs: [],
+    end: [],
+    error: [],
+  };
+  private readonly controller = new AbortController();
+  private readonly functionCalls = new FunctionCallAssembler();
+  private aborted?: Promise<never>;
+  private text = '';
+  private thought = '';
+  private response?: types.GenerateContentResponse;
+  private finalResponsePromise?: Promise<types.GenerateContentResponse>;
+
+  /**
+   * @param source - The chunks of the response.
+   * @param onAbort - Called by {@link GenerateContentStream#abort}, for
+   *     example to cancel the request.
+   */
+  constructor(
+    private readonly source: AsyncGenerator<types.GenerateContentResponse>,
+    private readonly onAbort?: (reason: unknown) => void,
+  ) {}
+
+  [Symbol.asyncIterator](): this {
+    return this;
+  }
+
+  async next(): Promise<IteratorResult<types.GenerateContentResponse>> {
+    const signal = this.controller.signal;
+    let result: IteratorResult<types.GenerateContentResponse>;
+    try {
+      if (signal.aborted) {
+        // Not awaited, the source may still be waiting for a chunk.
+        this.source.return(undefined).catch(() => undefined);
+        throw signal.reason;
+      }
+      this.aborted ??= new Promise<never>((_, reject) => {
+        signal.addEventListener('abort', () => reject(signal.reason), {
+          once: true,
+        });
+      });
+      result = await Promise.race([this.source.next(), this.aborted]);
+    } catch (e) {
+      this.emit('error', e);
+      throw e;
+    }
+    if (result.done) {
+      if (!this.response) {
+        this.response = mergeResponses(this.chunks);
+        this.emit('end', this.response);
+      }
+      return {done: true, value: undefined};
+    }
+    this.read(result.value);
+    return result;
+  }
+
+  async return(): Promise<IteratorResult<types.GenerateContentResponse>> {
+    await this.source.return(undefined);
+    return {done: true, value: undefined};
+  }
+
+  async throw(
+    e: unknown,
+  ): Promise<IteratorResult<types.GenerateContentResponse>> {
+    await this.source.return(undefined);
+    throw e;
+  }
+
+  /**
+   * Registers a listener for an event of the stream.
+   *
+   * @remarks
+   * The text, thought and function call events follow the first candidate.
+   */
+  on<E extends keyof GenerateContentStreamEvents>(
+    event: E,
+    listener: GenerateContentStreamEvents[E],
+  ): this {
+    this.listeners[event].push(listener);
+    return this;
+  }
+
+  /** Removes a listener registered with {@link GenerateContentStream#on}. */
+  off<E extends keyof GenerateContentStreamEvents>(
+    event: E,
+    listener: GenerateContentStreamEvents[E],
+  ): this {
+    const listeners = this.listeners[event] as Array<
+      GenerateContentStreamEvents[E]
+    >;
+    const index = listeners.indexOf(listener);
+    if (index !== -1) {
+      listeners.splice(index, 1);
+    }
+    return this;
+  }
+
+  /**
+   * Reads the stream and yields the text of the first candidate as it
+   * arrives, leaving out thoughts.
+   */
+  async *textStream(): AsyncGenerator<string> {
+    for await (const chunk of this) {
+      const text = (chunk.candidates?.[0]?.content?.parts ?? [])
+        .filter((part) => part.text && !part.thought)
+        .map((part) => part.text)
+        .join('');
+      if (text) {
+        yield text;
+      }
+    }
+  }
+
+  /**
+   * Reads the rest of the stream and returns the response that its chunks
+   * make up together.
+   *
+   * @see {@link mergeResponses}
+   */
+  finalResponse(): Promise<types.GenerateContentResponse> {
+    this.finalResponsePromise ??= (async () => {
+      while (!this.response) {
+        await this.next();
+      }
+      return this.response;
+    })();
+    return this.finalResponsePromise;
+  }
+
+  /**
+   * Stops reading the stream. The pending and following reads fail with the
+   * reason.
+   *
+   * @remarks
+   * Aborting is a client-only operation: the model may still finish the
+   * response and you will still be charged for it.
+   */
+  abort(reason?: unknown) {
+    if (this.controller.signal.aborted) {
+      return;
+    }
+    this.controller.abort(reason);
+    this.onAbort?.(this.controller.signal.reason);
+  }
+
+  private read(chunk: types.GenerateContentResponse) {
+    this.chunks.push(chunk);
+    this.emit('chunk', chunk);
+    for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+      if (part.text) {
+        if (part.thought) {
+          this.thought += part.text;
+          this.emit('thought', part.text, this.thought);
+        } else {
+          this.text += part.text;
+          this.emit('text', part.text, this.text);
+        }
+      }
+      if (part.functionCall) {
+        const functionCall = this.functionCalls.add(part.functionCall);
+        if (functionCall) {
+          this.emit('functionCall', functionCall);
+        } else {
+          this.emit(
+            'functionCallArgs',
+            part.functionCall.partialArgs ?? [],
+            this.functionCalls.pending!,
+          );
+        }
+      }
+    }
+  }
+
+  private emit<E extends keyof GenerateContentStreamEvents>(
+    event: E,
+    ...args: Parameters<GenerateContentStreamEvents[E]>
+  ) {
+    for (const listener of this.listeners[event]) {
+      (listener as (...args: unknown[]) => void)(...args);
+    }
+  }
+}
+
+/**
+ * Merges the chunks of a streamed response into one response, as
+ * `generateContent` would have returned it.
+ *
+ * @remarks
+ * The text of consecutive text parts is joined, function calls whose
+ * arguments are streamed are assembled, and the citations, grounding
+ * and URL context metadata of the chunks are combined. The finish reason,
+ * usage metadata and other fields are taken from the last chunk that sets
+ * them. With automatic function calling, the content of each candidate is
+ * that of the last model turn.
+ *
+ * @param chunks - The chunks of the response, in order.
+ * @return The merged response.
+ */
+export function mergeResponses(
+  chunks: types.GenerateContentResponse[],
+): types.GenerateContentResponse {
+  const response = new types.GenerateContentResponse();
+  const candidates = new Map<number, types.Candidate>();
+  for (const chunk of chunks) {
+    for (const [key, value] of Object.entries(chunk)) {
+      if (key === 'candidates' || value === undefined) {
+        continue;
+      }
+      if (key === 'sdkHttpResponse' && response.sdkHttpResponse !== undefined) {
+        // Keep the headers of the response, sent with the first chunk.
+        continue;
+      }
+      (response as unknown as Record<string, unknown>)[key] = value;
+    }
+    (chunk.candidates ?? []).forEach((candidate, i) => {
+      const index = candidate.index ?? i;
+      const merged = candidates.get(index);
+      candidates.set(
+        index,
+        merged ? mergeCandidates(merged, candidate) : {...candidate},
+      );
+    });
+  }
+  if (candidates.size > 0) {
+    response.candidates = [...candidates.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, candidate]) => candidate);
+  }
+  return response;
+}
+
+/**
+ * Merges consecutive contents of the same role, such as the contents of the
+ * chunks of a streamed response, joining the text of consecutive text parts
+ * and assembling function calls whose arguments are streamed.
+ */
+export function mergeContents(contents: types.Content[]): types.Content[] {
+  const merged: types.Content[] = [];
+  for (const content of contents) {
+    const last = merged[merged.length - 1];
+    if (last && last.role === content.role) {
+      merged[merged.length - 1] = {
+        ...last,
+        parts: mergeParts(last.parts ?? [], content.parts ?? []),
+      };
+    } else {
+      merged.push({...content, parts: mergeParts([], content.parts ?? [])});
+    }
+  }
+  return merged;
+}
+
+function mergeCandidates(
+  merged: types.Candidate,
+  candidate: types.Candidate,
+): types.Candidate {
+  const result: types.Candidate = {...merged};
+  for (const [key, value] of Object.entries(candidate)) {
+    if (value !== undefined) {
+      (result as Record<string, unknown>)[key] = value;
+    }
+  }
+  if (merged.content && candidate.content) {
+    result.content =
+      merged.content.role === candidate.content.role
+        ? mergeContents([merged.content, candidate.content])[0]
+        : candidate.content;
+  } else {
+    result.content = candidate.content ?? merged.content;
+  }
+  if (merged.citationMetadata && candidate.citationMetadata) {
+    result.citationMetadata = {
+      citations: [
+        ...(merged.citationMetadata.citations ?? []),
+        ...(candidate.citationMetadata.citations ?? []),
+      ],
+    };
+  }
+  if (merged.groundingMetadata && candidate.groundingMetadata) {
+    result.groundingMetadata = mergeGroundingMetadata(
+      merged.groundingMetadata,
+      candidate.groundingMetadata,
+    );
+  }
+  if (merged.urlContextMetadata && candidate.urlContextMetadata) {
+    result.urlContextMetadata = {
+      urlMetadata: [
+        ...(merged.urlContextMetadata.urlMetadata ?? []),
+        ...(candidate.urlContextMetadata.urlMetadata ?? []),
+      ],
+    };
+  }
+  return result;
+}
+
+function mergeParts(parts: types.Part[], newParts: types.Part[]): types.Part[] {
+  const merged = [...parts];
+  for (const part of newParts) {
+    const last = merged[merged.length - 1];
+    const pending =
+      part.functionCall && continuesFunctionCall(part.functionCall)
+        ? pendingFunctionCallIndex(merged)
+        : -1;
+    if (
+      last &&
+      isTextPart(last) &&
+      isTextPart(part) &&
+      !!last.thought === !!part.thought &&
+      // The thought signature ends the text it signs.
+      !last.thoughtSignature
+    ) {
+      merged[merged.length - 1] = {
+        ...last,
+        ...part,
+        text: (last.text ?? '') + (part.text ?? ''),
+      };
+    } else if (pending !== -1) {
+      merged[pending] = {
+        ...merged[pending],
+        ...part,
+        functionCall: assembleFunctionCall(
+          merged[pending].functionCall,
+          part.functionCall!,
+        ),
+      };
+    } else if (part.functionCall && isStreamedFunctionCall(part.functionCall)) {
+      merged.push({
+        ...part,
+        functionCall: assembleFunctionCall(undefined, part.functionCall),
+      });
+    } else {
+      merged.push(part);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Returns the index of the function call whose arguments are still being
+ * streamed, or -1 if there is none.
+ */
+function pendingFunctionCallIndex(parts: types.Part[]): number {
+  for (let i = parts.length - 1; i >= 0; i--) {
+    if (parts[i].functionCall?.willContinue) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function isTextPart(part: types.Part): boolean {
+  return (
+    part.text !== undefined &&
+    Object.keys(part).every(
+      (key) =>
+        key === 'text' ||
+        key === 'thought' ||
+        key === 'thoughtSignature' ||
+        part[key as keyof types.Part] === undefined,
+    )
+  );
+}
+
+function mergeGroundingMetadata(
+  merged: types.GroundingMetadata,
+  metadata: types.GroundingMetadata,
+): types.GroundingMetadata {
+  const result: types.GroundingMetadata = {...merged};
+  for (const [key, value] of Object.entries(metadata)) {
+    const previous = (merged as Record<string, unknown>)[key];
+    (result as Record<string, unknown>)[key] =
+      Array.isArray(previous) && Array.isArray(value)
+        ? [...previous, ...value]
+        : (value ?? previous);
+  }
+  // The supports refer to the chunks by index, shift them past the chunks
+  // of the earlier metadata.
+  const offset = merged.groundingChunks?.length ?? 0;
+  if (metadata.groundingSupports && offset > 0) {
+    result.groundingSupports = [
+      ...(merged.groundingSupports ?? []),
+      ...metadata.groundingSupports.map((support) => ({
+        ...support,
+        groundingChunkIndices: support.groundingChunkIndices?.map(
+          (index) => index + offset,
+        ),
+      })),
+    ];
+  }
+  for (const key of ['webSearchQueries', 'imageSearchQueries'] as const) {
+    if (result[key]) {
+      result[key] = [...new Set(result[key])];
+    }
+  }
+  return result;
+}
@@ -8,8 +8,9 @@
  * Public API for LocalTokenizer (Node.js).
  *
  * This module provides local tokenization capabilities for Gemini models without
- * requiring API calls. The tokenizer uses SentencePiece BPE algorithm and supports
- * text-only token counting and computation.
+ * requiring API calls. The tokenizer uses SentencePiece BPE algorithm and counts
+ * text tokens exactly and the tokens of images, audio, video and PDFs as
+ * estimates.
  *
  * @example Node.js Usage
  * ```typescript
@@ -27,6 +28,7 @@
 export {LocalTokenizer} from '../node/local_tokenizer.js';
 
 // Re-export types that users might need
+export type {LocalCountTokensResult} from '../cross/tokenizer/_interfaces.js';
 export type {
   ComputeTokensResult,
   CountTokensResult,
@@ -14,7 +14,7 @@ export class BrowserDownloader implements Downloader {
     _apiClient: ApiClient,
   ): Promise<void> {
     throw new Error(
-      'Download to file is not supported in the browser, please use a browser compliant download like an <a> tag.',
+      'Download to file is not supported in the browser, please use files.downloadAsBlob(), files.downloadAsBytes() or files.downloadStream() instead.',
     );
   }
 }
@@ -4,43 +4,72 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 import {ApiClient} from '../_api_client.js';
-import {FileStat, Uploader} from '../_uploader.js';
+import {
+  FileStat,
+  UploadOptions,
+  UploadStream,
+  Uploader,
+  isUploadStream,
+} from '../_uploader.js';
 import {
   getBlobStat,
   uploadBlob,
   uploadBlobToFileSearchStore,
+  uploadStream,
+  uploadStreamToFileSearchStore,
 } from '../cross/_cross_uploader.js';
 import {File, HttpOptions, UploadToFileSearchStoreOperation} from '../types.js';
 
 export class BrowserUploader implements Uploader {
   async upload(
-    file: string | Blob,
+    file: string | Blob | UploadStream,
     uploadUrl: string,
     apiClient: ApiClient,
     httpOptions?: HttpOptions,
+    options?: UploadOptions,
   ): Promise<File> {
     if (typeof file === 'string') {
       throw new Error('File path is not supported in browser uploader.');
     }
+    if (isUploadStream(file)) {
+      return await uploadStream(
+        file,
+        uploadUrl,
+        apiClient,
+        httpOptions,
+        options,
+      );
+    }
 
-    return await uploadBlob(file, uploadUrl, apiClient, httpOptions);
+    return await uploadBlob(file, uploadUrl, apiClient, httpOptions, options);
   }
 
   async uploadToFileSearchStore(
-    file: string | Blob,
+    file: string | Blob | UploadStream,
     uploadUrl: string,
     apiClient: ApiClient,
     httpOptions?: HttpOptions,
+    options?: UploadOptions,
   ): Promise<UploadToFileSearchStoreOperation> {
     if (typeof file === 'string') {
       throw new Error('File path is not supported in browser uploader.');
     }
+    if (isUploadStream(file)) {
+      return await uploadStreamToFileSearchStore(
+        file,
+        uploadUrl,
+        apiClient,
+        httpOptions,
+        options,
+      );
+    }
 
     return await uploadBlobToFileSearchStore(
       file,
       uploadUrl,
       apiClient,
       httpOptions,
+      options,
     );
   }
 
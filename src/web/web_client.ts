@@ -4,9 +4,9 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import {ApiClient} from '../_api_client.js';
+import {ApiClient, ClientHttpOptions} from '../_api_client.js';
 import {getBaseUrl} from '../_base_url.js';
-import {Batches} from '../batches.js';
+import {BatchJobs} from '../batch_jobs.js';
 import {Caches} from '../caches.js';
 import {Chats} from '../chats.js';
 import {GoogleGenAIOptions} from '../client.js';
@@ -33,7 +33,6 @@ import {Models} from '../models.js';
 import {Operations} from '../operations.js';
 import {Tokens} from '../tokens.js';
 import {Tunings} from '../tunings.js';
-import {HttpOptions} from '../types.js';
 
 import {BrowserDownloader} from './_browser_downloader.js';
 import {BrowserUploader} from './_browser_uploader.js';
@@ -83,10 +82,10 @@ export class GoogleGenAI {
   private readonly apiKey?: string;
   public readonly vertexai: boolean;
   private readonly apiVersion?: string;
-  private readonly httpOptions?: HttpOptions;
+  private readonly httpOptions?: ClientHttpOptions;
   readonly models: Models;
   readonly live: Live;
-  readonly batches: Batches;
+  readonly batches: BatchJobs;
   readonly chats: Chats;
   readonly caches: Caches;
   readonly files: Files;
@@ -213,12 +212,15 @@ export class GoogleGenAI {
       vertexai: this.vertexai,
       httpOptions: this.httpOptions,
       userAgentExtra: LANGUAGE_LABEL_PREFIX + 'web',
+      interceptors: options.interceptors,
+      fetch: options.fetch,
+      rateLimit: options.rateLimit,
       uploader: new BrowserUploader(),
       downloader: new BrowserDownloader(),
     });
     this.models = new Models(this.apiClient);
     this.live = new Live(this.apiClient, auth, new BrowserWebSocketFactory());
-    this.batches = new Batches(this.apiClient);
+    this.batches = new BatchJobs(this.apiClient);
     this.chats = new Chats(this.models, this.apiClient);
     this.caches = new Caches(this.apiClient);
     this.files = new Files(this.apiClient);
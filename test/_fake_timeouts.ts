@@ -0,0 +1,23 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Makes `setTimeout` run its handler at once, so that polling does not wait.
+ *
+ * @return The delays that `setTimeout` was called with, in order.
+ */
+export function skipTimeouts(): number[] {
+  const delays: number[] = [];
+  spyOn(global, 'setTimeout').and.callFake(((
+    handler: () => void,
+    ms: number,
+  ) => {
+    delays.push(ms);
+    handler();
+    return 0;
+  }) as unknown as typeof setTimeout);
+  return delays;
+}
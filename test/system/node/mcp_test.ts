@@ -131,73 +131,6 @@ describe('MCP related client Tests', () => {
         );
       }
     });
-    it('Vertex AI should throw error when no afc config is provided', async () => {
-      const mcpCallableTool = mcpToTool(await greetServerStructuredOutput());
-      const client = new GoogleGenAI({
-        vertexai: true,
-        project: GOOGLE_CLOUD_PROJECT,
-        location: GOOGLE_CLOUD_LOCATION,
-        httpOptions,
-      });
-      try {
-        await client.models.generateContentStream({
-          model: 'gemini-3-pro-preview',
-          contents:
-            'call the greeter once with name: jone smith, and greeting: Hello',
-          config: {
-            tools: [mcpCallableTool],
-            toolConfig: {
-              functionCallingConfig: {
-                streamFunctionCallArguments: true,
-              },
-            },
-          },
-        });
-      } catch (error: unknown) {
-        if (error instanceof Error) {
-          expect(
-            error.message.includes(
-              'not compatible with automatic function calling (AFC)',
-            ),
-          );
-        }
-      }
-    });
-    it('Vertex AI should throw error when afc disable is set to false', async () => {
-      const mcpCallableTool = mcpToTool(await greetServerStructuredOutput());
-      const client = new GoogleGenAI({
-        vertexai: true,
-        project: GOOGLE_CLOUD_PROJECT,
-        location: GOOGLE_CLOUD_LOCATION,
-        httpOptions,
-      });
-      try {
-        await client.models.generateContentStream({
-          model: 'gemini-3-pro-preview',
-          contents:
-            'call the greeter once with name: jone smith, and greeting: Hello',
-          config: {
-            tools: [mcpCallableTool],
-            automaticFunctionCalling: {
-              disable: false,
-            },
-            toolConfig: {
-              functionCallingConfig: {
-                streamFunctionCallArguments: true,
-              },
-            },
-          },
-        });
-      } catch (error: unknown) {
-        if (error instanceof Error) {
-          expect(
-            error.message.includes(
-              'not compatible with automatic function calling (AFC)',
-            ),
-          );
-        }
-      }
-    });
   });
 
   describe('generateContent', () => {
@@ -4,9 +4,12 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 import {
+  CallToolOptions,
+  callFunctions,
   findAfcIncompatibleToolIndexes,
   shouldAppendAfcHistory,
   shouldDisableAfc,
+  sumUsageMetadata,
 } from '../../src/_afc.js';
 import * as types from '../../src/types.js';
 
@@ -345,3 +348,317 @@ describe('findAfcIncompatibleToolIndexes', () => {
     expect(findAfcIncompatibleToolIndexes(params)).toEqual([4, 10, 11]);
   });
 });
+
+describe('callFunctions', () => {
+  /** Returns a CallableTool whose calls finish after `delay` milliseconds. */
+  function delayedTool(
+    name: string,
+    delay: number,
+    log: string[],
+  ): types.CallableTool {
+    return {
+      tool: async () => ({functionDeclarations: [{name}]}),
+      callTool: async (functionCalls: types.FunctionCall[]) => {
+        log.push(`start ${name}`);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        log.push(`end ${name}`);
+        return [
+          {
+            functionResponse: {
+              name: functionCalls[0].name,
+              response: {output: name},
+            },
+          },
+        ];
+      },
+    };
+  }
+
+  function toolsMap(...tools: Array<[string, types.CallableTool]>) {
+    return new Map<string, types.CallableTool>(tools);
+  }
+
+  it('should run the calls one after another by default', async () => {
+    const log: string[] = [];
+    const tools = toolsMap(
+      ['slow', delayedTool('slow', 20, log)],
+      ['fast', delayedTool('fast', 0, log)],
+    );
+
+    const results = await callFunctions(
+      [{name: 'slow'}, {name: 'fast'}],
+      tools,
+    );
+
+    expect(log).toEqual(['start slow', 'end slow', 'start fast', 'end fast']);
+    expect(
+      results.map((result) => result.parts[0].functionResponse?.name),
+    ).toEqual(['slow', 'fast']);
+  });
+
+  it('should run the calls concurrently when parallelFunctionCalls is set', async () => {
+    const log: string[] = [];
+    const tools = toolsMap(
+      ['slow', delayedTool('slow', 20, log)],
+      ['fast', delayedTool('fast', 0, log)],
+    );
+
+    const results = await callFunctions(
+      [{name: 'slow'}, {name: 'fast'}],
+      tools,
+      {parallelFunctionCalls: true},
+    );
+
+    expect(log).toEqual(['start slow', 'start fast', 'end fast', 'end slow']);
+    // The responses keep the order of the calls.
+    expect(
+      results.map((result) => result.parts[0].functionResponse?.name),
+    ).toEqual(['slow', 'fast']);
+  });
+
+  /** Returns a CallableTool whose calls never finish, with a timeout. */
+  function hangingTool(name: string, onCall: (signal?: AbortSignal) => void) {
+    return {
+      config: {timeout: 5},
+      tool: async () => ({functionDeclarations: [{name}]}),
+      callTool: (_: types.FunctionCall[], options?: CallToolOptions) => {
+        onCall(options?.abortSignal);
+        return new Promise<types.Part[]>(() => {});
+      },
+    };
+  }
+
+  it('should throw when a call exceeds the tool timeout', async () => {
+    let signal: AbortSignal | undefined;
+    const tool = hangingTool('slow', (s) => (signal = s));
+
+    await expectAsync(
+      callFunctions([{name: 'slow'}], toolsMap(['slow', tool])),
+    ).toBeRejectedWithError('Function slow timed out after 5ms.');
+    expect(signal?.aborted).toBeTrue();
+  });
+
+  it('should answer a call that exceeds the tool timeout with an error when respondWithErrors is set', async () => {
+    let signal: AbortSignal | undefined;
+    const tool = hangingTool('slow', (s) => (signal = s));
+
+    const [{parts}] = await callFunctions(
+      [{id: 'call-1', name: 'slow'}],
+      toolsMap(['slow', tool]),
+      {respondWithErrors: true},
+    );
+
+    expect(parts).toEqual([
+      {
+        functionResponse: {
+          id: 'call-1',
+          name: 'slow',
+          response: {error: 'Function slow timed out after 5ms.'},
+        },
+      },
+    ]);
+    expect(signal?.aborted).toBeTrue();
+  });
+
+  const brokenTool: types.CallableTool = {
+    tool: async () => ({functionDeclarations: [{name: 'broken'}]}),
+    callTool: async () => {
+      throw new Error('tool failed');
+    },
+  };
+
+  it('should throw the error of a call that throws', async () => {
+    const onFunctionResponse = jasmine.createSpy('onFunctionResponse');
+
+    await expectAsync(
+      callFunctions([{name: 'broken'}], toolsMap(['broken', brokenTool]), {
+        onFunctionResponse,
+      }),
+    ).toBeRejectedWithError('tool failed');
+    expect(onFunctionResponse).toHaveBeenCalledOnceWith(
+      jasmine.objectContaining({name: 'broken', error: 'tool failed'}),
+    );
+  });
+
+  it('should answer a call that throws with an error when respondWithErrors is set', async () => {
+    const [{parts}] = await callFunctions(
+      [{name: 'broken'}],
+      toolsMap(['broken', brokenTool]),
+      {respondWithErrors: true},
+    );
+
+    expect(parts).toEqual([
+      {functionResponse: {name: 'broken', response: {error: 'tool failed'}}},
+    ]);
+  });
+
+  it('should throw for a call without a matching tool', async () => {
+    await expectAsync(
+      callFunctions(
+        [{name: 'missing'}],
+        toolsMap(['fast', delayedTool('fast', 0, [])]),
+      ),
+    ).toBeRejectedWithError(/missing tool: missing/);
+  });
+
+  it('should answer a call without a matching tool with an error when respondWithErrors is set', async () => {
+    const [{parts}] = await callFunctions(
+      [{name: 'missing'}],
+      toolsMap(['fast', delayedTool('fast', 0, [])]),
+      {respondWithErrors: true},
+    );
+
+    expect(parts[0].functionResponse?.response).toEqual({
+      error: 'Function missing is not available. Available functions: fast.',
+    });
+  });
+
+  it('should only run the calls that are approved', async () => {
+    const log: string[] = [];
+    const tools = toolsMap(
+      ['allowed', delayedTool('allowed', 0, log)],
+      ['denied', delayedTool('denied', 0, log)],
+    );
+    const approveFunctionCall = jasmine
+      .createSpy('approveFunctionCall')
+      .and.callFake(
+        async (functionCall: types.FunctionCall) =>
+          functionCall.name === 'allowed',
+      );
+
+    const results = await callFunctions(
+      [{name: 'allowed', args: {a: 1}}, {name: 'denied'}],
+      tools,
+      {approveFunctionCall},
+    );
+
+    expect(approveFunctionCall).toHaveBeenCalledWith({
+      name: 'allowed',
+      args: {a: 1},
+    });
+    expect(log).toEqual(['start allowed', 'end allowed']);
+    expect(results[1].parts).toEqual([
+      {
+        functionResponse: {
+          name: 'denied',
+          response: {error: 'The function call was denied.'},
+        },
+      },
+    ]);
+  });
+
+  it('should not run a call that was cancelled before it started', async () => {
+    const log: string[] = [];
+    const tools = toolsMap(
+      ['first', delayedTool('first', 0, log)],
+      ['second', delayedTool('second', 0, log)],
+    );
+    const controller = new AbortController();
+    const approveFunctionCall = jasmine
+      .createSpy('approveFunctionCall')
+      .and.resolveTo(true);
+    // The second call is cancelled while the first one runs.
+    const getAbortSignal = (functionCall: types.FunctionCall) => {
+      if (functionCall.name === 'first') {
+        controller.abort();
+      }
+      return functionCall.name === 'second' ? controller.signal : undefined;
+    };
+
+    const results = await callFunctions(
+      [{name: 'first'}, {id: 'call-2', name: 'second'}],
+      tools,
+      {approveFunctionCall},
+      {getAbortSignal},
+    );
+
+    expect(log).toEqual(['start first', 'end first']);
+    expect(approveFunctionCall).toHaveBeenCalledTimes(1);
+    expect(results[1].parts).toEqual([
+      {
+        functionResponse: {
+          id: 'call-2',
+          name: 'second',
+          response: {error: 'The function call was cancelled.'},
+        },
+      },
+    ]);
+  });
+
+  it('should set the call id on the responses', async () => {
+    const [{parts}] = await callFunctions(
+      [{id: 'call-1', name: 'fast'}],
+      toolsMap(['fast', delayedTool('fast', 0, [])]),
+    );
+
+    expect(parts[0].functionResponse?.id).toBe('call-1');
+  });
+
+  it('should report each call to the hooks and trace it', async () => {
+    const tool: types.CallableTool = {
+      tool: async () => ({functionDeclarations: [{name: 'broken'}]}),
+      callTool: async () => {
+        throw new Error('tool failed');
+      },
+    };
+    const events: string[] = [];
+
+    const [{trace}] = await callFunctions(
+      [{id: 'call-1', name: 'broken', args: {a: 1}}],
+      toolsMap(['broken', tool]),
+      {
+        onFunctionCall: (event) =>
+          events.push(`call ${event.functionCall.name} ${event.iteration}`),
+        onFunctionResponse: (trace) => events.push(`response ${trace.error}`),
+        respondWithErrors: true,
+      },
+      {iteration: 2},
+    );
+
+    expect(events).toEqual(['call broken 2', 'response tool failed']);
+    expect(trace).toEqual({
+      iteration: 2,
+      id: 'call-1',
+      name: 'broken',
+      args: {a: 1},
+      response: {error: 'tool failed'},
+      error: 'tool failed',
+      startTime: jasmine.any(Number),
+      latencyMs: jasmine.any(Number),
+    });
+  });
+});
+
+describe('sumUsageMetadata', () => {
+  it('should add up the token counts by field and modality', () => {
+    const total = sumUsageMetadata([
+      {
+        promptTokenCount: 10,
+        totalTokenCount: 12,
+        candidatesTokenCount: 2,
+        promptTokensDetails: [
+          {modality: types.MediaModality.TEXT, tokenCount: 10},
+        ],
+      },
+      {
+        promptTokenCount: 20,
+        totalTokenCount: 25,
+        thoughtsTokenCount: 3,
+        promptTokensDetails: [
+          {modality: types.MediaModality.TEXT, tokenCount: 15},
+          {modality: types.MediaModality.IMAGE, tokenCount: 5},
+        ],
+      },
+    ]);
+
+    expect(total.promptTokenCount).toBe(30);
+    expect(total.candidatesTokenCount).toBe(2);
+    expect(total.thoughtsTokenCount).toBe(3);
+    expect(total.totalTokenCount).toBe(37);
+    expect(total.cachedContentTokenCount).toBeUndefined();
+    expect(total.promptTokensDetails).toEqual([
+      {modality: types.MediaModality.TEXT, tokenCount: 25},
+      {modality: types.MediaModality.IMAGE, tokenCount: 5},
+    ]);
+  });
+});
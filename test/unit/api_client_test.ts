@@ -8,10 +8,26 @@ import {Readable} from 'stream';
 
 import {
   ApiClient,
+  HttpRetryEvent,
+  RetryOptions,
   includeExtraBodyToRequestInit,
 } from '../../src/_api_client.js';
 import {CrossDownloader} from '../../src/cross/_cross_downloader.js';
 import {CrossUploader} from '../../src/cross/_cross_uploader.js';
+import {
+  ApiError,
+  InvalidArgumentError,
+  NotFoundError,
+  PermissionDeniedError,
+  QuotaExceededError,
+  RateLimitError,
+  ServerError,
+} from '../../src/errors.js';
+import {
+  HttpInterceptor,
+  HttpInterceptorContext,
+} from '../../src/interceptors.js';
+import {RateLimitOptions} from '../../src/rate_limiter.js';
 import * as types from '../../src/types.js';
 import {FakeAuth} from '../_fake_auth.js';
 
@@ -1067,8 +1083,7 @@ describe('ApiClient', () => {
           downloader: new CrossDownloader(),
         });
         fetchSpy.calls.reset();
-        // `attempts: 0` must not produce `retries: -1`, which throws in
-        // p-retry v7.
+        // `attempts: 0` still makes the initial attempt, without retries.
         await client
           .request({path: 'test-path', httpMethod: 'POST'})
           .catch((e) => {
@@ -1236,6 +1251,183 @@ describe('ApiClient', () => {
         .catch(() => {});
       expect(Date.now() - start).toBeGreaterThanOrEqual(100);
     });
+
+    function retryClient(retryOptions: RetryOptions): ApiClient {
+      return new ApiClient({
+        auth: new FakeAuth(),
+        project: 'vertex-project',
+        location: 'vertex-location',
+        vertexai: true,
+        apiVersion: 'v1beta1',
+        httpOptions: {retryOptions},
+        uploader: new CrossUploader(),
+        downloader: new CrossDownloader(),
+      });
+    }
+
+    function rateLimited(retryDelay: string): () => Promise<Response> {
+      return freshResponses(
+        {
+          error: {
+            code: 429,
+            status: 'RESOURCE_EXHAUSTED',
+            details: [
+              {
+                '@type': 'type.googleapis.com/google.rpc.RetryInfo',
+                retryDelay,
+              },
+            ],
+          },
+        },
+        {status: 429, headers: {'Content-Type': 'application/json'}},
+      );
+    }
+
+    it('should wait for the RetryInfo delay before retrying', async () => {
+      const client = retryClient({attempts: 2, ...noBackoff});
+      const fetchSpy = spyOn(global, 'fetch').and.callFake(rateLimited('0.1s'));
+      const start = Date.now();
+      await client
+        .request({path: 'test-path', httpMethod: 'POST'})
+        .catch(() => {});
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+      // The server delay takes precedence over the configured maxDelay of 0.
+      expect(Date.now() - start).toBeGreaterThanOrEqual(90);
+    });
+
+    it('should wait for the Retry-After header before retrying', async () => {
+      const client = retryClient({attempts: 2, ...noBackoff});
+      spyOn(global, 'fetch').and.callFake(
+        freshResponses(
+          {'error': 'Service Unavailable'},
+          {
+            status: 503,
+            headers: {'Content-Type': 'application/json', 'Retry-After': '0.1'},
+          },
+        ),
+      );
+      const start = Date.now();
+      await client
+        .request({path: 'test-path', httpMethod: 'POST'})
+        .catch(() => {});
+      expect(Date.now() - start).toBeGreaterThanOrEqual(90);
+    });
+
+    it('should ignore server delays when honorRetryAfter is false', async () => {
+      const client = retryClient({
+        attempts: 2,
+        honorRetryAfter: false,
+        ...noBackoff,
+      });
+      const fetchSpy = spyOn(global, 'fetch').and.callFake(rateLimited('10s'));
+      const start = Date.now();
+      await client
+        .request({path: 'test-path', httpMethod: 'POST'})
+        .catch(() => {});
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+      expect(Date.now() - start).toBeLessThan(1000);
+    });
+
+    it('should not retry past the deadline', async () => {
+      const client = retryClient({attempts: 5, deadline: 1, ...noBackoff});
+      const fetchSpy = spyOn(global, 'fetch').and.callFake(rateLimited('10s'));
+      let caught: unknown;
+      await client
+        .request({path: 'test-path', httpMethod: 'POST'})
+        .catch((e) => {
+          caught = e;
+        });
+      // Waiting 10s would end past the 1s deadline, so the error is thrown
+      // straight away.
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      expect(caught).toBeInstanceOf(RateLimitError);
+    });
+
+    it('should call onRetry before each retry', async () => {
+      const events: HttpRetryEvent[] = [];
+      const client = retryClient({
+        attempts: 3,
+        onRetry: (event) => events.push(event),
+        ...noBackoff,
+      });
+      spyOn(global, 'fetch').and.callFake(
+        freshResponses({'error': 'Internal Server Error'}, fetch500Options),
+      );
+      await client
+        .request({path: 'test-path', httpMethod: 'POST'})
+        .catch(() => {});
+      expect(events.map((event) => event.attempt)).toEqual([1, 2]);
+      expect(events[0].delay).toEqual(0);
+      expect(events[0].error).toBeInstanceOf(ServerError);
+    });
+
+    it('should keep a client-level onRetry when request options are set', async () => {
+      const onRetry = jasmine.createSpy('onRetry');
+      const client = retryClient({attempts: 2, onRetry, ...noBackoff});
+      spyOn(global, 'fetch').and.callFake(
+        freshResponses({'error': 'Internal Server Error'}, fetch500Options),
+      );
+      await client
+        .request({
+          path: 'test-path',
+          httpMethod: 'POST',
+          httpOptions: {headers: {'X-Test': 'value'}},
+        })
+        .catch(() => {});
+      expect(onRetry).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry network errors', async () => {
+      const client = retryClient({attempts: 3, ...noBackoff});
+      let call = 0;
+      const fetchSpy = spyOn(global, 'fetch').and.callFake(() => {
+        call++;
+        if (call === 1) {
+          return Promise.reject(
+            new TypeError('fetch failed', {
+              cause: Object.assign(new Error('socket hang up'), {
+                code: 'ECONNRESET',
+              }),
+            }),
+          );
+        }
+        return Promise.resolve(
+          new Response(JSON.stringify({'ok': true}), fetchOkOptions),
+        );
+      });
+      const response = await client.request({
+        path: 'test-path',
+        httpMethod: 'POST',
+      });
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+      expect(response).toBeDefined();
+    });
+
+    it('should not retry network errors when retryNetworkErrors is false', async () => {
+      const client = retryClient({
+        attempts: 3,
+        retryNetworkErrors: false,
+        ...noBackoff,
+      });
+      const fetchSpy = spyOn(global, 'fetch').and.rejectWith(
+        new TypeError('Failed to fetch'),
+      );
+      await expectAsync(
+        client.request({path: 'test-path', httpMethod: 'POST'}),
+      ).toBeRejectedWithError(TypeError, 'Failed to fetch');
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry other errors', async () => {
+      const client = retryClient({attempts: 3, ...noBackoff});
+      const fetchSpy = spyOn(global, 'fetch').and.rejectWith(
+        new TypeError('Invalid URL'),
+      );
+      await expectAsync(
+        client.request({path: 'test-path', httpMethod: 'POST'}),
+      ).toBeRejectedWithError(TypeError, 'Invalid URL');
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('getHeaders', () => {
@@ -2572,6 +2764,607 @@ describe('ApiClient', () => {
   });
 });
 
+describe('interceptors', () => {
+  function clientWith(
+    interceptors: HttpInterceptor[],
+    httpOptions?: types.HttpOptions,
+  ): ApiClient {
+    return new ApiClient({
+      auth: new FakeAuth('test-api-key'),
+      apiKey: 'test-api-key',
+      httpOptions,
+      interceptors,
+      uploader: new CrossUploader(),
+      downloader: new CrossDownloader(),
+    });
+  }
+
+  it('should let beforeRequest rewrite the url and headers', async () => {
+    const fetchSpy = spyOn(global, 'fetch').and.callFake(
+      freshResponses({}, fetchOkOptions),
+    );
+    const client = clientWith([
+      {
+        beforeRequest: (_ctx, request) => {
+          (request.init.headers as Headers).set('traceparent', 'trace-1');
+          return {...request, url: request.url + '?redirected=true'};
+        },
+      },
+    ]);
+
+    await client.request({path: 'test-path', httpMethod: 'POST'});
+
+    const [url, init] = fetchSpy.calls.mostRecent().args;
+    expect(url).toContain('test-path?redirected=true');
+    expect((init!.headers as Headers).get('traceparent')).toBe('trace-1');
+  });
+
+  it('should call the hooks of every interceptor in registration order', async () => {
+    spyOn(global, 'fetch').and.callFake(freshResponses({}, fetchOkOptions));
+    const calls: string[] = [];
+    const client = clientWith([
+      {
+        beforeRequest: (_ctx, request) => {
+          calls.push('first.beforeRequest');
+          return request;
+        },
+        afterSuccess: (_ctx, response) => {
+          calls.push('first.afterSuccess');
+          return response;
+        },
+      },
+      {
+        beforeRequest: (_ctx, request) => {
+          calls.push('second.beforeRequest');
+          return request;
+        },
+        afterSuccess: (_ctx, response) => {
+          calls.push('second.afterSuccess');
+          return response;
+        },
+      },
+    ]);
+
+    await client.request({path: 'test-path', httpMethod: 'POST'});
+
+    expect(calls).toEqual([
+      'first.beforeRequest',
+      'second.beforeRequest',
+      'first.afterSuccess',
+      'second.afterSuccess',
+    ]);
+  });
+
+  it('should let afterSuccess replace the response', async () => {
+    spyOn(global, 'fetch').and.callFake(
+      freshResponses({'secret': 'value'}, fetchOkOptions),
+    );
+    const client = clientWith([
+      {
+        afterSuccess: () =>
+          new Response(
+            JSON.stringify({'secret': '[REDACTED]'}),
+            fetchOkOptions,
+          ),
+      },
+    ]);
+
+    const response = await client.request({
+      path: 'test-path',
+      httpMethod: 'POST',
+    });
+
+    expect(await response.json()).toEqual({'secret': '[REDACTED]'});
+  });
+
+  it('should pass non-ok responses to afterError', async () => {
+    spyOn(global, 'fetch').and.callFake(
+      freshResponses({'error': 'Bad Request'}, fetch400Options),
+    );
+    const seen: Array<{status?: number; error: unknown}> = [];
+    const client = clientWith([
+      {
+        afterError: (_ctx, response, error) => {
+          seen.push({status: response?.status, error});
+          return {response, error};
+        },
+      },
+    ]);
+
+    await expectAsync(
+      client.request({path: 'test-path', httpMethod: 'POST'}),
+    ).toBeRejectedWith(jasmine.objectContaining({status: 400}));
+    expect(seen).toEqual([{status: 400, error: null}]);
+  });
+
+  it('should pass network errors to afterError and throw the returned error', async () => {
+    spyOn(global, 'fetch').and.rejectWith(new TypeError('fetch failed'));
+    const client = clientWith([
+      {
+        afterError: (_ctx, response, error) => ({
+          response,
+          error: new Error(`wrapped: ${(error as Error).message}`),
+        }),
+      },
+    ]);
+
+    await expectAsync(
+      client.request({path: 'test-path', httpMethod: 'POST'}),
+    ).toBeRejectedWithError('wrapped: fetch failed');
+  });
+
+  it('should let afterError recover with a replacement response', async () => {
+    spyOn(global, 'fetch').and.rejectWith(new TypeError('fetch failed'));
+    const client = clientWith([
+      {
+        afterError: () => ({
+          response: new Response(
+            JSON.stringify({'cached': true}),
+            fetchOkOptions,
+          ),
+          error: null,
+        }),
+      },
+    ]);
+
+    const response = await client.request({
+      path: 'test-path',
+      httpMethod: 'POST',
+    });
+
+    expect(await response.json()).toEqual({'cached': true});
+  });
+
+  it('should run once per retry attempt with the attempt number', async () => {
+    let call = 0;
+    spyOn(global, 'fetch').and.callFake(() => {
+      call++;
+      return call === 1
+        ? freshResponses({'error': 'Internal'}, fetch500Options)()
+        : freshResponses({}, fetchOkOptions)();
+    });
+    const attempts: number[] = [];
+    const client = clientWith(
+      [
+        {
+          beforeRequest: (ctx, request) => {
+            attempts.push(ctx.attempt);
+            return request;
+          },
+        },
+      ],
+      {retryOptions: {attempts: 3, ...noBackoff}},
+    );
+
+    await client.request({path: 'test-path', httpMethod: 'POST'});
+
+    expect(attempts).toEqual([1, 2]);
+  });
+
+  it('should mark streamed requests in the context', async () => {
+    spyOn(global, 'fetch').and.callFake(() =>
+      Promise.resolve(
+        new Response('data: {"candidates": []}\n\n', fetchOkOptions),
+      ),
+    );
+    const contexts: HttpInterceptorContext[] = [];
+    const client = clientWith([
+      {
+        afterSuccess: (ctx, response) => {
+          contexts.push(ctx);
+          return response;
+        },
+      },
+    ]);
+
+    const generator = await client.requestStream({
+      path: 'test-path',
+      httpMethod: 'POST',
+    });
+    for await (const _chunk of generator) {
+      // Drain the stream.
+    }
+
+    expect(contexts).toEqual([{stream: true, attempt: 1}]);
+  });
+});
+
+describe('custom fetch', () => {
+  it('should send requests through the custom fetch instead of the global fetch', async () => {
+    const globalFetch = spyOn(global, 'fetch');
+    const customFetch = jasmine
+      .createSpy('customFetch')
+      .and.callFake(freshResponses({}, fetchOkOptions));
+    const client = new ApiClient({
+      auth: new FakeAuth('test-api-key'),
+      apiKey: 'test-api-key',
+      fetch: customFetch,
+      uploader: new CrossUploader(),
+      downloader: new CrossDownloader(),
+    });
+
+    await client.request({path: 'test-path', httpMethod: 'POST'});
+
+    expect(customFetch).toHaveBeenCalledTimes(1);
+    expect(customFetch.calls.mostRecent().args[0]).toContain('test-path');
+    expect(globalFetch).not.toHaveBeenCalled();
+  });
+
+  it('should use the custom fetch for streamed requests and retries', async () => {
+    let call = 0;
+    const customFetch = jasmine.createSpy('customFetch').and.callFake(() => {
+      call++;
+      return call === 1
+        ? freshResponses({'error': 'Internal'}, fetch500Options)()
+        : Promise.resolve(
+            new Response('data: {"candidates": []}\n\n', fetchOkOptions),
+          );
+    });
+    const client = new ApiClient({
+      auth: new FakeAuth('test-api-key'),
+      apiKey: 'test-api-key',
+      httpOptions: {retryOptions: {attempts: 2, ...noBackoff}},
+      fetch: customFetch,
+      uploader: new CrossUploader(),
+      downloader: new CrossDownloader(),
+    });
+
+    const generator = await client.requestStream({
+      path: 'test-path',
+      httpMethod: 'POST',
+    });
+    const chunk = await generator.next();
+
+    expect(await chunk.value.json()).toEqual({candidates: []});
+    expect(customFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should upload files through the custom fetch', async () => {
+    const customFetch = jasmine.createSpy('customFetch').and.callFake(() =>
+      Promise.resolve(
+        new Response(JSON.stringify({file: {name: 'files/abc'}}), {
+          ...fetchOkOptions,
+          headers: {
+            'Content-Type': 'application/json',
+            'x-goog-upload-url': 'https://upload.example.com/upload',
+            'x-goog-upload-status': 'final',
+          },
+        }),
+      ),
+    );
+    const client = new ApiClient({
+      auth: new FakeAuth('test-api-key'),
+      apiKey: 'test-api-key',
+      fetch: customFetch,
+      uploader: new CrossUploader(),
+      downloader: new CrossDownloader(),
+    });
+
+    const file = await client.uploadFile(
+      new Blob(['hello'], {type: 'text/plain'}),
+    );
+
+    expect(file.name).toBe('files/abc');
+    // One call to start the resumable upload, one to upload the content.
+    expect(customFetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('rate limiting', () => {
+  function newClient(
+    rateLimit: RateLimitOptions,
+    httpOptions?: types.HttpOptions,
+  ): ApiClient {
+    return new ApiClient({
+      auth: new FakeAuth('test-api-key'),
+      apiKey: 'test-api-key',
+      httpOptions,
+      rateLimit,
+      uploader: new CrossUploader(),
+      downloader: new CrossDownloader(),
+    });
+  }
+
+  it('should limit concurrent requests', async () => {
+    const client = newClient({maxConcurrentRequests: 1});
+    const pending: Array<(response: Response) => void> = [];
+    const fetchSpy = spyOn(global, 'fetch').and.callFake(
+      () => new Promise<Response>((resolve) => pending.push(resolve)),
+    );
+
+    const first = client.request({
+      path: 'models/gemini-a:generateContent',
+      httpMethod: 'POST',
+    });
+    const second = client.request({
+      path: 'models/gemini-b:generateContent',
+      httpMethod: 'POST',
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    pending[0](new Response(JSON.stringify({}), fetchOkOptions));
+    await first;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+
+    pending[1](new Response(JSON.stringify({}), fetchOkOptions));
+    await second;
+  });
+
+  it('should count a streamed response until its body is done', async () => {
+    const client = newClient({maxConcurrentRequests: 1});
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode('data: {"n": 1}\n\n'));
+        controller.enqueue(encoder.encode('data: {"n": 2}\n\n'));
+      },
+    });
+    const fetchSpy = spyOn(global, 'fetch').and.returnValues(
+      Promise.resolve(new Response(body, fetchOkOptions)),
+      Promise.resolve(new Response(JSON.stringify({}), fetchOkOptions)),
+    );
+
+    const stream = await client.requestStream({
+      path: 'models/gemini:streamGenerateContent',
+      httpMethod: 'POST',
+    });
+    const second = client.request({
+      path: 'models/gemini:generateContent',
+      httpMethod: 'POST',
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    for await (const chunk of stream) {
+      expect(await chunk.json()).toEqual({n: 1});
+      // Leaving the stream early cancels its body.
+      break;
+    }
+    await second;
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should estimate tokens from the request body', async () => {
+    const estimateTokens = jasmine
+      .createSpy('estimateTokens')
+      .and.returnValue(10);
+    const client = newClient({tokensPerMinute: 1000, estimateTokens});
+    spyOn(global, 'fetch').and.callFake(freshResponses({}, fetchOkOptions));
+
+    await client.request({
+      path: 'models/gemini-2.5-flash:generateContent',
+      httpMethod: 'POST',
+      body: JSON.stringify({contents: [{parts: [{text: 'hi'}]}]}),
+    });
+
+    expect(estimateTokens).toHaveBeenCalledOnceWith({
+      model: 'gemini-2.5-flash',
+      path: 'models/gemini-2.5-flash:generateContent',
+      body: {contents: [{parts: [{text: 'hi'}]}]},
+    });
+  });
+
+  it('should count retries against the limit', async () => {
+    const client = newClient(
+      {requestsPerMinute: 2},
+      {retryOptions: {attempts: 3, initialDelay: 0, maxDelay: 0}},
+    );
+    const fetchSpy = spyOn(global, 'fetch').and.callFake(
+      freshResponses({'error': 'Internal Server Error'}, fetch500Options),
+    );
+
+    const request = client.request({
+      path: 'models/gemini:generateContent',
+      httpMethod: 'POST',
+    });
+    request.catch(() => {});
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    // The third attempt waits for the window to free up.
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('structured errors', () => {
+  function newClient(): ApiClient {
+    return new ApiClient({
+      auth: new FakeAuth('test-api-key'),
+      apiKey: 'test-api-key',
+      uploader: new CrossUploader(),
+      downloader: new CrossDownloader(),
+    });
+  }
+
+  async function requestError(response: Response): Promise<ApiError> {
+    spyOn(global, 'fetch').and.resolveTo(response);
+    try {
+      await newClient().request({path: 'test-path', httpMethod: 'POST'});
+    } catch (e) {
+      return e as ApiError;
+    }
+    throw new Error('Expected the request to fail.');
+  }
+
+  function errorResponse(
+    status: number,
+    error: Record<string, unknown>,
+    headers: Record<string, string> = {},
+  ): Response {
+    return new Response(JSON.stringify({error: {code: status, ...error}}), {
+      status,
+      headers: {'Content-Type': 'application/json', ...headers},
+    });
+  }
+
+  const statusCases: Array<{
+    status: number;
+    errorClass: typeof ApiError;
+  }> = [
+    {status: 400, errorClass: InvalidArgumentError},
+    {status: 401, errorClass: PermissionDeniedError},
+    {status: 403, errorClass: PermissionDeniedError},
+    {status: 404, errorClass: NotFoundError},
+    {status: 429, errorClass: RateLimitError},
+    {status: 500, errorClass: ServerError},
+    {status: 503, errorClass: ServerError},
+  ];
+  for (const {status, errorClass} of statusCases) {
+    it(`should throw ${errorClass.name} for status ${status}`, async () => {
+      const error = await requestError(
+        errorResponse(status, {message: 'failed'}),
+      );
+      expect(error).toBeInstanceOf(errorClass);
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.name).toEqual('ApiError');
+      expect(error.status).toEqual(status);
+    });
+  }
+
+  it('should throw a plain ApiError for other error statuses', async () => {
+    const error = await requestError(errorResponse(409, {message: 'conflict'}));
+    expect(error.constructor).toBe(ApiError);
+    expect(error.status).toEqual(409);
+  });
+
+  it('should parse quota failures and the retry delay', async () => {
+    const error = await requestError(
+      errorResponse(429, {
+        message: 'Resource has been exhausted',
+        status: 'RESOURCE_EXHAUSTED',
+        details: [
+          {
+            '@type': 'type.googleapis.com/google.rpc.QuotaFailure',
+            violations: [
+              {
+                quotaMetric:
+                  'generativelanguage.googleapis.com/generate_content_free_tier_requests',
+                quotaId: 'GenerateRequestsPerMinutePerProjectPerModel-FreeTier',
+                quotaDimensions: {model: 'gemini-2.0-flash'},
+                quotaValue: '15',
+              },
+            ],
+          },
+          {
+            '@type': 'type.googleapis.com/google.rpc.RetryInfo',
+            retryDelay: '12.5s',
+          },
+        ],
+      }),
+    );
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.rpcStatus).toEqual('RESOURCE_EXHAUSTED');
+    expect(error.details.length).toEqual(2);
+    expect(error.quotaFailure?.violations?.[0].quotaValue).toEqual('15');
+    expect(error.retryInfo?.retryDelay).toEqual('12.5s');
+    expect(error.retryDelay).toEqual(12.5);
+  });
+
+  it('should fall back to the Retry-After header', async () => {
+    const error = await requestError(
+      errorResponse(429, {message: 'slow down'}, {'Retry-After': '7'}),
+    );
+    expect(error.retryDelay).toEqual(7);
+    expect(error.responseHeaders?.['retry-after']).toEqual('7');
+  });
+
+  it('should parse a Retry-After HTTP date', async () => {
+    const retryAt = new Date(Date.now() + 30_000).toUTCString();
+    const error = await requestError(
+      errorResponse(503, {message: 'unavailable'}, {'Retry-After': retryAt}),
+    );
+    expect(error.retryDelay).toBeGreaterThan(25);
+    expect(error.retryDelay).toBeLessThanOrEqual(30);
+  });
+
+  it('should expose error info, bad request and request id details', async () => {
+    const error = await requestError(
+      errorResponse(400, {
+        message: 'API key not valid.',
+        status: 'INVALID_ARGUMENT',
+        details: [
+          {
+            '@type': 'type.googleapis.com/google.rpc.ErrorInfo',
+            reason: 'API_KEY_INVALID',
+            domain: 'googleapis.com',
+            metadata: {service: 'generativelanguage.googleapis.com'},
+          },
+          {
+            '@type': 'type.googleapis.com/google.rpc.BadRequest',
+            fieldViolations: [
+              {field: 'contents', description: 'contents is required'},
+            ],
+          },
+          {
+            '@type': 'type.googleapis.com/google.rpc.RequestInfo',
+            requestId: 'request-123',
+          },
+          'not a detail',
+        ],
+      }),
+    );
+    expect(error).toBeInstanceOf(InvalidArgumentError);
+    expect(error.details.length).toEqual(3);
+    expect(error.errorInfo?.reason).toEqual('API_KEY_INVALID');
+    expect(error.badRequest?.fieldViolations?.[0].field).toEqual('contents');
+    expect(error.requestId).toEqual('request-123');
+    expect(error.retryDelay).toBeUndefined();
+  });
+
+  it('should take the request id from the response headers', async () => {
+    const error = await requestError(
+      errorResponse(500, {message: 'boom'}, {'X-Request-Id': 'header-id'}),
+    );
+    expect(error.requestId).toEqual('header-id');
+  });
+
+  it('should classify errors that are not JSON', async () => {
+    const error = await requestError(
+      new Response('Not Found', {status: 404, statusText: 'Not Found'}),
+    );
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.details).toEqual([]);
+    expect(error.rpcStatus).toEqual('Not Found');
+  });
+
+  it('should classify errors sent inside a stream', async () => {
+    spyOn(global, 'fetch').and.resolveTo(
+      new Response(
+        JSON.stringify({
+          error: {
+            code: 429,
+            status: 'RESOURCE_EXHAUSTED',
+            message: 'quota',
+            details: [
+              {
+                '@type': 'type.googleapis.com/google.rpc.RetryInfo',
+                retryDelay: '3s',
+              },
+            ],
+          },
+        }),
+        fetchOkOptions,
+      ),
+    );
+    const stream = await newClient().requestStream({
+      path: 'test-path',
+      httpMethod: 'POST',
+    });
+    let caught: ApiError | undefined;
+    try {
+      for await (const _chunk of stream) {
+        // Drain the stream.
+      }
+    } catch (e) {
+      caught = e as ApiError;
+    }
+    expect(caught).toBeInstanceOf(RateLimitError);
+    expect(caught?.retryDelay).toEqual(3);
+  });
+});
+
 describe('error cause preservation', () => {
   it('should preserve cause on the thrown error when fetch rejects with a non-Error for request (unaryApiCall)', async () => {
     const client = new ApiClient({
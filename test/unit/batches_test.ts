@@ -0,0 +1,347 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {BatchJobResult} from '../../src/_batch_results.js';
+import {GoogleGenAI} from '../../src/client.js';
+import {BatchJobError, BatchJobTimeoutError} from '../../src/errors.js';
+import {
+  BatchJob,
+  EmbedContentResponse,
+  GenerateContentResponse,
+  JobState,
+} from '../../src/types.js';
+import {skipTimeouts} from '../_fake_timeouts.js';
+
+function jsonResponse(body: Record<string, unknown>): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: {'Content-Type': 'application/json'},
+  });
+}
+
+function batchResponse(
+  state: string,
+  fields: Record<string, unknown> = {},
+): Response {
+  return jsonResponse({
+    name: 'batches/abc',
+    metadata: {name: 'batches/abc', state, ...fields},
+  });
+}
+
+function textResponse(text: string): Record<string, unknown> {
+  return {candidates: [{content: {role: 'model', parts: [{text}]}}]};
+}
+
+async function readAll(
+  results: AsyncIterable<BatchJobResult>,
+): Promise<BatchJobResult[]> {
+  const all = [];
+  for await (const result of results) {
+    all.push(result);
+  }
+  return all;
+}
+
+describe('Batches', () => {
+  let client: GoogleGenAI;
+
+  beforeEach(() => {
+    client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+  });
+
+  describe('wait', () => {
+    let delays: number[];
+
+    beforeEach(() => {
+      delays = skipTimeouts();
+    });
+
+    it('polls a batch job until it ends', async () => {
+      const fetchSpy = spyOn(global, 'fetch').and.returnValues(
+        Promise.resolve(batchResponse('BATCH_STATE_RUNNING')),
+        Promise.resolve(
+          batchResponse('BATCH_STATE_SUCCEEDED', {
+            output: {responsesFile: 'files/output'},
+          }),
+        ),
+      );
+      const states: Array<JobState | undefined> = [];
+
+      const job = await client.batches.wait(
+        {name: 'batches/abc', state: JobState.JOB_STATE_PENDING},
+        {pollInterval: 10, onProgress: (current) => states.push(current.state)},
+      );
+
+      expect(job.state).toBe(JobState.JOB_STATE_SUCCEEDED);
+      expect(job.dest?.fileName).toBe('files/output');
+      expect(fetchSpy.calls.argsFor(0)[0]).toMatch(/\/batches\/abc$/);
+      expect(states).toEqual([
+        JobState.JOB_STATE_RUNNING,
+        JobState.JOB_STATE_SUCCEEDED,
+      ]);
+      expect(delays).toEqual([10000, 15000]);
+    });
+
+    it('returns a partially succeeded batch job', async () => {
+      const vertexClient = new GoogleGenAI({
+        vertexai: true,
+        apiKey: 'fake-api-key',
+      });
+      spyOn(global, 'fetch').and.returnValues(
+        Promise.resolve(
+          jsonResponse({
+            name: 'projects/p/locations/l/batchPredictionJobs/123',
+            state: 'JOB_STATE_RUNNING',
+          }),
+        ),
+        Promise.resolve(
+          jsonResponse({
+            name: 'projects/p/locations/l/batchPredictionJobs/123',
+            state: 'JOB_STATE_PARTIALLY_SUCCEEDED',
+          }),
+        ),
+      );
+
+      const job = await vertexClient.batches.wait({
+        name: 'projects/p/locations/l/batchPredictionJobs/123',
+        state: JobState.JOB_STATE_PENDING,
+      });
+
+      expect(job.state).toBe(JobState.JOB_STATE_PARTIALLY_SUCCEEDED);
+      expect(delays.length).toBe(2);
+    });
+
+    it('returns a cancelled batch job', async () => {
+      const fetchSpy = spyOn(global, 'fetch');
+      const job: BatchJob = {
+        name: 'batches/abc',
+        state: JobState.JOB_STATE_CANCELLED,
+      };
+
+      expect(await client.batches.wait(job)).toBe(job);
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('throws a BatchJobError when the batch job fails', async () => {
+      const job: BatchJob = {
+        name: 'batches/abc',
+        state: JobState.JOB_STATE_FAILED,
+        error: {code: 3, message: 'Invalid input file.'},
+      };
+
+      const error = await client.batches.wait(job).then(
+        () => undefined,
+        (e: unknown) => e,
+      );
+
+      expect(error).toBeInstanceOf(BatchJobError);
+      const batchJobError = error as BatchJobError;
+      expect(batchJobError.message).toBe(
+        'Batch job batches/abc ended in state JOB_STATE_FAILED: Invalid input file.',
+      );
+      expect(batchJobError.code).toBe(3);
+      expect(batchJobError.job).toBe(job);
+    });
+
+    it('throws a BatchJobTimeoutError after the timeout', async () => {
+      spyOn(global, 'fetch').and.callFake(async () =>
+        batchResponse('BATCH_STATE_RUNNING'),
+      );
+      let now = 0;
+      spyOn(Date, 'now').and.callFake(() => now);
+
+      await expectAsync(
+        client.batches.wait(
+          {name: 'batches/abc'},
+          {
+            pollInterval: 4,
+            backoff: 1,
+            timeout: 6,
+            onProgress: () => {
+              now += 4000;
+            },
+          },
+        ),
+      ).toBeRejectedWithError(
+        BatchJobTimeoutError,
+        'Batch job batches/abc did not complete within 6 seconds.',
+      );
+      expect(delays).toEqual([4000, 2000]);
+    });
+  });
+
+  describe('results', () => {
+    it('yields inlined responses', async () => {
+      spyOn(global, 'fetch').and.callFake(async () =>
+        batchResponse('BATCH_STATE_SUCCEEDED', {
+          output: {
+            inlinedResponses: {
+              inlinedResponses: [
+                {response: textResponse('Hi'), metadata: {key: 'a'}},
+                {error: {code: 8, message: 'Quota exceeded.'}},
+              ],
+            },
+          },
+        }),
+      );
+      const job = await client.batches.get({name: 'batches/abc'});
+
+      const results = await readAll(client.batches.results(job));
+
+      expect(results.length).toBe(2);
+      expect(results[0].key).toBe('a');
+      expect(results[0].response).toBeInstanceOf(GenerateContentResponse);
+      expect((results[0].response as GenerateContentResponse).text).toBe('Hi');
+      expect(results[1].response).toBeUndefined();
+      expect(results[1].error).toEqual({code: 8, message: 'Quota exceeded.'});
+    });
+
+    it('yields inlined embeddings', async () => {
+      const job: BatchJob = {
+        name: 'batches/abc',
+        dest: {
+          inlinedEmbedContentResponses: [
+            {response: {embedding: {values: [0.1, 0.2]}}},
+          ],
+        },
+      };
+
+      const results = await readAll(client.batches.results(job));
+
+      expect(results[0].response).toBeInstanceOf(EmbedContentResponse);
+      expect(results[0].response).toEqual(
+        jasmine.objectContaining({embeddings: [{values: [0.1, 0.2]}]}),
+      );
+    });
+
+    it('downloads and parses the output file', async () => {
+      const encoder = new TextEncoder();
+      const lines = [
+        JSON.stringify({key: 'a', response: textResponse('One')}),
+        JSON.stringify({key: 'b', error: {code: 3, message: 'Bad request.'}}),
+        JSON.stringify({key: 'c', response: {embedding: {values: [1]}}}),
+      ].join('\n');
+      const fetchSpy = spyOn(global, 'fetch').and.callFake(
+        async () =>
+          new Response(
+            new ReadableStream({
+              start(controller) {
+                // Splits a line across chunks.
+                controller.enqueue(encoder.encode(lines.slice(0, 20)));
+                controller.enqueue(encoder.encode(lines.slice(20) + '\n'));
+                controller.close();
+              },
+            }),
+            {status: 200},
+          ),
+      );
+
+      const results = await readAll(
+        client.batches.results({
+          name: 'batches/abc',
+          dest: {fileName: 'files/output'},
+        }),
+      );
+
+      expect(fetchSpy.calls.argsFor(0)[0]).toMatch(
+        /\/files\/output:download\?alt=media$/,
+      );
+      expect(results.map((result) => result.key)).toEqual(['a', 'b', 'c']);
+      expect((results[0].response as GenerateContentResponse).text).toBe('One');
+      expect(results[1].error).toEqual({code: 3, message: 'Bad request.'});
+      expect(results[2].response).toBeInstanceOf(EmbedContentResponse);
+    });
+
+    it('reads the JSONL files of the Cloud Storage output directory', async () => {
+      const vertexClient = new GoogleGenAI({
+        vertexai: true,
+        apiKey: 'fake-api-key',
+      });
+      const files: Record<string, string> = {
+        'output/predictions_1.jsonl': JSON.stringify({
+          request: {},
+          status: '',
+          response: textResponse('One'),
+        }),
+        'output/predictions_2.jsonl': JSON.stringify({
+          request: {},
+          status: 'Invalid argument.',
+        }),
+      };
+      const fetchSpy = spyOn(global, 'fetch').and.callFake(async (input) => {
+        const url = new URL(input as string);
+        if (url.searchParams.get('alt') === 'media') {
+          const name = decodeURIComponent(url.pathname.split('/o/')[1]);
+          return new Response(files[name] + '\n', {status: 200});
+        }
+        return url.searchParams.get('pageToken')
+          ? jsonResponse({items: [{name: 'output/predictions_1.jsonl'}]})
+          : jsonResponse({
+              items: [
+                {name: 'output/predictions_2.jsonl'},
+                {name: 'output/metadata.json'},
+              ],
+              nextPageToken: 'next',
+            });
+      });
+
+      const results = await readAll(
+        vertexClient.batches.results({
+          name: 'batchPredictionJobs/123',
+          outputInfo: {gcsOutputDirectory: 'gs://bucket/output'},
+        }),
+      );
+
+      const urls = fetchSpy.calls.allArgs().map((args) => args[0] as string);
+      expect(urls[0]).toBe(
+        'https://storage.googleapis.com/storage/v1/b/bucket/o?prefix=output%2F&fields=items%28name%29%2CnextPageToken',
+      );
+      expect(urls.slice(2)).toEqual([
+        'https://storage.googleapis.com/storage/v1/b/bucket/o/output%2Fpredictions_1.jsonl?alt=media',
+        'https://storage.googleapis.com/storage/v1/b/bucket/o/output%2Fpredictions_2.jsonl?alt=media',
+      ]);
+      expect((results[0].response as GenerateContentResponse).text).toBe('One');
+      expect(results[0].error).toBeUndefined();
+      expect(results[1].error).toEqual({message: 'Invalid argument.'});
+    });
+
+    it('reads BigQuery output with the reader of the config', async () => {
+      const vertexClient = new GoogleGenAI({
+        vertexai: true,
+        apiKey: 'fake-api-key',
+      });
+      const job: BatchJob = {
+        name: 'batchPredictionJobs/123',
+        outputInfo: {bigqueryOutputTable: 'bq://project.dataset.table'},
+      };
+      const read = jasmine.createSpy('read').and.callFake(async function* () {
+        yield {request: {}, status: '', response: textResponse('Two')};
+      });
+
+      const results = await readAll(
+        vertexClient.batches.results(job, {reader: {read}}),
+      );
+
+      expect(read).toHaveBeenCalledOnceWith(job);
+      expect((results[0].response as GenerateContentResponse).text).toBe('Two');
+    });
+
+    it('requires a reader for BigQuery output', async () => {
+      const job: BatchJob = {
+        name: 'batchPredictionJobs/123',
+        dest: {bigqueryUri: 'bq://project.dataset.table'},
+      };
+
+      await expectAsync(
+        readAll(client.batches.results(job)),
+      ).toBeRejectedWithError(
+        'Batch job batchPredictionJobs/123 wrote its results to ' +
+          'bq://project.dataset.table. Pass a reader in the config to read them.',
+      );
+    });
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  ChatHistoryContext,
+  slidingWindowHistory,
+  summarizingHistory,
+  tokenBudgetHistory,
+} from '../../src/chat_history_strategies.js';
+import {
+  Content,
+  CountTokensResponse,
+  GenerateContentResponse,
+} from '../../src/types.js';
+
+function user(text: string): Content {
+  return {role: 'user', parts: [{text}]};
+}
+
+function model(text: string): Content {
+  return {role: 'model', parts: [{text}]};
+}
+
+function textResponse(text: string): GenerateContentResponse {
+  const response = new GenerateContentResponse();
+  response.candidates = [{content: model(text)}];
+  return response;
+}
+
+function buildContext(
+  overrides: Partial<ChatHistoryContext> = {},
+): ChatHistoryContext {
+  return {
+    model: 'gemini-2.5-flash',
+    message: user('next'),
+    generateContent: async () => textResponse('summary'),
+    countTokens: async () => new CountTokensResponse(),
+    ...overrides,
+  };
+}
+
+const functionTurn: Content[] = [
+  user('weather in Boston?'),
+  {
+    role: 'model',
+    parts: [{functionCall: {name: 'getWeather', args: {city: 'Boston'}}}],
+  },
+  {
+    role: 'user',
+    parts: [{functionResponse: {name: 'getWeather', response: {temp: 20}}}],
+  },
+  model('It is 20 degrees.'),
+];
+
+describe('slidingWindowHistory', () => {
+  it('should send the most recent turns', async () => {
+    const history = [user('a'), model('1'), user('b'), model('2')];
+    const strategy = slidingWindowHistory({maxTurns: 1});
+
+    expect(await strategy.selectHistory(history, buildContext())).toEqual([
+      user('b'),
+      model('2'),
+    ]);
+  });
+
+  it('should keep function calls and responses in their turn', async () => {
+    const history = [user('a'), model('1'), ...functionTurn];
+    const strategy = slidingWindowHistory({maxTurns: 1});
+
+    expect(await strategy.selectHistory(history, buildContext())).toEqual(
+      functionTurn,
+    );
+  });
+
+  it('should reject a maxTurns that is not a positive integer', () => {
+    for (const maxTurns of [0, -1, 1.5]) {
+      expect(() => slidingWindowHistory({maxTurns})).toThrowError(
+        `maxTurns must be a positive integer, got ${maxTurns}.`,
+      );
+    }
+  });
+});
+
+describe('tokenBudgetHistory', () => {
+  // One token per character of text.
+  const countTokens = async (contents: Content[]) =>
+    contents
+      .flatMap((content) => content.parts ?? [])
+      .reduce((sum, part) => sum + (part.text?.length ?? 0), 0);
+
+  it('should send the most recent turns within the budget', async () => {
+    const history = [user('aaaa'), model('1111'), user('bb'), model('22')];
+    const strategy = tokenBudgetHistory({maxTokens: 9, countTokens});
+
+    // The message takes 4 tokens, the last turn 4 and the first turn 8.
+    expect(
+      await strategy.selectHistory(
+        history,
+        buildContext({message: user('next')}),
+      ),
+    ).toEqual([user('bb'), model('22')]);
+  });
+
+  it('should count each turn once', async () => {
+    const countSpy = jasmine.createSpy('countTokens').and.callFake(countTokens);
+    const strategy = tokenBudgetHistory({
+      maxTokens: 100,
+      countTokens: countSpy,
+    });
+    const history = [user('a'), model('1')];
+
+    await strategy.selectHistory(history, buildContext());
+    await strategy.selectHistory(
+      [...history, user('b'), model('2')],
+      buildContext({message: user('c')}),
+    );
+
+    // The first turn, the first message, the second turn and the second
+    // message.
+    expect(countSpy).toHaveBeenCalledTimes(4);
+  });
+
+  it('should count tokens with the model of the chat by default', async () => {
+    const response = new CountTokensResponse();
+    response.totalTokens = 5;
+    const countTokensSpy = jasmine
+      .createSpy('countTokens')
+      .and.resolveTo(response);
+    const strategy = tokenBudgetHistory({maxTokens: 12});
+    const history = [user('a'), model('1'), user('b'), model('2')];
+
+    expect(
+      await strategy.selectHistory(
+        history,
+        buildContext({countTokens: countTokensSpy}),
+      ),
+    ).toEqual([user('b'), model('2')]);
+    expect(countTokensSpy).toHaveBeenCalledWith({
+      model: 'gemini-2.5-flash',
+      contents: [user('next')],
+    });
+  });
+
+  it('should reject a maxTokens that is not a positive number', () => {
+    for (const maxTokens of [0, -1, NaN]) {
+      expect(() => tokenBudgetHistory({maxTokens})).toThrowError(
+        `maxTokens must be a positive number, got ${maxTokens}.`,
+      );
+    }
+  });
+});
+
+describe('summarizingHistory', () => {
+  const history = [
+    user('a'),
+    model('1'),
+    user('b'),
+    model('2'),
+    user('c'),
+    model('3'),
+  ];
+
+  it('should send a short history in full', async () => {
+    const generateContentSpy = jasmine.createSpy('generateContent');
+    const strategy = summarizingHistory({maxTurns: 3});
+
+    expect(
+      await strategy.selectHistory(
+        history,
+        buildContext({generateContent: generateContentSpy}),
+      ),
+    ).toEqual(history);
+    expect(generateContentSpy).not.toHaveBeenCalled();
+  });
+
+  it('should summarize older turns', async () => {
+    const generateContentSpy = jasmine
+      .createSpy('generateContent')
+      .and.resolveTo(textResponse('a and b were said'));
+    const strategy = summarizingHistory({
+      maxTurns: 2,
+      keepTurns: 1,
+      model: 'gemini-2.5-flash-lite',
+    });
+
+    expect(
+      await strategy.selectHistory(
+        history,
+        buildContext({generateContent: generateContentSpy}),
+      ),
+    ).toEqual([
+      user('Summary of the earlier conversation:\na and b were said'),
+      model('Understood.'),
+      user('c'),
+      model('3'),
+    ]);
+    expect(generateContentSpy).toHaveBeenCalledTimes(1);
+    const params = generateContentSpy.calls.mostRecent().args[0];
+    expect(params.model).toEqual('gemini-2.5-flash-lite');
+    expect(params.contents[0]).toContain('user: a\n\nmodel: 1');
+  });
+
+  it('should update the summary with newly old turns', async () => {
+    const generateContentSpy = jasmine
+      .createSpy('generateContent')
+      .and.returnValues(
+        Promise.resolve(textResponse('first')),
+        Promise.resolve(textResponse('second')),
+      );
+    const context = buildContext({generateContent: generateContentSpy});
+    const strategy = summarizingHistory({maxTurns: 2, keepTurns: 1});
+
+    await strategy.selectHistory(history, context);
+    // The summary is reused while no more turns get old.
+    await strategy.selectHistory(history, context);
+    const selected = await strategy.selectHistory(
+      [...history, user('d'), model('4')],
+      context,
+    );
+
+    expect(generateContentSpy).toHaveBeenCalledTimes(2);
+    const contents = generateContentSpy.calls.mostRecent().args[0].contents[0];
+    expect(contents).toContain('first');
+    expect(contents).toContain('user: c\n\nmodel: 3');
+    expect(contents).not.toContain('user: a');
+    expect(selected[0]).toEqual(
+      user('Summary of the earlier conversation:\nsecond'),
+    );
+  });
+
+  it('should throw when the model returns no summary', async () => {
+    const strategy = summarizingHistory({maxTurns: 1});
+
+    await expectAsync(
+      strategy.selectHistory(
+        history,
+        buildContext({
+          generateContent: async () => new GenerateContentResponse(),
+        }),
+      ),
+    ).toBeRejectedWithError(/did not return a summary/);
+  });
+
+  it('should reject invalid maxTurns and keepTurns', () => {
+    expect(() => summarizingHistory({maxTurns: 0})).toThrowError(
+      'maxTurns must be a positive integer, got 0.',
+    );
+    expect(() => summarizingHistory({maxTurns: 2, keepTurns: 3})).toThrowError(
+      'keepTurns must be an integer from 0 to maxTurns (2), got 3.',
+    );
+    expect(() => summarizingHistory({maxTurns: 2, keepTurns: -1})).toThrowError(
+      /keepTurns must be an integer/,
+    );
+  });
+});
@@ -4,9 +4,16 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import {AutomaticFunctionCallingOptions} from '../../src/_afc.js';
+import {Caches} from '../../src/caches.js';
+import {InMemoryChatHistoryStore} from '../../src/chat_history_store.js';
+import {slidingWindowHistory} from '../../src/chat_history_strategies.js';
+import {CHAT_SNAPSHOT_VERSION, ChatSnapshot} from '../../src/chats.js';
 import {GoogleGenAI} from '../../src/client.js';
 import {Models} from '../../src/models.js';
+import {GenerateContentStream} from '../../src/response_stream.js';
 import {
+  CallableTool,
   Content,
   FinishReason,
   GenerateContentResponse,
@@ -294,7 +301,7 @@ describe('sendMessageStream config', () => {
     client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
     modelsModule = client.models;
     modelsSpy = spyOn(modelsModule, 'generateContentStream').and.returnValue(
-      Promise.resolve(mockStreamResponse()),
+      Promise.resolve(new GenerateContentStream(mockStreamResponse())),
     );
   });
 
@@ -376,7 +383,7 @@ describe('sendMessageStream invalid response', () => {
     const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
     const modelsModule = client.models;
     spyOn(modelsModule, 'generateContentStream').and.returnValue(
-      Promise.resolve(mockStreamResponse()),
+      Promise.resolve(new GenerateContentStream(mockStreamResponse())),
     );
     const chat = client.chats.create({model: 'gemini-2.5-flash'});
     await chat.sendMessageStream({message: 'send message 1'});
@@ -420,7 +427,9 @@ describe('sendMessageStream valid response', () => {
     const modelsSpy = spyOn(
       modelsModule,
       'generateContentStream',
-    ).and.returnValue(Promise.resolve(mockStreamResponse()));
+    ).and.returnValue(
+      Promise.resolve(new GenerateContentStream(mockStreamResponse())),
+    );
     const chat = client.chats.create({model: 'gemini-2.5-flash'});
     const response1 = await chat.sendMessageStream({message: 'send message 1'});
     const chunks1 = [];
@@ -448,6 +457,112 @@ describe('sendMessageStream valid response', () => {
   });
 });
 
+describe('sendMessageStream streamed function calls', () => {
+  it('records the complete function calls in the history', async () => {
+    const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+    const chunks = [
+      buildGenerateContentResponse({
+        role: 'model',
+        parts: [
+          {text: 'Creating the event.'},
+          {
+            functionCall: {
+              name: 'createEvent',
+              id: 'call-1',
+              willContinue: true,
+            },
+          },
+        ],
+      }),
+      buildGenerateContentResponse({
+        role: 'model',
+        parts: [
+          {
+            functionCall: {
+              partialArgs: [
+                {jsonPath: '$.title', stringValue: 'Team ', willContinue: true},
+              ],
+              willContinue: true,
+            },
+          },
+        ],
+      }),
+      buildGenerateContentResponse(
+        {
+          role: 'model',
+          parts: [
+            {
+              functionCall: {
+                partialArgs: [{jsonPath: '$.title', stringValue: 'sync'}],
+              },
+            },
+          ],
+        },
+        FinishReason.STOP,
+      ),
+    ];
+    async function* mockStreamResponse() {
+      yield* chunks;
+    }
+    spyOn(client.models, 'generateContentStream').and.returnValue(
+      Promise.resolve(new GenerateContentStream(mockStreamResponse())),
+    );
+    const chat = client.chats.create({model: 'gemini-2.5-flash'});
+
+    const response = await chat.sendMessageStream({message: 'Plan a sync'});
+    for await (const _chunk of response) {
+      // No-op, consumes all chunks from the stream.
+    }
+
+    expect(chat.getHistory()).toEqual([
+      {role: 'user', parts: [{text: 'Plan a sync'}]},
+      {
+        role: 'model',
+        parts: [{text: 'Creating the event.'}],
+      },
+      {
+        role: 'model',
+        parts: [
+          {
+            functionCall: {
+              name: 'createEvent',
+              id: 'call-1',
+              args: {title: 'Team sync'},
+            },
+          },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('sendMessageStream abort', () => {
+  it('aborts the model stream and leaves the turn out of the history', async () => {
+    const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+    const modelStream = new GenerateContentStream(
+      (async function* () {
+        yield buildGenerateContentResponse({
+          role: 'model',
+          parts: [{text: 'response chunk 1'}],
+        });
+        await new Promise(() => {});
+      })(),
+    );
+    const abortSpy = spyOn(modelStream, 'abort').and.callThrough();
+    spyOn(client.models, 'generateContentStream').and.resolveTo(modelStream);
+    const chat = client.chats.create({model: 'gemini-2.5-flash'});
+
+    const stream = await chat.sendMessageStream({message: 'send message'});
+    await stream.next();
+    const read = stream.next();
+    stream.abort(new Error('Stopped.'));
+
+    await expectAsync(read).toBeRejectedWithError('Stopped.');
+    expect(abortSpy).toHaveBeenCalledOnceWith(new Error('Stopped.'));
+    expect(chat.getHistory()).toEqual([]);
+  });
+});
+
 describe('create chat with history', () => {
   it('throws error if history contains invalid role', async () => {
     const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
@@ -729,7 +844,7 @@ describe('getHistory', () => {
     const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
     const modelsModule = client.models;
     spyOn(modelsModule, 'generateContentStream').and.returnValue(
-      Promise.resolve(mockStreamResponse()),
+      Promise.resolve(new GenerateContentStream(mockStreamResponse())),
     );
     const chat = client.chats.create({
       model: 'gemini-2.5-flash',
@@ -979,3 +1094,391 @@ describe('getHistory', () => {
     expect(chat.getHistory(true)).toEqual(expectedHistory);
   });
 });
+
+describe('chat history strategy', () => {
+  it('should send the selected history and keep the full history', async () => {
+    const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+    const history: Content[] = [
+      {role: 'user', parts: [{text: 'hello'}]},
+      {role: 'model', parts: [{text: 'hi'}]},
+      {role: 'user', parts: [{text: 'hello again'}]},
+      {role: 'model', parts: [{text: 'hi again'}]},
+    ];
+    const chat = client.chats.create({
+      model: 'gemini-2.5-flash',
+      history,
+      historyStrategy: slidingWindowHistory({maxTurns: 1}),
+    });
+    const answer: Content = {role: 'model', parts: [{text: 'sunny'}]};
+    const generateContentSpy = spyOn(
+      client.models,
+      'generateContent',
+    ).and.resolveTo(buildGenerateContentResponse(answer));
+
+    await chat.sendMessage({message: 'weather?'});
+
+    const message: Content = {role: 'user', parts: [{text: 'weather?'}]};
+    expect(generateContentSpy).toHaveBeenCalledOnceWith({
+      model: 'gemini-2.5-flash',
+      contents: [history[2], history[3], message],
+      config: {},
+    });
+    expect(chat.getHistory()).toEqual([...history, message, answer]);
+  });
+});
+
+describe('chat branching', () => {
+  const functionCallTurn: Content[] = [
+    {role: 'user', parts: [{text: 'weather?'}]},
+    {
+      role: 'model',
+      parts: [
+        {
+          functionCall: {name: 'getWeather', args: {}},
+          thoughtSignature: 'c2lnbmF0dXJl',
+        },
+      ],
+    },
+    {
+      role: 'user',
+      parts: [{functionResponse: {name: 'getWeather', response: {}}}],
+    },
+    {role: 'model', parts: [{text: 'sunny'}]},
+  ];
+  const history: Content[] = [
+    {role: 'user', parts: [{text: 'hello'}]},
+    {role: 'model', parts: [{text: 'hi'}]},
+    ...functionCallTurn,
+  ];
+
+  function createChat() {
+    const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+    const chat = client.chats.create({model: 'gemini-2.5-flash', history});
+    return {client, chat};
+  }
+
+  it('fork copies the history into a new session', async () => {
+    const {client, chat} = createChat();
+    spyOn(client.models, 'generateContent').and.resolveTo(
+      buildGenerateContentResponse({role: 'model', parts: [{text: 'bye'}]}),
+    );
+
+    const forked = await chat.fork();
+    await forked.sendMessage({message: 'goodbye'});
+
+    expect(forked.getHistory().length).toBe(8);
+    expect(chat.getHistory()).toEqual(history);
+  });
+
+  it('rewind removes whole turns', async () => {
+    const {chat} = createChat();
+
+    const removed = await chat.rewind();
+
+    expect(removed).toEqual(functionCallTurn);
+    expect(chat.getHistory()).toEqual(history.slice(0, 2));
+    await expectAsync(chat.rewind(2)).toBeRejectedWithError(
+      /Cannot rewind 2 turns/,
+    );
+  });
+
+  it('regenerate replaces the last answer', async () => {
+    const {client, chat} = createChat();
+    const answer: Content = {role: 'model', parts: [{text: 'rainy'}]};
+    const generateContentSpy = spyOn(
+      client.models,
+      'generateContent',
+    ).and.resolveTo(buildGenerateContentResponse(answer));
+
+    await chat.regenerate({temperature: 1});
+
+    expect(generateContentSpy).toHaveBeenCalledOnceWith({
+      model: 'gemini-2.5-flash',
+      contents: [history[0], history[1], functionCallTurn[0]],
+      config: {temperature: 1},
+    });
+    expect(chat.getHistory()).toEqual([
+      ...history.slice(0, 2),
+      functionCallTurn[0],
+      answer,
+    ]);
+  });
+
+  it('editTurn sends the new message after the earlier turns', async () => {
+    const {client, chat} = createChat();
+    const answer: Content = {role: 'model', parts: [{text: 'hello'}]};
+    const generateContentSpy = spyOn(
+      client.models,
+      'generateContent',
+    ).and.resolveTo(buildGenerateContentResponse(answer));
+
+    await chat.editTurn(0, 'hi there');
+
+    const message: Content = {role: 'user', parts: [{text: 'hi there'}]};
+    expect(generateContentSpy).toHaveBeenCalledOnceWith({
+      model: 'gemini-2.5-flash',
+      contents: [message],
+      config: {},
+    });
+    expect(chat.getHistory()).toEqual([message, answer]);
+    await expectAsync(chat.editTurn(3, 'hi')).toBeRejectedWithError(
+      /Turn 3 does not exist/,
+    );
+  });
+
+  it('editTurn keeps the history when the request fails', async () => {
+    const {client, chat} = createChat();
+    spyOn(client.models, 'generateContent').and.rejectWith(new Error('failed'));
+
+    await expectAsync(chat.editTurn(1, 'snow?')).toBeRejectedWithError(
+      'failed',
+    );
+
+    // The thought signature of the function call is kept.
+    expect(chat.getHistory()).toEqual(history);
+  });
+
+  it('waits for the previous message to be processed', async () => {
+    const {client, chat} = createChat();
+    const answer: Content = {role: 'model', parts: [{text: 'bye'}]};
+    spyOn(client.models, 'generateContent').and.resolveTo(
+      buildGenerateContentResponse(answer),
+    );
+
+    const sent = chat.sendMessage({message: 'goodbye'});
+    const forked = await chat.fork();
+    await sent;
+
+    expect(forked.getHistory().length).toBe(8);
+  });
+});
+
+describe('chat context caching', () => {
+  it('should send the cached history by reference and delete it on close', async () => {
+    const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+    const history: Content[] = [
+      {role: 'user', parts: [{text: 'a large document'}]},
+      {role: 'model', parts: [{text: 'ok'}]},
+    ];
+    const chat = client.chats.create({
+      model: 'gemini-2.5-flash',
+      config: {systemInstruction: 'Be brief.'},
+      history,
+      contextCache: {minTokens: 10, countTokens: async () => 10},
+    });
+    // The chat session creates its own `Caches` module.
+    const createSpy = spyOn(Caches.prototype, 'create').and.resolveTo({
+      name: 'cachedContents/1',
+    });
+    const deleteSpy = spyOn(Caches.prototype, 'delete').and.resolveTo({});
+    const answer: Content = {role: 'model', parts: [{text: 'sunny'}]};
+    const generateContentSpy = spyOn(
+      client.models,
+      'generateContent',
+    ).and.resolveTo(buildGenerateContentResponse(answer));
+
+    await chat.sendMessage({message: 'weather?'});
+    await chat.close();
+
+    const message: Content = {role: 'user', parts: [{text: 'weather?'}]};
+    expect(createSpy).toHaveBeenCalledOnceWith({
+      model: 'gemini-2.5-flash',
+      config: {
+        contents: history,
+        systemInstruction: 'Be brief.',
+        tools: undefined,
+        toolConfig: undefined,
+        ttl: '300s',
+      },
+    });
+    expect(generateContentSpy).toHaveBeenCalledOnceWith({
+      model: 'gemini-2.5-flash',
+      contents: [message],
+      config: {cachedContent: 'cachedContents/1'},
+    });
+    expect(chat.getHistory()).toEqual([...history, message, answer]);
+    expect(deleteSpy).toHaveBeenCalledOnceWith({name: 'cachedContents/1'});
+  });
+});
+
+describe('chat snapshots', () => {
+  const history: Content[] = [
+    {role: 'user', parts: [{text: 'hello'}]},
+    {role: 'model', parts: []},
+    {role: 'user', parts: [{text: 'hello again'}]},
+    {role: 'model', parts: [{text: 'hi'}]},
+  ];
+  const callableTool: CallableTool = {
+    tool: async () => ({functionDeclarations: [{name: 'getWeather'}]}),
+    callTool: async () => [],
+  };
+
+  it('toJSON returns a serializable snapshot', () => {
+    const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+    const automaticFunctionCalling: AutomaticFunctionCallingOptions = {
+      maximumRemoteCalls: 3,
+      approveFunctionCall: () => true,
+    };
+    const chat = client.chats.create({
+      model: 'gemini-2.5-flash',
+      config: {
+        temperature: 0.5,
+        abortSignal: new AbortController().signal,
+        tools: [callableTool, {googleSearch: {}}],
+        automaticFunctionCalling,
+      },
+      history,
+    });
+
+    const snapshot = chat.toJSON();
+
+    expect(snapshot).toEqual({
+      version: CHAT_SNAPSHOT_VERSION,
+      model: 'gemini-2.5-flash',
+      config: {
+        temperature: 0.5,
+        tools: [{googleSearch: {}}],
+        automaticFunctionCalling: {maximumRemoteCalls: 3},
+      },
+      history,
+      curatedHistory: [history[2], history[3]],
+    });
+    expect(JSON.parse(JSON.stringify(chat))).toEqual(snapshot);
+  });
+
+  it('restore continues the chat session', async () => {
+    const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+    const chat = client.chats.create({
+      model: 'gemini-2.5-flash',
+      config: {temperature: 0.5},
+      history,
+    });
+    const generateContentSpy = spyOn(
+      client.models,
+      'generateContent',
+    ).and.resolveTo(
+      buildGenerateContentResponse({role: 'model', parts: [{text: 'sunny'}]}),
+    );
+
+    const restored = client.chats.restore(JSON.stringify(chat), {
+      config: {tools: [callableTool]},
+    });
+    await restored.sendMessage({message: 'weather?'});
+
+    expect(generateContentSpy).toHaveBeenCalledOnceWith({
+      model: 'gemini-2.5-flash',
+      contents: [
+        history[2],
+        history[3],
+        {role: 'user', parts: [{text: 'weather?'}]},
+      ],
+      config: {temperature: 0.5, tools: [callableTool]},
+    });
+    expect(restored.getHistory().length).toBe(6);
+    // The original session is not affected.
+    expect(chat.getHistory().length).toBe(4);
+  });
+
+  it('restore adds the supplied tools to the tools of the snapshot', async () => {
+    const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+    const chat = client.chats.create({
+      model: 'gemini-2.5-flash',
+      config: {tools: [callableTool, {googleSearch: {}}]},
+      history,
+    });
+    const generateContentSpy = spyOn(
+      client.models,
+      'generateContent',
+    ).and.resolveTo(
+      buildGenerateContentResponse({role: 'model', parts: [{text: 'sunny'}]}),
+    );
+
+    const restored = client.chats.restore(chat.toJSON(), {
+      config: {temperature: 0.5, tools: [callableTool]},
+    });
+    await restored.sendMessage({message: 'weather?'});
+
+    expect(generateContentSpy.calls.mostRecent().args[0].config).toEqual({
+      temperature: 0.5,
+      tools: [{googleSearch: {}}, callableTool],
+    });
+  });
+
+  it('restore sets the history strategy and context cache', async () => {
+    const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+    const validHistory: Content[] = [
+      {role: 'user', parts: [{text: 'hello'}]},
+      {role: 'model', parts: [{text: 'hi'}]},
+      {role: 'user', parts: [{text: 'hello again'}]},
+      {role: 'model', parts: [{text: 'hi again'}]},
+    ];
+    const snapshot = client.chats
+      .create({model: 'gemini-2.5-flash', history: validHistory})
+      .toJSON();
+    const createSpy = spyOn(Caches.prototype, 'create').and.resolveTo({
+      name: 'cachedContents/1',
+    });
+    const generateContentSpy = spyOn(
+      client.models,
+      'generateContent',
+    ).and.resolveTo(
+      buildGenerateContentResponse({role: 'model', parts: [{text: 'sunny'}]}),
+    );
+
+    const restored = client.chats.restore(snapshot, {
+      historyStrategy: slidingWindowHistory({maxTurns: 1}),
+      contextCache: {minTokens: 10, countTokens: async () => 10},
+    });
+    await restored.sendMessage({message: 'weather?'});
+
+    expect(createSpy).toHaveBeenCalledOnceWith(
+      jasmine.objectContaining({
+        config: jasmine.objectContaining({
+          contents: [validHistory[2], validHistory[3]],
+        }),
+      }),
+    );
+    expect(generateContentSpy).toHaveBeenCalledOnceWith({
+      model: 'gemini-2.5-flash',
+      contents: [{role: 'user', parts: [{text: 'weather?'}]}],
+      config: {cachedContent: 'cachedContents/1'},
+    });
+  });
+
+  it('restore rejects unsupported snapshots', () => {
+    const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+    const snapshot: ChatSnapshot = {
+      version: CHAT_SNAPSHOT_VERSION + 1,
+      model: 'gemini-2.5-flash',
+      history: [],
+      curatedHistory: [],
+    };
+
+    expect(() => client.chats.restore(snapshot)).toThrowError(
+      /Unsupported chat snapshot version/,
+    );
+    expect(() =>
+      client.chats.restore({
+        version: CHAT_SNAPSHOT_VERSION,
+      } as ChatSnapshot),
+    ).toThrowError(/must have a model and a history/);
+  });
+
+  it('InMemoryChatHistoryStore saves copies of the snapshots', async () => {
+    const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+    const store = new InMemoryChatHistoryStore();
+    const snapshot = client.chats
+      .create({model: 'gemini-2.5-flash', history})
+      .toJSON();
+
+    await store.save('session-1', snapshot);
+    snapshot.history.length = 0;
+
+    const loaded = await store.load('session-1');
+    expect(loaded?.history).toEqual(history);
+    expect(client.chats.restore(loaded!).getHistory()).toEqual(history);
+
+    await store.delete('session-1');
+    expect(await store.load('session-1')).toBeUndefined();
+  });
+});
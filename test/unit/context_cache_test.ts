@@ -0,0 +1,353 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {GoogleGenAI} from '../../src/client.js';
+import {ContextCache} from '../../src/context_cache.js';
+import {NotFoundError} from '../../src/errors.js';
+import {
+  CachedContent,
+  CallableTool,
+  Content,
+  GenerateContentResponse,
+} from '../../src/types.js';
+
+function user(text: string): Content {
+  return {role: 'user', parts: [{text}]};
+}
+
+// One token per character of text.
+const countTokens = async (contents: Content[]) =>
+  contents
+    .flatMap((content) => content.parts ?? [])
+    .reduce((sum, part) => sum + (part.text?.length ?? 0), 0);
+
+describe('ContextCache', () => {
+  let client: GoogleGenAI;
+  let createSpy: jasmine.Spy;
+  let updateSpy: jasmine.Spy;
+  let deleteSpy: jasmine.Spy;
+  let generateContentSpy: jasmine.Spy;
+  let cacheCount: number;
+
+  beforeEach(() => {
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date(Date.UTC(2025, 0, 1)));
+    client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+    cacheCount = 0;
+    createSpy = spyOn(client.caches, 'create').and.callFake(async () => {
+      cacheCount++;
+      const cached: CachedContent = {
+        name: `cachedContents/${cacheCount}`,
+        expireTime: new Date(Date.now() + 300_000).toISOString(),
+      };
+      return cached;
+    });
+    updateSpy = spyOn(client.caches, 'update').and.callFake(
+      async () =>
+        ({
+          expireTime: new Date(Date.now() + 300_000).toISOString(),
+        }) as CachedContent,
+    );
+    deleteSpy = spyOn(client.caches, 'delete').and.resolveTo({});
+    generateContentSpy = spyOn(client.models, 'generateContent').and.resolveTo(
+      new GenerateContentResponse(),
+    );
+  });
+
+  afterEach(() => {
+    jasmine.clock().uninstall();
+  });
+
+  function newCache(minTokens = 10) {
+    return new ContextCache(client.models, client.caches, {
+      minTokens,
+      countTokens,
+    });
+  }
+
+  it('should send small prefixes as they are', async () => {
+    const cache = newCache();
+    const params = {
+      model: 'gemini-2.5-flash',
+      contents: [user('short'), user('question')],
+    };
+
+    await cache.generateContent(params);
+
+    expect(createSpy).not.toHaveBeenCalled();
+    expect(generateContentSpy).toHaveBeenCalledOnceWith(params);
+  });
+
+  it('should cache a large prefix and send the rest', async () => {
+    const cache = newCache();
+    const document = user('a large document');
+
+    await cache.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: [document, user('first question')],
+      config: {
+        systemInstruction: 'Be brief.',
+        temperature: 0,
+      },
+    });
+    await cache.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: [document, user('second question')],
+      config: {
+        systemInstruction: 'Be brief.',
+        temperature: 0,
+      },
+    });
+
+    expect(createSpy).toHaveBeenCalledOnceWith({
+      model: 'gemini-2.5-flash',
+      config: {
+        contents: [document],
+        systemInstruction: 'Be brief.',
+        tools: undefined,
+        toolConfig: undefined,
+        ttl: '300s',
+      },
+    });
+    expect(generateContentSpy.calls.argsFor(1)).toEqual([
+      {
+        model: 'gemini-2.5-flash',
+        contents: [user('second question')],
+        config: {temperature: 0, cachedContent: 'cachedContents/1'},
+      },
+    ]);
+    expect(cache.cachedContent).toEqual('cachedContents/1');
+  });
+
+  it('should replace the cache when the prefix changes', async () => {
+    const cache = newCache();
+
+    await cache.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: [user('a large document'), user('question')],
+    });
+    await cache.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: [user('another large document'), user('question')],
+    });
+
+    expect(createSpy).toHaveBeenCalledTimes(2);
+    expect(deleteSpy).toHaveBeenCalledOnceWith({name: 'cachedContents/1'});
+    expect(cache.cachedContent).toEqual('cachedContents/2');
+  });
+
+  it('should cache a larger prefix once enough contents are added', async () => {
+    const cache = newCache();
+    const history = [user('a large document'), user('small')];
+
+    await cache.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: [...history, user('question')],
+    });
+    await cache.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: [...history, user('more'), user('question')],
+    });
+    expect(createSpy).toHaveBeenCalledTimes(1);
+    expect(generateContentSpy.calls.argsFor(1)[0].contents).toEqual([
+      user('more'),
+      user('question'),
+    ]);
+
+    await cache.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: [
+        ...history,
+        user('more'),
+        user('a larger addition to it'),
+        user('question'),
+      ],
+    });
+    expect(createSpy).toHaveBeenCalledTimes(2);
+    expect(deleteSpy).toHaveBeenCalledOnceWith({name: 'cachedContents/1'});
+    expect(generateContentSpy.calls.argsFor(2)[0].contents).toEqual([
+      user('question'),
+    ]);
+  });
+
+  it('should extend the TTL while the cache is used', async () => {
+    const cache = newCache();
+    const params = {
+      model: 'gemini-2.5-flash',
+      contents: [user('a large document'), user('question')],
+    };
+
+    await cache.generateContent(params);
+    jasmine.clock().tick(100_000);
+    await cache.generateContent(params);
+    expect(updateSpy).not.toHaveBeenCalled();
+
+    jasmine.clock().tick(100_000);
+    await cache.generateContent(params);
+    expect(updateSpy).toHaveBeenCalledOnceWith({
+      name: 'cachedContents/1',
+      config: {ttl: '300s'},
+    });
+
+    // Still valid 400s after it was created.
+    jasmine.clock().tick(200_000);
+    await cache.generateContent(params);
+    expect(createSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop using the cache when refreshing it fails', async () => {
+    const onError = jasmine.createSpy('onError');
+    const cache = new ContextCache(client.models, client.caches, {
+      minTokens: 10,
+      countTokens,
+      onError,
+    });
+    const params = {
+      model: 'gemini-2.5-flash',
+      contents: [user('a large document'), user('question')],
+    };
+    await cache.generateContent(params);
+    const error = new Error('expired');
+    updateSpy.and.rejectWith(error);
+
+    jasmine.clock().tick(200_000);
+    await cache.generateContent(params);
+
+    expect(onError).toHaveBeenCalledOnceWith(error);
+    expect(cache.cachedContent).toBeUndefined();
+    expect(generateContentSpy.calls.mostRecent().args[0]).toEqual(params);
+
+    await cache.generateContent(params);
+    expect(createSpy).toHaveBeenCalledTimes(2);
+    expect(cache.cachedContent).toBe('cachedContents/2');
+  });
+
+  it('should create a new cache when the cache was not found', async () => {
+    const cache = newCache();
+    const params = {
+      model: 'gemini-2.5-flash',
+      contents: [user('a large document'), user('question')],
+    };
+    await cache.generateContent(params);
+    const error = new NotFoundError({
+      message: 'Cached content not found.',
+      status: 404,
+    });
+    generateContentSpy.and.rejectWith(error);
+
+    await expectAsync(cache.generateContent(params)).toBeRejectedWith(error);
+    expect(cache.cachedContent).toBeUndefined();
+
+    generateContentSpy.and.resolveTo(new GenerateContentResponse());
+    await cache.generateContent(params);
+    expect(createSpy).toHaveBeenCalledTimes(2);
+    expect(generateContentSpy.calls.mostRecent().args[0]).toEqual({
+      model: 'gemini-2.5-flash',
+      contents: [user('question')],
+      config: {cachedContent: 'cachedContents/2'},
+    });
+  });
+
+  it('should send requests with callable tools as they are', async () => {
+    const cache = newCache();
+    const tool: CallableTool = {
+      tool: async () => ({functionDeclarations: []}),
+      callTool: async () => [],
+    };
+    const params = {
+      model: 'gemini-2.5-flash',
+      contents: [user('a large document'), user('question')],
+      config: {tools: [tool]},
+    };
+
+    await cache.generateContent(params);
+
+    expect(createSpy).not.toHaveBeenCalled();
+    expect(generateContentSpy).toHaveBeenCalledOnceWith(params);
+  });
+
+  it('should send the request without a cache when creating it fails', async () => {
+    const onError = jasmine.createSpy('onError');
+    const cache = new ContextCache(client.models, client.caches, {
+      minTokens: 10,
+      countTokens,
+      onError,
+    });
+    const error = new Error('too small');
+    createSpy.and.rejectWith(error);
+    const params = {
+      model: 'gemini-2.5-flash',
+      contents: [user('a large document'), user('question')],
+    };
+
+    await cache.generateContent(params);
+
+    expect(onError).toHaveBeenCalledOnceWith(error);
+    expect(generateContentSpy).toHaveBeenCalledOnceWith(params);
+  });
+
+  it('should send the request without a cache when counting fails', async () => {
+    const onError = jasmine.createSpy('onError');
+    const error = new Error('count failed');
+    const cache = new ContextCache(client.models, client.caches, {
+      minTokens: 10,
+      countTokens: async () => {
+        throw error;
+      },
+      onError,
+    });
+    const params = {
+      model: 'gemini-2.5-flash',
+      contents: [user('a large document'), user('question')],
+    };
+
+    await cache.generateContent(params);
+
+    expect(onError).toHaveBeenCalledOnceWith(error);
+    expect(createSpy).not.toHaveBeenCalled();
+    expect(generateContentSpy).toHaveBeenCalledOnceWith(params);
+  });
+
+  it('should count tokens with the model by default', async () => {
+    const countTokensSpy = spyOn(client.models, 'countTokens').and.resolveTo({
+      totalTokens: 2000,
+    });
+    const cache = new ContextCache(client.models, client.caches);
+
+    await cache.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: [user('a large document'), user('question')],
+    });
+
+    expect(countTokensSpy).toHaveBeenCalledOnceWith({
+      model: 'gemini-2.5-flash',
+      contents: [user('a large document')],
+    });
+    expect(createSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should delete the cache on close', async () => {
+    const cache = newCache();
+    const params = {
+      model: 'gemini-2.5-flash',
+      contents: [user('a large document'), user('question')],
+    };
+    await cache.generateContent(params);
+
+    await cache.close();
+    await cache.generateContent(params);
+
+    expect(deleteSpy).toHaveBeenCalledOnceWith({name: 'cachedContents/1'});
+    expect(cache.cachedContent).toBeUndefined();
+    expect(generateContentSpy.calls.argsFor(1)).toEqual([params]);
+  });
+
+  it('should reject invalid TTLs', () => {
+    expect(
+      () => new ContextCache(client.models, client.caches, {ttl: '5m'}),
+    ).toThrowError(/positive duration/);
+  });
+});
@@ -14,7 +14,14 @@ import {
   TokenizerPlatform,
 } from '../../../../src/cross/tokenizer/_interfaces.js';
 import {LocalTokenizer} from '../../../../src/cross/tokenizer/_local_tokenizer_impl.js';
-import {Content, CountTokensConfig, Tool, Type} from '../../../../src/types.js';
+import {
+  Content,
+  CountTokensConfig,
+  MediaModality,
+  MediaResolution,
+  Tool,
+  Type,
+} from '../../../../src/types.js';
 
 describe('LocalTokenizer', () => {
   let mockCache: jasmine.SpyObj<TokenizerCache>;
@@ -492,17 +499,58 @@ describe('LocalTokenizer', () => {
       );
     });
 
-    it('should throw error for non-text content in countTokens', async () => {
+    it('should throw error for media of unknown duration in countTokens', async () => {
       const content: Content = {
         role: 'user',
-        parts: [{fileData: {mimeType: 'image/png', fileUri: 'gs://test'}}],
+        parts: [{fileData: {mimeType: 'audio/mp3', fileUri: 'gs://test'}}],
       };
 
       await expectAsync(tokenizer.countTokens(content)).toBeRejectedWithError(
-        /LocalTokenizers do not support non-text content types/,
+        /Cannot estimate the tokens of audio\/mp3 gs:\/\/test: its duration is unknown/,
       );
     });
 
+    it('should estimate the tokens of media in countTokens', async () => {
+      const content: Content = {
+        role: 'user',
+        parts: [
+          {text: 'Describe these'},
+          {fileData: {mimeType: 'image/png', fileUri: 'gs://image'}},
+          {
+            fileData: {mimeType: 'video/mp4', fileUri: 'gs://video'},
+            videoMetadata: {startOffset: '0s', endOffset: '10s'},
+          },
+        ],
+      };
+
+      const result = await tokenizer.countTokens(content);
+
+      expect(result).toEqual({
+        totalTokens: 2 + 258 + 2580 + 320,
+        promptTokensDetails: [
+          {modality: MediaModality.TEXT, tokenCount: 2},
+          {modality: MediaModality.IMAGE, tokenCount: 258},
+          {modality: MediaModality.VIDEO, tokenCount: 2580},
+          {modality: MediaModality.AUDIO, tokenCount: 320},
+        ],
+      });
+    });
+
+    it('should use the media resolution of the config in countTokens', async () => {
+      const content: Content = {
+        role: 'user',
+        parts: [{fileData: {mimeType: 'image/png', fileUri: 'gs://image'}}],
+      };
+
+      const result = await tokenizer.countTokens(content, {
+        generationConfig: {
+          mediaResolution: MediaResolution.MEDIA_RESOLUTION_LOW,
+        },
+      });
+
+      expect(result.totalTokens).toBe(64);
+    });
+
     it('should throw error for non-text content in computeTokens', async () => {
       const content: Content = {
         role: 'user',
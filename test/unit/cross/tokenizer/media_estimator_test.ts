@@ -0,0 +1,203 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {estimateMediaTokens} from '../../../../src/cross/tokenizer/_media_estimator.js';
+import {
+  MediaModality,
+  MediaResolution,
+  PartMediaResolutionLevel,
+} from '../../../../src/types.js';
+
+function base64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function png(width: number, height: number): string {
+  const bytes = new Uint8Array(24);
+  bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(8, 13);
+  bytes.set([0x49, 0x48, 0x44, 0x52], 12);
+  view.setUint32(16, width);
+  view.setUint32(20, height);
+  return base64(bytes);
+}
+
+function wav(seconds: number): string {
+  const byteRate = 16000 * 2;
+  const bytes = new Uint8Array(44);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x52, 0x49, 0x46, 0x46], 0);
+  bytes.set([0x57, 0x41, 0x56, 0x45], 8);
+  bytes.set([0x66, 0x6d, 0x74, 0x20], 12);
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, 16000, true);
+  view.setUint32(28, byteRate, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  bytes.set([0x64, 0x61, 0x74, 0x61], 36);
+  view.setUint32(40, seconds * byteRate, true);
+  return base64(bytes);
+}
+
+describe('estimateMediaTokens', () => {
+  describe('images', () => {
+    it('counts a small image as one tile', () => {
+      expect(
+        estimateMediaTokens({
+          inlineData: {mimeType: 'image/png', data: png(300, 200)},
+        }),
+      ).toEqual([{modality: MediaModality.IMAGE, tokenCount: 258}]);
+    });
+
+    it('counts the 768x768 tiles of a large image', () => {
+      expect(
+        estimateMediaTokens({
+          inlineData: {mimeType: 'image/png', data: png(1000, 1600)},
+        }),
+      ).toEqual([{modality: MediaModality.IMAGE, tokenCount: 258 * 6}]);
+    });
+
+    it('counts an image of unknown size as one tile', () => {
+      expect(
+        estimateMediaTokens({
+          fileData: {mimeType: 'image/jpeg', fileUri: 'gs://bucket/a.jpg'},
+        }),
+      ).toEqual([{modality: MediaModality.IMAGE, tokenCount: 258}]);
+    });
+
+    it('uses the media resolution of the part over the request', () => {
+      const part = {
+        inlineData: {mimeType: 'image/png', data: png(1000, 1600)},
+        mediaResolution: {
+          level: PartMediaResolutionLevel.MEDIA_RESOLUTION_HIGH,
+        },
+      };
+
+      expect(
+        estimateMediaTokens(part, MediaResolution.MEDIA_RESOLUTION_LOW),
+      ).toEqual([{modality: MediaModality.IMAGE, tokenCount: 1120}]);
+    });
+
+    it('uses the media resolution of the request', () => {
+      expect(
+        estimateMediaTokens(
+          {inlineData: {mimeType: 'image/png', data: png(1000, 1600)}},
+          MediaResolution.MEDIA_RESOLUTION_LOW,
+        ),
+      ).toEqual([{modality: MediaModality.IMAGE, tokenCount: 64}]);
+    });
+
+    it('uses the number of tokens of the part', () => {
+      expect(
+        estimateMediaTokens({
+          fileData: {mimeType: 'image/png', fileUri: 'gs://bucket/a.png'},
+          mediaResolution: {numTokens: 100},
+        }),
+      ).toEqual([{modality: MediaModality.IMAGE, tokenCount: 100}]);
+    });
+  });
+
+  describe('audio', () => {
+    it('reads the duration of WAV data', () => {
+      expect(
+        estimateMediaTokens({
+          inlineData: {mimeType: 'audio/wav', data: wav(3)},
+        }),
+      ).toEqual([{modality: MediaModality.AUDIO, tokenCount: 96}]);
+    });
+
+    it('uses the offsets of the video metadata', () => {
+      expect(
+        estimateMediaTokens({
+          fileData: {mimeType: 'audio/mp3', fileUri: 'gs://bucket/a.mp3'},
+          videoMetadata: {startOffset: '5s', endOffset: '15.5s'},
+        }),
+      ).toEqual([{modality: MediaModality.AUDIO, tokenCount: 336}]);
+    });
+
+    it('throws when the duration is unknown', () => {
+      expect(() =>
+        estimateMediaTokens({
+          fileData: {mimeType: 'audio/mp3', fileUri: 'gs://bucket/a.mp3'},
+        }),
+      ).toThrowError(
+        /Cannot estimate the tokens of audio\/mp3 gs:\/\/bucket\/a.mp3: its duration is unknown/,
+      );
+    });
+  });
+
+  describe('video', () => {
+    it('counts the sampled frames and the audio', () => {
+      expect(
+        estimateMediaTokens({
+          fileData: {mimeType: 'video/mp4', fileUri: 'gs://bucket/a.mp4'},
+          videoMetadata: {startOffset: '0s', endOffset: '10s', fps: 2},
+        }),
+      ).toEqual([
+        {modality: MediaModality.VIDEO, tokenCount: 20 * 258},
+        {modality: MediaModality.AUDIO, tokenCount: 320},
+      ]);
+    });
+
+    it('uses the media resolution of the request', () => {
+      expect(
+        estimateMediaTokens(
+          {
+            fileData: {mimeType: 'video/mp4', fileUri: 'gs://bucket/a.mp4'},
+            videoMetadata: {startOffset: '0s', endOffset: '10s'},
+          },
+          MediaResolution.MEDIA_RESOLUTION_LOW,
+        )[0],
+      ).toEqual({modality: MediaModality.VIDEO, tokenCount: 10 * 66});
+    });
+
+    it('throws when the duration is unknown', () => {
+      expect(() =>
+        estimateMediaTokens({
+          fileData: {mimeType: 'video/mp4', fileUri: 'gs://bucket/a.mp4'},
+        }),
+      ).toThrowError(/its duration is unknown/);
+    });
+  });
+
+  describe('documents', () => {
+    it('counts the pages of inline PDF data', () => {
+      const pdf = [
+        '%PDF-1.4',
+        '1 0 obj << /Type /Pages /Kids [2 0 R 3 0 R] /Count 2 >> endobj',
+        '2 0 obj << /Type /Page /Parent 1 0 R >> endobj',
+        '3 0 obj << /Type /Page /Parent 1 0 R >> endobj',
+      ].join('\n');
+
+      expect(
+        estimateMediaTokens({
+          inlineData: {mimeType: 'application/pdf', data: btoa(pdf)},
+        }),
+      ).toEqual([{modality: MediaModality.DOCUMENT, tokenCount: 2 * 258}]);
+    });
+
+    it('throws for a PDF file', () => {
+      expect(() =>
+        estimateMediaTokens({
+          fileData: {mimeType: 'application/pdf', fileUri: 'gs://bucket/a.pdf'},
+        }),
+      ).toThrowError(/its page count is unknown/);
+    });
+  });
+
+  it('throws for an unsupported type', () => {
+    expect(() =>
+      estimateMediaTokens({
+        inlineData: {mimeType: 'application/zip', data: ''},
+      }),
+    ).toThrowError(
+      'LocalTokenizers cannot estimate the tokens of application/zip data.',
+    );
+  });
+});
@@ -55,24 +55,31 @@ describe('TextsAccumulator', () => {
       expect(accumulator.getTexts()).toEqual(['Hello', 'World']);
     });
 
-    it('should throw error for fileData', () => {
-      const content: Content = {
-        role: 'user',
-        parts: [{fileData: {mimeType: 'image/png', fileUri: 'gs://test'}}],
+    it('should collect parts with fileData as media', () => {
+      const part = {fileData: {mimeType: 'image/png', fileUri: 'gs://test'}};
+      const warnSpy = spyOn(console, 'warn');
+      accumulator.addContent({role: 'user', parts: [part]});
+      expect(accumulator.getMediaParts()).toEqual([part]);
+      expect(accumulator.getTexts()).toEqual([]);
+      expect(warnSpy).not.toHaveBeenCalled();
+    });
+
+    it('should collect parts with inlineData as media', () => {
+      const part = {
+        inlineData: {mimeType: 'image/png', data: 'base64data'},
+        mediaResolution: {numTokens: 100},
       };
-      expect(() => accumulator.addContent(content)).toThrowError(
-        'LocalTokenizers do not support non-text content types.',
-      );
+      accumulator.addContent({role: 'user', parts: [part]});
+      expect(accumulator.getMediaParts()).toEqual([part]);
     });
 
-    it('should throw error for inlineData', () => {
-      const content: Content = {
+    it('should add inline text data as text', () => {
+      accumulator.addContent({
         role: 'user',
-        parts: [{inlineData: {mimeType: 'image/png', data: 'base64data'}}],
-      };
-      expect(() => accumulator.addContent(content)).toThrowError(
-        'LocalTokenizers do not support non-text content types.',
-      );
+        parts: [{inlineData: {mimeType: 'text/plain', data: btoa('Hello')}}],
+      });
+      expect(accumulator.getTexts()).toEqual(['Hello']);
+      expect(accumulator.getMediaParts()).toEqual([]);
     });
 
     it('should handle videoMetadata without error', () => {
@@ -4,7 +4,11 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import {GoogleGenAI} from '../../src/node/index.js';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {DownloadProgress, GoogleGenAI} from '../../src/node/index.js';
 import {createZeroFilledTempFile} from '../_generate_test_file.js';
 
 describe('File', () => {
@@ -353,6 +357,124 @@ describe('File', () => {
       });
     });
   });
+  describe('download', () => {
+    function mockDownload(...chunks: string[]) {
+      const encoder = new TextEncoder();
+      return spyOn(global, 'fetch').and.callFake(async () => {
+        return new Response(
+          new ReadableStream({
+            start(controller) {
+              for (const chunk of chunks) {
+                controller.enqueue(encoder.encode(chunk));
+              }
+              controller.close();
+            },
+          }),
+          {
+            status: 200,
+            headers: {
+              'Content-Type': 'text/plain',
+              'Content-Length': String(chunks.join('').length),
+            },
+          },
+        );
+      });
+    }
+
+    it('downloads a file into memory', async () => {
+      const fetchSpy = mockDownload('Hello, ', 'world!');
+
+      const bytes = await client.files.downloadAsBytes({file: 'files/abc123'});
+
+      expect(new TextDecoder().decode(bytes)).toBe('Hello, world!');
+      expect(fetchSpy).toHaveBeenCalledWith(
+        jasmine.stringMatching(/files\/abc123:download\?alt=media$/),
+        jasmine.objectContaining({method: 'GET'}),
+      );
+    });
+
+    it('downloads a file as a blob of its MIME type', async () => {
+      mockDownload('Hello');
+
+      const blob = await client.files.downloadAsBlob({
+        file: {name: 'files/abc123', mimeType: 'text/markdown'},
+      });
+
+      expect(blob.type).toBe('text/markdown');
+      expect(await blob.text()).toBe('Hello');
+    });
+
+    it('reports the progress of a stream', async () => {
+      mockDownload('Hello, ', 'world!');
+      const progress: DownloadProgress[] = [];
+
+      const stream = await client.files.downloadStream({
+        file: 'files/abc123',
+        config: {onProgress: (p) => progress.push(p)},
+      });
+      const chunks = [];
+      for await (const chunk of stream) {
+        chunks.push(new TextDecoder().decode(chunk));
+      }
+
+      expect(chunks).toEqual(['Hello, ', 'world!']);
+      expect(progress).toEqual([
+        {bytesDownloaded: 7, totalBytes: 13},
+        {bytesDownloaded: 13, totalBytes: 13},
+      ]);
+    });
+
+    it('reads the inline bytes of a generated video', async () => {
+      const fetchSpy = spyOn(global, 'fetch');
+
+      const blob = await client.files.downloadAsBlob({
+        file: {video: {videoBytes: btoa('video'), mimeType: 'video/mp4'}},
+      });
+
+      expect(blob.type).toBe('video/mp4');
+      expect(await blob.text()).toBe('video');
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('throws for a video without a URI or bytes', async () => {
+      await expectAsync(
+        client.files.downloadAsBytes({file: {video: {}}}),
+      ).toBeRejectedWithError(
+        'Failed to download generated video, Uri or videoBytes not found.',
+      );
+    });
+
+    it('does not start an aborted download', async () => {
+      const fetchSpy = spyOn(global, 'fetch');
+      const controller = new AbortController();
+      controller.abort(new Error('Cancelled.'));
+
+      await expectAsync(
+        client.files.downloadStream({
+          file: 'files/abc123',
+          config: {abortSignal: controller.signal},
+        }),
+      ).toBeRejectedWithError('Cancelled.');
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('writes a file to the download path', async () => {
+      mockDownload('Hello, ', 'world!');
+      const downloadPath = path.join(
+        os.tmpdir(),
+        `download-${Math.random()}.txt`,
+      );
+
+      try {
+        await client.files.download({file: 'files/abc123', downloadPath});
+
+        expect(fs.readFileSync(downloadPath, 'utf8')).toBe('Hello, world!');
+      } finally {
+        fs.rmSync(downloadPath, {force: true});
+      }
+    });
+  });
+
   describe('registerFiles', () => {
     it('should call the API client with the correct parameters', async () => {
       const mockResponse = {
@@ -0,0 +1,259 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {z} from 'zod';
+import {zodToJsonSchema} from 'zod-to-json-schema';
+
+import {callFunctions} from '../../src/_afc.js';
+import {functionTool, functionToolset} from '../../src/function_tool.js';
+import * as types from '../../src/types.js';
+
+describe('functionTool', () => {
+  const weatherSchema = {
+    type: 'object',
+    properties: {
+      city: {type: 'string'},
+      days: {type: 'integer', minimum: 1, maximum: 7},
+      unit: {type: 'string', enum: ['celsius', 'fahrenheit']},
+    },
+    required: ['city'],
+    additionalProperties: false,
+  };
+
+  it('should declare the function', async () => {
+    const tool = functionTool({
+      name: 'getWeather',
+      description: 'Returns the weather in a city.',
+      parameters: weatherSchema,
+      handler: () => ({}),
+      config: {behavior: types.Behavior.NON_BLOCKING},
+    });
+
+    const declaration = (await tool.tool()).functionDeclarations![0];
+
+    expect(declaration.name).toEqual('getWeather');
+    expect(declaration.description).toEqual('Returns the weather in a city.');
+    expect(declaration.behavior).toEqual(types.Behavior.NON_BLOCKING);
+    expect(declaration.parameters?.type).toEqual(types.Type.OBJECT);
+    expect(declaration.parameters?.required).toEqual(['city']);
+    // The schema of the options is not converted in place.
+    expect(weatherSchema.type).toEqual('object');
+  });
+
+  it('should call the handler with valid arguments', async () => {
+    const handler = jasmine
+      .createSpy('handler')
+      .and.resolveTo({forecast: 'sunny'});
+    const tool = functionTool({
+      name: 'getWeather',
+      parameters: weatherSchema,
+      handler,
+    });
+    const functionCall = {
+      id: 'call-1',
+      name: 'getWeather',
+      args: {city: 'Boston', days: 2},
+    };
+
+    const parts = await tool.callTool([functionCall]);
+
+    expect(handler).toHaveBeenCalledOnceWith(
+      {city: 'Boston', days: 2},
+      {functionCall, abortSignal: undefined},
+    );
+    expect(parts).toEqual([
+      {
+        functionResponse: {
+          id: 'call-1',
+          name: 'getWeather',
+          response: {output: {forecast: 'sunny'}},
+        },
+      },
+    ]);
+  });
+
+  it('should answer invalid arguments with an error', async () => {
+    const handler = jasmine.createSpy('handler');
+    const tool = functionTool({
+      name: 'getWeather',
+      parameters: weatherSchema,
+      handler,
+    });
+
+    const parts = await tool.callTool([
+      {
+        name: 'getWeather',
+        args: {days: 10, unit: 'kelvin', country: 'US'},
+      },
+    ]);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(parts[0].functionResponse?.response).toEqual({
+      error:
+        'Invalid arguments for function getWeather: city is required. ' +
+        'days must be at most 7. ' +
+        'unit must be one of "celsius", "fahrenheit". ' +
+        'country is not an allowed property.',
+    });
+  });
+
+  it('should validate nested values and Schema types', async () => {
+    const tool = functionTool({
+      name: 'addEvents',
+      parameters: {
+        type: types.Type.OBJECT,
+        properties: {
+          events: {
+            type: types.Type.ARRAY,
+            minItems: '1',
+            items: {
+              type: types.Type.OBJECT,
+              properties: {
+                title: {type: types.Type.STRING},
+                note: {type: types.Type.STRING, nullable: true},
+              },
+              required: ['title'],
+            },
+          },
+        },
+      },
+      handler: () => 'ok',
+    });
+
+    const [invalid] = await tool.callTool([
+      {name: 'addEvents', args: {events: [{title: 1}, {title: 'a'}]}},
+    ]);
+    const [valid] = await tool.callTool([
+      {name: 'addEvents', args: {events: [{title: 'a', note: null}]}},
+    ]);
+
+    expect(invalid.functionResponse?.response).toEqual({
+      error:
+        'Invalid arguments for function addEvents: ' +
+        'events[0].title must be of type string.',
+    });
+    expect(valid.functionResponse?.response).toEqual({output: 'ok'});
+  });
+
+  it('should validate arguments with a zod schema', async () => {
+    const schema = z.object({city: z.string(), days: z.number().default(1)});
+    const handler = jasmine.createSpy('handler').and.returnValue('sunny');
+    const tool = functionTool({
+      name: 'getWeather',
+      parameters: schema,
+      parametersJsonSchema: zodToJsonSchema(schema),
+      handler,
+    });
+
+    const declaration = (await tool.tool()).functionDeclarations![0];
+    const [invalid] = await tool.callTool([
+      {name: 'getWeather', args: {city: 3}},
+    ]);
+    await tool.callTool([{name: 'getWeather', args: {city: 'Boston'}}]);
+
+    expect(declaration.parametersJsonSchema).toEqual(zodToJsonSchema(schema));
+    expect(declaration.parameters).toBeUndefined();
+    expect(invalid.functionResponse?.response?.['error']).toMatch(
+      /^Invalid arguments for function getWeather: city: Expected string/,
+    );
+    // The handler gets the parsed arguments.
+    expect(handler.calls.mostRecent().args[0]).toEqual({
+      city: 'Boston',
+      days: 1,
+    });
+  });
+
+  it('should require a JSON schema for a zod schema', async () => {
+    const tool = functionTool({
+      name: 'getWeather',
+      parameters: z.object({city: z.string()}),
+      handler: () => 'sunny',
+    });
+
+    await expectAsync(tool.tool()).toBeRejectedWithError(
+      /needs a parametersJsonSchema/,
+    );
+  });
+});
+
+describe('functionToolset', () => {
+  const getWeather = functionTool({
+    name: 'getWeather',
+    parameters: {
+      type: 'object',
+      properties: {city: {type: 'string'}},
+      required: ['city'],
+    },
+    handler: ({city}) => `sunny in ${city}`,
+  });
+  const getTime = functionTool({
+    name: 'getTime',
+    handler: () => '12:00',
+  });
+
+  it('should declare and run all the functions', async () => {
+    const toolset = functionToolset([getWeather, getTime], {timeout: 1000});
+
+    const tool = await toolset.tool();
+    const parts = await toolset.callTool([
+      {name: 'getTime', args: {}},
+      {name: 'getWeather', args: {city: 'Boston'}},
+    ]);
+
+    expect(tool.functionDeclarations!.map((fd) => fd.name)).toEqual([
+      'getWeather',
+      'getTime',
+    ]);
+    expect(toolset.config).toEqual({timeout: 1000});
+    expect(parts.map((part) => part.functionResponse?.response)).toEqual([
+      {output: '12:00'},
+      {output: 'sunny in Boston'},
+    ]);
+  });
+
+  it('should answer the calls whose handler throws with an error', async () => {
+    const failing = functionTool({
+      name: 'failing',
+      handler: () => {
+        throw new Error('Service unavailable.');
+      },
+    });
+    const toolset = functionToolset([failing, getTime]);
+
+    const parts = await toolset.callTool([
+      {name: 'failing', args: {}},
+      {name: 'getTime', args: {}},
+    ]);
+
+    expect(parts.map((part) => part.functionResponse?.response)).toEqual([
+      {error: 'Service unavailable.'},
+      {output: '12:00'},
+    ]);
+  });
+
+  it('should reject functions with the same name', () => {
+    expect(() => functionToolset([getTime, getTime])).toThrowError(
+      'Function getTime is declared more than once.',
+    );
+  });
+
+  it('should run with automatic function calling', async () => {
+    const toolset = functionToolset([getWeather, getTime]);
+    const afcTools = new Map<string, types.CallableTool>([
+      ['getWeather', toolset],
+      ['getTime', toolset],
+    ]);
+
+    const [result] = await callFunctions(
+      [{name: 'getWeather', args: {}}],
+      afcTools,
+    );
+
+    expect(result.parts[0].functionResponse?.response).toEqual({
+      error: 'Invalid arguments for function getWeather: city is required.',
+    });
+  });
+});
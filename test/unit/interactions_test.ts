@@ -4,6 +4,11 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import {
+  ApiError,
+  QuotaExceededError,
+  RateLimitError,
+} from '../../src/errors.js';
 import {
   GeminiNextGenInteractions,
   GoogleGenAIParentClient,
@@ -159,6 +164,79 @@ describe('Interactions resource', () => {
     });
   });
 
+  describe('with a custom fetch', () => {
+    it('should send requests through the parent client fetch', async () => {
+      const customFetch = jasmine
+        .createSpy('customFetch')
+        .and.callFake(() => Promise.resolve(mockJsonResponse()));
+      const clientWithFetch = {
+        ...parentClient,
+        getFetch: () => customFetch,
+      };
+      interactions = new GeminiNextGenInteractions(clientWithFetch);
+
+      await interactions.create({
+        agent: 'some-agent',
+        input: 'some input',
+      });
+
+      expect(customFetch).toHaveBeenCalledTimes(1);
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('errors', () => {
+    it('should map HTTP errors into the ApiError hierarchy', async () => {
+      const body = {
+        error: {
+          code: 429,
+          message: 'Resource has been exhausted',
+          status: 'RESOURCE_EXHAUSTED',
+          details: [
+            {
+              '@type': 'type.googleapis.com/google.rpc.QuotaFailure',
+              violations: [{quotaId: 'RequestsPerMinute'}],
+            },
+            {
+              '@type': 'type.googleapis.com/google.rpc.RetryInfo',
+              retryDelay: '2s',
+            },
+          ],
+        },
+      };
+      fetchSpy.and.callFake(() =>
+        Promise.resolve(
+          new Response(JSON.stringify(body), {
+            status: 429,
+            headers: {'Content-Type': 'application/json'},
+          }),
+        ),
+      );
+
+      let caught: unknown;
+      try {
+        await interactions.create(
+          {agent: 'some-agent', input: 'some input'},
+          {maxRetries: 0},
+        );
+      } catch (e) {
+        caught = e;
+      }
+
+      expect(caught).toBeInstanceOf(QuotaExceededError);
+      expect(caught).toBeInstanceOf(RateLimitError);
+      const error = caught as ApiError & {headers: Headers};
+      expect(error.name).toEqual('ApiError');
+      expect(error.status).toEqual(429);
+      expect(error.rpcStatus).toEqual('RESOURCE_EXHAUSTED');
+      expect(error.retryDelay).toEqual(2);
+      expect(error.quotaFailure?.violations?.[0].quotaId).toEqual(
+        'RequestsPerMinute',
+      );
+      expect(error.headers.get('content-type')).toEqual('application/json');
+    });
+  });
+
   describe('routed to Vertex', () => {
     beforeEach(() => {
       parentClient.isVertexAI.and.returnValue(true);
@@ -4,8 +4,9 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import {CallToolOptions} from '../../src/_afc.js';
 import {ApiClient, SDK_VERSION} from '../../src/_api_client.js';
-import {WebSocketCallbacks} from '../../src/_websocket.js';
+import {WebSocket, WebSocketCallbacks} from '../../src/_websocket.js';
 import * as converters from '../../src/converters/_live_converters.js';
 import {CrossDownloader} from '../../src/cross/_cross_downloader.js';
 import {CrossUploader} from '../../src/cross/_cross_uploader.js';
@@ -1172,4 +1173,601 @@ describe('live', () => {
   });
 });
 
+describe('live session iteration', () => {
+  let live: Live;
+  let websocket: FakeWebSocket;
+  let socketCallbacks: WebSocketCallbacks;
+
+  beforeEach(() => {
+    const apiClient = new ApiClient({
+      auth: new FakeAuth(),
+      apiKey: 'test-api-key',
+      uploader: new CrossUploader(),
+      downloader: new CrossDownloader(),
+    });
+    const websocketFactory = new FakeWebSocketFactory();
+    live = new Live(apiClient, new FakeAuth(), websocketFactory);
+    spyOn(websocketFactory, 'create').and.callFake(
+      (url, headers, callbacks) => {
+        socketCallbacks = callbacks;
+        websocket = new FakeWebSocket(url, headers, callbacks);
+        return websocket;
+      },
+    );
+  });
+
+  /** Delivers a server message and lets the session handle it. */
+  async function receive(message: Record<string, unknown>) {
+    socketCallbacks.onmessage({data: JSON.stringify(message)} as MessageEvent);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  const modelTurn = (text: string, turnComplete = false) => ({
+    serverContent: {modelTurn: {parts: [{text}]}, turnComplete},
+  });
+
+  it('should yield messages until the connection closes', async () => {
+    const session = await live.connect({
+      model: 'models/gemini-live-2.5-flash-preview',
+    });
+    await receive(modelTurn('Hello'));
+    await receive(modelTurn(' world', true));
+    session.close();
+
+    const received: types.LiveServerMessage[] = [];
+    for await (const message of session) {
+      received.push(message);
+    }
+
+    expect(received.length).toBe(3);
+    expect(received[0].setupComplete).toBeDefined();
+    expect(received[1].text).toBe('Hello');
+    expect(received[2].serverContent?.turnComplete).toBeTrue();
+  });
+
+  it('should yield the messages of a single turn with receiveTurn', async () => {
+    const session = await live.connect({
+      model: 'models/gemini-live-2.5-flash-preview',
+    });
+    await receive(modelTurn('first', true));
+    await receive(modelTurn('second', true));
+
+    const firstTurn: Array<string | undefined> = [];
+    for await (const message of session.receiveTurn()) {
+      firstTurn.push(message.text);
+    }
+    const secondTurn: Array<string | undefined> = [];
+    for await (const message of session.receiveTurn()) {
+      secondTurn.push(message.text);
+    }
+
+    // The first turn also includes the setupComplete message.
+    expect(firstTurn).toEqual([undefined, 'first']);
+    expect(secondTurn).toEqual(['second']);
+  });
+
+  it('should wait for messages that have not arrived yet', async () => {
+    const session = await live.connect({
+      model: 'models/gemini-live-2.5-flash-preview',
+    });
+    const iterator = session[Symbol.asyncIterator]();
+    await iterator.next(); // setupComplete
+
+    const next = iterator.next();
+    await receive(modelTurn('late'));
+
+    expect((await next).value?.text).toBe('late');
+  });
+
+  it('should throw the errors reported by the connection', async () => {
+    const onerror = jasmine.createSpy('onerror');
+    const session = await live.connect({
+      model: 'models/gemini-live-2.5-flash-preview',
+      callbacks: {onerror},
+    });
+    const error = new Error('socket failed');
+    socketCallbacks.onerror({error, message: error.message});
+
+    const received: types.LiveServerMessage[] = [];
+    await expectAsync(
+      (async () => {
+        for await (const message of session) {
+          received.push(message);
+        }
+      })(),
+    ).toBeRejectedWith(error);
+    // Messages received before the error are still yielded.
+    expect(received.length).toBe(1);
+    expect(onerror).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject connect when the connection fails during setup', async () => {
+    const error = new Error('socket failed');
+    spyOn(FakeWebSocket.prototype, 'send').and.callFake(() => {
+      socketCallbacks.onerror({error, message: error.message});
+    });
+
+    await expectAsync(
+      live.connect({model: 'models/gemini-live-2.5-flash-preview'}),
+    ).toBeRejectedWith(error);
+  });
+
+  it('should pause the socket while too many messages are unread', async () => {
+    const session = await live.connect({
+      model: 'models/gemini-live-2.5-flash-preview',
+    });
+    const pause = jasmine.createSpy('pause');
+    const resume = jasmine.createSpy('resume');
+    const socket: WebSocket = websocket;
+    socket.pause = pause;
+    socket.resume = resume;
+
+    for (let i = 0; i < 70; i++) {
+      await receive(modelTurn(`${i}`));
+    }
+    expect(pause).toHaveBeenCalledTimes(1);
+
+    session.close();
+    let count = 0;
+    for await (const _message of session) {
+      count++;
+    }
+    expect(count).toBe(71);
+    expect(resume).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not be iterable when onmessage is set', async () => {
+    const session = await live.connect({
+      model: 'models/gemini-live-2.5-flash-preview',
+      callbacks: {
+        onmessage: (e: types.LiveServerMessage) => {
+          void e;
+        },
+      },
+    });
+
+    await expectAsync(
+      session[Symbol.asyncIterator]().next(),
+    ).toBeRejectedWithError(/callbacks.onmessage/);
+  });
+});
+
+describe('live automatic function calling', () => {
+  let live: Live;
+  let websocket: FakeWebSocket;
+  let socketCallbacks: WebSocketCallbacks;
+
+  beforeEach(() => {
+    const apiClient = new ApiClient({
+      auth: new FakeAuth(),
+      apiKey: 'test-api-key',
+      uploader: new CrossUploader(),
+      downloader: new CrossDownloader(),
+    });
+    const websocketFactory = new FakeWebSocketFactory();
+    live = new Live(apiClient, new FakeAuth(), websocketFactory);
+    spyOn(websocketFactory, 'create').and.callFake(
+      (url, headers, callbacks) => {
+        socketCallbacks = callbacks;
+        websocket = new FakeWebSocket(url, headers, callbacks);
+        return websocket;
+      },
+    );
+  });
+
+  /** Delivers a server message and lets the session handle it. */
+  async function receive(message: Record<string, unknown>) {
+    socketCallbacks.onmessage({data: JSON.stringify(message)} as MessageEvent);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  const toolCall = (...functionCalls: types.FunctionCall[]) => ({
+    toolCall: {functionCalls},
+  });
+
+  function weatherTool(
+    callTool: (
+      functionCalls: types.FunctionCall[],
+      options?: CallToolOptions,
+    ) => Promise<types.Part[]>,
+  ): types.CallableTool {
+    return {
+      tool: async () => ({functionDeclarations: [{name: 'getWeather'}]}),
+      callTool,
+    };
+  }
+
+  /** Returns the tool responses the session sent to the server. */
+  function sentToolResponses(
+    send: jasmine.Spy,
+  ): types.LiveClientToolResponse[] {
+    return send.calls
+      .allArgs()
+      .map((args) => JSON.parse(args[0] as string) as types.LiveClientMessage)
+      .filter((message) => message.toolResponse)
+      .map((message) => message.toolResponse!);
+  }
+
+  it('should call the tools and send their responses', async () => {
+    const callTool = jasmine
+      .createSpy('callTool')
+      .and.callFake(async (functionCalls: types.FunctionCall[]) => [
+        {
+          functionResponse: {
+            name: functionCalls[0].name,
+            response: {temperature: 21},
+          },
+        },
+      ]);
+    const onmessage = jasmine.createSpy('onmessage');
+    await live.connect({
+      model: 'models/gemini-live-2.5-flash-preview',
+      config: {tools: [weatherTool(callTool)]},
+      callbacks: {onmessage},
+    });
+    const send = spyOn(websocket, 'send');
+
+    await receive(
+      toolCall(
+        {id: 'call-1', name: 'getWeather', args: {city: 'Paris'}},
+        {id: 'call-2', name: 'getTime', args: {}},
+      ),
+    );
+
+    expect(callTool).toHaveBeenCalledOnceWith(
+      [{id: 'call-1', name: 'getWeather', args: {city: 'Paris'}}],
+      jasmine.objectContaining({abortSignal: jasmine.any(AbortSignal)}),
+    );
+    // Calls without a CallableTool are left for the user to answer.
+    expect(sentToolResponses(send)).toEqual([
+      {
+        functionResponses: [
+          {id: 'call-1', name: 'getWeather', response: {temperature: 21}},
+        ],
+      },
+    ]);
+    // The tool call is still delivered to the user.
+    expect(
+      (onmessage.calls.mostRecent().args[0] as types.LiveServerMessage)
+        .toolCall,
+    ).toBeDefined();
+  });
+
+  it('should stop calling tools after maximumRemoteCalls', async () => {
+    const callTool = jasmine
+      .createSpy('callTool')
+      .and.resolveTo([{functionResponse: {name: 'getWeather', response: {}}}]);
+    await live.connect({
+      model: 'models/gemini-live-2.5-flash-preview',
+      config: {
+        tools: [weatherTool(callTool)],
+        automaticFunctionCalling: {maximumRemoteCalls: 1},
+      },
+    });
+
+    await receive(toolCall({id: 'call-1', name: 'getWeather'}));
+    await receive(toolCall({id: 'call-2', name: 'getWeather'}));
+
+    expect(callTool).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not call tools when disabled', async () => {
+    const callTool = jasmine.createSpy('callTool').and.resolveTo([]);
+    await live.connect({
+      model: 'models/gemini-live-2.5-flash-preview',
+      config: {
+        tools: [weatherTool(callTool)],
+        automaticFunctionCalling: {disable: true},
+      },
+    });
+
+    await receive(toolCall({id: 'call-1', name: 'getWeather'}));
+
+    expect(callTool).not.toHaveBeenCalled();
+  });
+
+  it('should report a failure to run the calls to onerror', async () => {
+    const callTool = jasmine.createSpy('callTool').and.resolveTo([]);
+    const onerror = jasmine.createSpy('onerror');
+    await live.connect({
+      model: 'models/gemini-live-2.5-flash-preview',
+      config: {
+        tools: [weatherTool(callTool)],
+        automaticFunctionCalling: {
+          onFunctionCall: () => {
+            throw new Error('hook failed');
+          },
+        },
+      },
+      callbacks: {onmessage: () => {}, onerror},
+    });
+
+    await receive(toolCall({id: 'call-1', name: 'getWeather'}));
+
+    expect(callTool).not.toHaveBeenCalled();
+    expect(onerror).toHaveBeenCalledOnceWith(
+      jasmine.objectContaining({error: new Error('hook failed')}),
+    );
+  });
+
+  it('should abort cancelled calls and not send their responses', async () => {
+    let signal: AbortSignal | undefined;
+    let finishCall: () => void = () => {};
+    const callTool = jasmine
+      .createSpy('callTool')
+      .and.callFake((_: types.FunctionCall[], options?: CallToolOptions) => {
+        signal = options?.abortSignal;
+        return new Promise<types.Part[]>((resolve) => {
+          finishCall = () =>
+            resolve([{functionResponse: {name: 'getWeather', response: {}}}]);
+        });
+      });
+    await live.connect({
+      model: 'models/gemini-live-2.5-flash-preview',
+      config: {tools: [weatherTool(callTool)]},
+    });
+    const send = spyOn(websocket, 'send');
+
+    await receive(toolCall({id: 'call-1', name: 'getWeather'}));
+    await receive({toolCallCancellation: {ids: ['call-1']}});
+    expect(signal?.aborted).toBeTrue();
+
+    finishCall();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(sentToolResponses(send)).toEqual([]);
+  });
+
+  it('should send an error response when a tool throws', async () => {
+    const callTool = jasmine
+      .createSpy('callTool')
+      .and.rejectWith(new Error('weather service unavailable'));
+    await live.connect({
+      model: 'models/gemini-live-2.5-flash-preview',
+      config: {tools: [weatherTool(callTool)]},
+    });
+    const send = spyOn(websocket, 'send');
+
+    await receive(toolCall({id: 'call-1', name: 'getWeather'}));
+
+    expect(sentToolResponses(send)).toEqual([
+      {
+        functionResponses: [
+          {
+            id: 'call-1',
+            name: 'getWeather',
+            response: {error: 'weather service unavailable'},
+          },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('live reconnecting session', () => {
+  let live: Live;
+  let sockets: FakeWebSocket[];
+  let socketCallbacks: WebSocketCallbacks[];
+  let sends: jasmine.Spy[];
+  let failingConnects: number;
+
+  beforeEach(() => {
+    const apiClient = new ApiClient({
+      auth: new FakeAuth(),
+      apiKey: 'test-api-key',
+      uploader: new CrossUploader(),
+      downloader: new CrossDownloader(),
+    });
+    const websocketFactory = new FakeWebSocketFactory();
+    live = new Live(apiClient, new FakeAuth(), websocketFactory);
+    sockets = [];
+    socketCallbacks = [];
+    sends = [];
+    failingConnects = 0;
+    spyOn(websocketFactory, 'create').and.callFake(
+      (url, headers, callbacks) => {
+        const socket = new FakeWebSocket(url, headers, callbacks);
+        if (failingConnects > 0) {
+          failingConnects--;
+          socket.connect = () => callbacks.onclose({} as CloseEvent);
+        }
+        sockets.push(socket);
+        socketCallbacks.push(callbacks);
+        sends.push(spyOn(socket, 'send').and.callThrough());
+        return socket;
+      },
+    );
+  });
+
+  /** Lets pending reconnects run. */
+  async function flush() {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  /** Delivers a server message on the latest connection. */
+  async function receive(message: Record<string, unknown>) {
+    socketCallbacks[socketCallbacks.length - 1].onmessage({
+      data: JSON.stringify(message),
+    } as MessageEvent);
+    await flush();
+  }
+
+  /** Returns the session resumption config sent in each setup message. */
+  function sentResumptionConfigs(): unknown[] {
+    return sends.map((send) => {
+      const message = JSON.parse(send.calls.first().args[0] as string) as {
+        setup: Record<string, unknown>;
+      };
+      return message.setup['sessionResumption'];
+    });
+  }
+
+  const resumptionUpdate = (newHandle: string, resumable = true) => ({
+    sessionResumptionUpdate: {newHandle, resumable},
+  });
+
+  it('should resume with the latest handle on goAway', async () => {
+    const onReconnect = jasmine.createSpy('onReconnect');
+    const session = await live.connectReconnecting(
+      {model: 'models/gemini-live-2.5-flash-preview'},
+      {onReconnect},
+    );
+    await receive(resumptionUpdate('handle-1'));
+    await receive(resumptionUpdate('handle-2'));
+    await receive({goAway: {timeLeft: '10s'}});
+
+    expect(sockets.length).toBe(2);
+    expect(sentResumptionConfigs()).toEqual([{}, {handle: 'handle-2'}]);
+    expect(onReconnect.calls.allArgs()).toEqual([
+      [{type: 'reconnecting', reason: 'goAway', attempt: 1, resumed: true}],
+      [{type: 'reconnected', reason: 'goAway', attempt: 1, resumed: true}],
+    ]);
+    expect(session.resumptionHandle).toBe('handle-2');
+    expect(session.session.conn).toBe(sockets[1]);
+
+    session.close();
+    const received: types.LiveServerMessage[] = [];
+    for await (const message of session) {
+      received.push(message);
+    }
+    // The setupComplete message of the new connection is not repeated.
+    expect(received.filter((message) => message.setupComplete).length).toBe(1);
+    expect(received.filter((message) => message.goAway).length).toBe(1);
+  });
+
+  it('should wait for a resumable handle after goAway', async () => {
+    const session = await live.connectReconnecting({
+      model: 'models/gemini-live-2.5-flash-preview',
+    });
+    await receive(resumptionUpdate('', false));
+    await receive({goAway: {timeLeft: '10s'}});
+    expect(sockets.length).toBe(1);
+
+    await receive(resumptionUpdate('handle-1'));
+    expect(sockets.length).toBe(2);
+    expect(sentResumptionConfigs()[1]).toEqual({handle: 'handle-1'});
+    session.close();
+  });
+
+  it('should reconnect when the connection is lost', async () => {
+    const onmessage = jasmine.createSpy('onmessage');
+    const onclose = jasmine.createSpy('onclose');
+    const session = await live.connectReconnecting({
+      model: 'models/gemini-live-2.5-flash-preview',
+      callbacks: {onmessage, onclose},
+    });
+    await receive(resumptionUpdate('handle-1'));
+
+    socketCallbacks[0].onclose({} as CloseEvent);
+    // Sent once the new connection is set up.
+    session.sendClientContent({turns: 'Hello?'});
+    await flush();
+
+    expect(sockets.length).toBe(2);
+    expect(sentResumptionConfigs()[1]).toEqual({handle: 'handle-1'});
+    expect(sends[1].calls.mostRecent().args[0]).toContain('Hello?');
+    expect(onclose).not.toHaveBeenCalled();
+  });
+
+  it('should not reconnect after close', async () => {
+    const onclose = jasmine.createSpy('onclose');
+    const session = await live.connectReconnecting({
+      model: 'models/gemini-live-2.5-flash-preview',
+      callbacks: {onclose},
+    });
+
+    session.close();
+    await flush();
+
+    expect(sockets.length).toBe(1);
+    expect(onclose).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject connect when the connection closes before setup', async () => {
+    failingConnects = 1;
+
+    await expectAsync(
+      live.connect({model: 'models/gemini-live-2.5-flash-preview'}),
+    ).toBeRejectedWithError(/closed before it was set up/);
+  });
+
+  it('should keep counting remote calls across reconnects', async () => {
+    const callTool = jasmine
+      .createSpy('callTool')
+      .and.resolveTo([{functionResponse: {name: 'getWeather', response: {}}}]);
+    const session = await live.connectReconnecting({
+      model: 'models/gemini-live-2.5-flash-preview',
+      config: {
+        tools: [
+          {
+            tool: async () => ({functionDeclarations: [{name: 'getWeather'}]}),
+            callTool,
+          },
+        ],
+        automaticFunctionCalling: {maximumRemoteCalls: 1},
+      },
+    });
+    const toolCall = {
+      toolCall: {functionCalls: [{id: 'call-1', name: 'getWeather'}]},
+    };
+    await receive(toolCall);
+
+    socketCallbacks[0].onclose({} as CloseEvent);
+    await flush();
+    await receive(toolCall);
+
+    expect(sockets.length).toBe(2);
+    expect(callTool).toHaveBeenCalledTimes(1);
+    session.close();
+  });
+
+  it('should give up after the configured attempts', async () => {
+    const onReconnect = jasmine.createSpy('onReconnect');
+    const session = await live.connectReconnecting(
+      {model: 'models/gemini-live-2.5-flash-preview'},
+      {attempts: 2, initialDelay: 0, onReconnect},
+    );
+    failingConnects = 2;
+
+    socketCallbacks[0].onclose({} as CloseEvent);
+    await flush();
+    await flush();
+
+    expect(sockets.length).toBe(3);
+    expect(onReconnect.calls.mostRecent().args[0]).toEqual(
+      jasmine.objectContaining({
+        type: 'failed',
+        reason: 'connectionLost',
+        attempt: 2,
+      }),
+    );
+    await expectAsync(
+      (async () => {
+        for await (const _message of session) {
+          // Drain the messages received before the connection was lost.
+        }
+      })(),
+    ).toBeRejectedWithError(/closed before it was set up/);
+  });
+
+  it('should stop reconnecting when closed during the backoff', async () => {
+    const onReconnect = jasmine.createSpy('onReconnect');
+    const session = await live.connectReconnecting(
+      {model: 'models/gemini-live-2.5-flash-preview'},
+      {attempts: 3, initialDelay: 0.01, onReconnect},
+    );
+    failingConnects = 1;
+
+    socketCallbacks[0].onclose({} as CloseEvent);
+    await flush();
+    session.close();
+    // Past the delay before the next attempt.
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(sockets.length).toBe(2);
+    expect(onReconnect).toHaveBeenCalledOnceWith(
+      jasmine.objectContaining({type: 'reconnecting', attempt: 1}),
+    );
+  });
+});
+
 // TODO: b/395958466 - Add unit tests for Session.
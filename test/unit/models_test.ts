@@ -7,7 +7,14 @@
 import {z} from 'zod';
 import {zodToJsonSchema} from 'zod-to-json-schema';
 
+import {
+  AutomaticFunctionCallingOptions,
+  getAutomaticFunctionCallingTrace,
+} from '../../src/_afc.js';
+import {parseResponse} from '../../src/_structured_output.js';
 import {GoogleGenAI} from '../../src/client.js';
+import {StructuredOutputError} from '../../src/errors.js';
+import {functionTool} from '../../src/function_tool.js';
 import {mcpToTool} from '../../src/mcp/_mcp.js';
 import * as types from '../../src/types.js';
 
@@ -1127,6 +1134,58 @@ describe('generateContent', () => {
       expect(fetchSpy).toHaveBeenCalledTimes(expectedNumberOfCalls);
       expect(consoleBeepSpy).toHaveBeenCalledTimes(expectedNumberOfCalls);
     });
+    it('should trace AFC calls and add up the usage metadata', async () => {
+      const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+      const callableTool = mcpToTool(await spinUpBeepingServer());
+      spyOn(global, 'fetch').and.returnValues(
+        Promise.resolve(
+          new Response(
+            JSON.stringify(mockGenerateContentResponseWithSingleFunctionCall),
+            fetchOkOptions,
+          ),
+        ),
+        Promise.resolve(
+          new Response(
+            JSON.stringify(mockGenerateContentResponse),
+            fetchOkOptions,
+          ),
+        ),
+      );
+      spyOn(process.stdout, 'write');
+      const onFunctionCall = jasmine.createSpy('onFunctionCall');
+      const onFunctionResponse = jasmine.createSpy('onFunctionResponse');
+      const automaticFunctionCalling: AutomaticFunctionCallingOptions = {
+        onFunctionCall,
+        onFunctionResponse,
+      };
+
+      const response = await client.models.generateContent({
+        model: 'gemini-2.5-flash-exp',
+        contents: 'Beep.',
+        config: {tools: [callableTool], automaticFunctionCalling},
+      });
+
+      expect(onFunctionCall).toHaveBeenCalledOnceWith({
+        iteration: 1,
+        functionCall: {name: 'beep'},
+      });
+      const trace = getAutomaticFunctionCallingTrace(response)!;
+      expect(trace.calls.length).toBe(1);
+      expect(trace.calls[0]).toEqual(
+        jasmine.objectContaining({
+          iteration: 1,
+          name: 'beep',
+          error: undefined,
+        }),
+      );
+      expect(trace.calls[0].response).toBeDefined();
+      expect(trace.calls[0].latencyMs).toBeGreaterThanOrEqual(0);
+      expect(onFunctionResponse).toHaveBeenCalledOnceWith(trace.calls[0]);
+      expect(trace.usageMetadata.length).toBe(2);
+      expect(response.usageMetadata?.promptTokenCount).toBe(16);
+      expect(response.usageMetadata?.candidatesTokenCount).toBe(2);
+      expect(response.usageMetadata?.totalTokenCount).toBe(18);
+    });
     it('should append AFC history when ignoreCallHistory is false', async () => {
       const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
       const mcpCallableTool = mcpToTool(
@@ -1268,6 +1327,208 @@ describe('generateContent', () => {
     expect(requestOptions['timeout']).toEqual(1);
   });
 });
+describe('structured output', () => {
+  function textResponse(text: string) {
+    return Promise.resolve(
+      new Response(
+        JSON.stringify({
+          candidates: [{content: {role: 'model', parts: [{text}]}}],
+        }),
+        fetchOkOptions,
+      ),
+    );
+  }
+
+  const fruitsSchema = {
+    type: 'object',
+    properties: {
+      fruits: {type: 'array', items: {type: 'string'}},
+    },
+    required: ['fruits'],
+  };
+
+  it('parseResponse returns the output validated against the response schema', async () => {
+    const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+    spyOn(global, 'fetch').and.returnValues(
+      textResponse('{"fruits": ["apple"]}'),
+      textResponse('{"fruits": ["apple", 3]}'),
+    );
+    const params = {
+      model: 'gemini-2.5-flash',
+      contents: 'List fruits.',
+      config: {
+        responseMimeType: 'application/json',
+        responseJsonSchema: fruitsSchema,
+      },
+    };
+
+    const valid = await client.models.generateContent(params);
+    const invalid = await client.models.generateContent(params);
+
+    expect(parseResponse(valid)).toEqual({fruits: ['apple']});
+    expect(() => parseResponse(invalid)).toThrowMatching(
+      (e) =>
+        e instanceof StructuredOutputError &&
+        e.path === 'fruits[1]' &&
+        e.text === '{"fruits": ["apple", 3]}',
+    );
+  });
+
+  it('parseResponse throws on invalid JSON', async () => {
+    const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+    spyOn(global, 'fetch').and.returnValue(textResponse('{'));
+
+    const response = await client.models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: 'List fruits.',
+      config: {responseMimeType: 'application/json'},
+    });
+
+    expect(() => parseResponse(response)).toThrowError(
+      StructuredOutputError,
+      /not valid JSON/,
+    );
+    expect(parseResponse(new types.GenerateContentResponse())).toBeUndefined();
+  });
+
+  it('parseResponse returns undefined without JSON output', async () => {
+    const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+    spyOn(global, 'fetch').and.returnValue(textResponse('Apples and pears.'));
+
+    const response = await client.models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: 'List fruits.',
+    });
+
+    expect(parseResponse(response)).toBeUndefined();
+  });
+
+  it('generateContentParsed sends the schema and parses the output', async () => {
+    const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+    const fetchSpy = spyOn(global, 'fetch').and.returnValue(
+      textResponse('{"fruits": ["apple"]}'),
+    );
+
+    const response = await client.models.generateContentParsed<{
+      fruits: string[];
+    }>({
+      model: 'gemini-2.5-flash',
+      contents: 'List fruits.',
+      schema: fruitsSchema,
+    });
+
+    expect(response.parsed.fruits).toEqual(['apple']);
+    const body = JSON.parse(fetchSpy.calls.argsFor(0)[1]!.body as string);
+    expect(body.generationConfig.responseMimeType).toEqual('application/json');
+    expect(body.generationConfig.responseJsonSchema).toEqual(fruitsSchema);
+  });
+
+  it('generateContentParsed re-prompts with the validation error', async () => {
+    const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+    const fetchSpy = spyOn(global, 'fetch').and.returnValues(
+      textResponse('{"fruit": "apple"}'),
+      textResponse('{"fruits": ["apple"], "count": 1}'),
+    );
+    const schema = z.object({
+      fruits: z.array(z.string()),
+      count: z.number().default(0),
+    });
+
+    const response = await client.models.generateContentParsed({
+      model: 'gemini-2.5-flash',
+      contents: 'List fruits.',
+      config: {responseJsonSchema: zodToJsonSchema(schema)},
+      schema,
+      maxValidationRetries: 1,
+    });
+
+    expect(response.parsed).toEqual({fruits: ['apple'], count: 1});
+    const body = JSON.parse(fetchSpy.calls.argsFor(1)[1]!.body as string);
+    expect(body.contents.length).toBe(3);
+    expect(body.contents[1]).toEqual({
+      role: 'model',
+      parts: [{text: '{"fruit": "apple"}'}],
+    });
+    expect(body.contents[2].parts[0].text).toMatch(
+      /^The response does not match the schema: fruits: Required/,
+    );
+  });
+
+  it('generateContentStreamParsed yields partial and final outputs', async () => {
+    const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+    const chunks = ['{"fruits": ["app', 'le", "pe', 'ar"]}'];
+    const sse = chunks
+      .map(
+        (text) =>
+          `data: ${JSON.stringify({
+            candidates: [{content: {role: 'model', parts: [{text}]}}],
+          })}\n\n`,
+      )
+      .join('');
+    spyOn(global, 'fetch').and.resolveTo(new Response(sse, fetchOkOptions));
+
+    const stream = await client.models.generateContentStreamParsed<{
+      fruits: string[];
+    }>({
+      model: 'gemini-2.5-flash',
+      contents: 'List fruits.',
+      schema: fruitsSchema,
+    });
+    const items = [];
+    for await (const item of stream) {
+      items.push(item);
+    }
+
+    expect(items.map((item) => item.partial)).toEqual([
+      {fruits: ['app']},
+      {fruits: ['apple', 'pe']},
+      {fruits: ['apple', 'pear']},
+      {fruits: ['apple', 'pear']},
+    ]);
+    expect(items.map((item) => item.done)).toEqual([false, false, false, true]);
+    expect(items[3].chunk).toBeUndefined();
+    expect(items[3].parsed).toEqual({fruits: ['apple', 'pear']});
+  });
+
+  it('generateContentStreamParsed validates the whole output', async () => {
+    const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+    const sse = `data: ${JSON.stringify({
+      candidates: [
+        {content: {role: 'model', parts: [{text: '{"fruits": [1]}'}]}},
+      ],
+    })}\n\n`;
+    spyOn(global, 'fetch').and.resolveTo(new Response(sse, fetchOkOptions));
+
+    const stream = await client.models.generateContentStreamParsed({
+      model: 'gemini-2.5-flash',
+      contents: 'List fruits.',
+      schema: fruitsSchema,
+    });
+
+    expect((await stream.next()).value.partial).toEqual({fruits: [1]});
+    await expectAsync(stream.next()).toBeRejectedWithError(
+      StructuredOutputError,
+      /fruits\[0\] must be of type string/,
+    );
+  });
+
+  it('generateContentParsed throws once the retries are used up', async () => {
+    const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+    const fetchSpy = spyOn(global, 'fetch').and.callFake(() =>
+      textResponse('{"fruits": "apple"}'),
+    );
+
+    await expectAsync(
+      client.models.generateContentParsed({
+        model: 'gemini-2.5-flash',
+        contents: 'List fruits.',
+        schema: fruitsSchema,
+        maxValidationRetries: 1,
+      }),
+    ).toBeRejectedWithError(StructuredOutputError, /fruits must be of type/);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+});
 describe('generateContentStream', () => {
   it('should append MCP usage header streaming', async () => {
     const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
@@ -1403,6 +1664,86 @@ describe('generateContentStream', () => {
   });
 });
 
+describe('generateContentStream with streamed function call arguments', () => {
+  function sseResponse(...chunks: types.Part[][]): Response {
+    return new Response(
+      chunks
+        .map(
+          (parts) =>
+            `data: ${JSON.stringify({
+              candidates: [{content: {role: 'model', parts}}],
+            })}\n\n`,
+        )
+        .join(''),
+      fetchOkOptions,
+    );
+  }
+
+  it('calls the function once its arguments are complete', async () => {
+    const client = new GoogleGenAI({vertexai: true, apiKey: 'fake-api-key'});
+    const handler = jasmine
+      .createSpy('handler')
+      .and.resolveTo({forecast: 'Sunny'});
+    const fetchSpy = spyOn(global, 'fetch').and.returnValues(
+      Promise.resolve(
+        sseResponse(
+          [{functionCall: {name: 'getWeather', willContinue: true}}],
+          [
+            {
+              functionCall: {
+                partialArgs: [
+                  {jsonPath: '$.city', stringValue: 'Bos', willContinue: true},
+                ],
+                willContinue: true,
+              },
+            },
+          ],
+          [
+            {
+              functionCall: {
+                partialArgs: [{jsonPath: '$.city', stringValue: 'ton'}],
+                willContinue: true,
+              },
+            },
+          ],
+          [{functionCall: {}}],
+        ),
+      ),
+      Promise.resolve(sseResponse([{text: 'It is sunny in Boston.'}])),
+    );
+
+    const stream = await client.models.generateContentStream({
+      model: 'gemini-2.5-flash',
+      contents: 'What is the weather in Boston?',
+      config: {
+        tools: [functionTool({name: 'getWeather', handler})],
+        toolConfig: {
+          functionCallingConfig: {streamFunctionCallArguments: true},
+        },
+      },
+    });
+    const progress: unknown[] = [];
+    stream.on('functionCallArgs', (partialArgs, snapshot) =>
+      progress.push(snapshot.args),
+    );
+    const response = await stream.finalResponse();
+
+    expect(progress).toEqual([{}, {city: 'Bos'}, {city: 'Boston'}]);
+    expect(handler).toHaveBeenCalledOnceWith(
+      {city: 'Boston'},
+      jasmine.anything(),
+    );
+    const contents = JSON.parse(
+      fetchSpy.calls.argsFor(1)[1]!.body as string,
+    ).contents;
+    expect(contents[1]).toEqual({
+      role: 'model',
+      parts: [{functionCall: {name: 'getWeather', args: {city: 'Boston'}}}],
+    });
+    expect(response.text).toBe('It is sunny in Boston.');
+  });
+});
+
 describe('generateContentStream regression', () => {
   it('should handle large fragmented SSE payloads correctly', async () => {
     const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
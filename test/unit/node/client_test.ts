@@ -220,6 +220,29 @@ describe('Client', () => {
       NodeUploader,
     );
   });
+  it('should send requests through the custom fetch', async () => {
+    const customFetch = jasmine.createSpy('customFetch').and.callFake(() =>
+      Promise.resolve(
+        new Response(JSON.stringify({name: 'models/gemini-2.0-flash'}), {
+          status: 200,
+          headers: {'Content-Type': 'application/json'},
+        }),
+      ),
+    );
+    const globalFetch = spyOn(global, 'fetch');
+    const client = new GoogleGenAI({
+      apiKey: 'test-api-key',
+      fetch: customFetch,
+    });
+
+    await client.models.get({model: 'gemini-2.0-flash'});
+
+    expect(customFetch).toHaveBeenCalledTimes(1);
+    expect(customFetch.calls.mostRecent().args[0]).toContain(
+      'models/gemini-2.0-flash',
+    );
+    expect(globalFetch).not.toHaveBeenCalled();
+  });
   it('should persist base URL specified from HttpOptions Mldev', () => {
     setDefaultBaseUrls({
       geminiUrl: 'https://custom-gemini-base-url.googleapis.com',
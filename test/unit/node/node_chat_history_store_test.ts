@@ -0,0 +1,74 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+import {CHAT_SNAPSHOT_VERSION, ChatSnapshot} from '../../../src/chats.js';
+import {FileChatHistoryStore} from '../../../src/node/node_chat_history_store.js';
+
+describe('FileChatHistoryStore', () => {
+  let directory: string;
+  const snapshot: ChatSnapshot = {
+    version: CHAT_SNAPSHOT_VERSION,
+    model: 'gemini-2.5-flash',
+    config: {temperature: 0.5},
+    history: [
+      {role: 'user', parts: [{text: 'hello'}]},
+      {role: 'model', parts: [{text: 'hi'}]},
+    ],
+    curatedHistory: [
+      {role: 'user', parts: [{text: 'hello'}]},
+      {role: 'model', parts: [{text: 'hi'}]},
+    ],
+  };
+
+  beforeEach(async () => {
+    const tempDirectory = await fs.mkdtemp(
+      path.join(os.tmpdir(), 'chat-history-'),
+    );
+    directory = path.join(tempDirectory, 'sessions');
+  });
+
+  afterEach(async () => {
+    await fs.rm(path.dirname(directory), {recursive: true, force: true});
+  });
+
+  it('saves and loads snapshots across store instances', async () => {
+    await new FileChatHistoryStore(directory).save('session-1', snapshot);
+
+    const loaded = await new FileChatHistoryStore(directory).load('session-1');
+
+    expect(loaded).toEqual(snapshot);
+  });
+
+  it('returns undefined for unknown sessions', async () => {
+    const store = new FileChatHistoryStore(directory);
+
+    expect(await store.load('unknown')).toBeUndefined();
+    // Deleting an unknown session is not an error.
+    await store.delete('unknown');
+  });
+
+  it('deletes snapshots', async () => {
+    const store = new FileChatHistoryStore(directory);
+    await store.save('session-1', snapshot);
+
+    await store.delete('session-1');
+
+    expect(await store.load('session-1')).toBeUndefined();
+  });
+
+  it('keeps session files inside the directory', async () => {
+    const store = new FileChatHistoryStore(directory);
+
+    await store.save('../escape/session', snapshot);
+
+    expect(await fs.readdir(directory)).toEqual(['..%2Fescape%2Fsession.json']);
+    expect(await store.load('../escape/session')).toEqual(snapshot);
+  });
+});
@@ -4,6 +4,9 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import {Readable} from 'node:stream';
+
+import {UploadProgress} from '../../../src/_uploader.js';
 import {GoogleGenAI} from '../../../src/node/node_client.js';
 import {createZeroFilledTempFile} from '../../_generate_test_file.js';
 
@@ -219,4 +222,367 @@ describe('Node uploader', () => {
       console.log(`byteProcessed: ${byteProcessed}, fileSize: ${fileSize}`);
     });
   });
+
+  describe('Resumable uploads', () => {
+    const fileSize = 1024 * 1024 * 20; // bytes
+    let testBlob: Blob;
+
+    beforeEach(() => {
+      testBlob = new Blob([new Uint8Array(fileSize)], {
+        type: DEFAULT_TEST_MIMETYPE,
+      });
+    });
+
+    function uploadResponse(
+      status: string,
+      headers: Record<string, string> = {},
+    ): Promise<Response> {
+      return Promise.resolve(
+        new Response(
+          JSON.stringify(status === 'final' ? {file: {name: 'files/abc'}} : {}),
+          {
+            status: 200,
+            headers: {
+              'Content-Type': 'application/json',
+              'x-goog-upload-status': status,
+              ...headers,
+            },
+          },
+        ),
+      );
+    }
+
+    function requestHeaders(init: RequestInit | undefined): Headers {
+      return new Headers(init?.headers);
+    }
+
+    it('should report the progress of each chunk', async () => {
+      const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+      spyOn(global, 'fetch').and.returnValues(
+        uploadResponse('active', {'x-goog-upload-url': TEST_UPLOAD_URL}),
+        uploadResponse('active'),
+        uploadResponse('active'),
+        uploadResponse('final'),
+      );
+      const progress: UploadProgress[] = [];
+
+      const file = await client.files.upload({
+        file: testBlob,
+        config: {onProgress: (p) => progress.push(p)},
+      });
+
+      expect(file.name).toBe('files/abc');
+      expect(progress).toEqual([
+        {
+          uploadUrl: TEST_UPLOAD_URL,
+          bytesUploaded: 0,
+          totalBytes: fileSize,
+        },
+        {
+          uploadUrl: TEST_UPLOAD_URL,
+          bytesUploaded: DEFAULT_CHUNK_SIZE,
+          totalBytes: fileSize,
+        },
+        {
+          uploadUrl: TEST_UPLOAD_URL,
+          bytesUploaded: 2 * DEFAULT_CHUNK_SIZE,
+          totalBytes: fileSize,
+        },
+        {
+          uploadUrl: TEST_UPLOAD_URL,
+          bytesUploaded: fileSize,
+          totalBytes: fileSize,
+        },
+      ]);
+    });
+
+    it('should report the upload URL before the first chunk', async () => {
+      const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+      spyOn(global, 'fetch').and.returnValues(
+        uploadResponse('active', {'x-goog-upload-url': TEST_UPLOAD_URL}),
+        Promise.reject(new TypeError('fetch failed')),
+      );
+      const progress: UploadProgress[] = [];
+
+      await expectAsync(
+        client.files.upload({
+          file: testBlob,
+          config: {onProgress: (p) => progress.push(p)},
+        }),
+      ).toBeRejected();
+
+      expect(progress).toEqual([
+        {uploadUrl: TEST_UPLOAD_URL, bytesUploaded: 0, totalBytes: fileSize},
+      ]);
+    });
+
+    it('should resume from the offset the server has received', async () => {
+      const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+      const fetchSpy = spyOn(global, 'fetch').and.returnValues(
+        uploadResponse('active', {
+          'x-goog-upload-size-received': String(2 * DEFAULT_CHUNK_SIZE),
+        }),
+        uploadResponse('final'),
+      );
+
+      const file = await client.files.upload({
+        file: testBlob,
+        config: {resumeUploadUrl: TEST_UPLOAD_URL},
+      });
+
+      expect(file.name).toBe('files/abc');
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+      const [[queryUrl, queryInit], [, chunkInit]] = fetchSpy.calls.allArgs();
+      expect(queryUrl).toBe(TEST_UPLOAD_URL);
+      expect(requestHeaders(queryInit).get('X-Goog-Upload-Command')).toBe(
+        'query',
+      );
+      expect(requestHeaders(chunkInit).get('X-Goog-Upload-Command')).toBe(
+        'upload, finalize',
+      );
+      expect(requestHeaders(chunkInit).get('X-Goog-Upload-Offset')).toBe(
+        String(2 * DEFAULT_CHUNK_SIZE),
+      );
+      expect((chunkInit?.body as Blob).size).toBe(
+        fileSize - 2 * DEFAULT_CHUNK_SIZE,
+      );
+    });
+
+    it('should return the file of an upload that was already finalized', async () => {
+      const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+      const fetchSpy = spyOn(global, 'fetch').and.returnValues(
+        uploadResponse('final'),
+      );
+
+      const file = await client.files.upload({
+        file: testBlob,
+        config: {resumeUploadUrl: TEST_UPLOAD_URL},
+      });
+
+      expect(file.name).toBe('files/abc');
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw when the upload was cancelled', async () => {
+      const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+      spyOn(global, 'fetch').and.returnValues(uploadResponse('cancelled'));
+
+      await expectAsync(
+        client.files.upload({
+          file: testBlob,
+          config: {resumeUploadUrl: TEST_UPLOAD_URL},
+        }),
+      ).toBeRejectedWithError(
+        'Failed to resume upload: Upload status is cancelled.',
+      );
+    });
+
+    it('should resume an upload to a file search store', async () => {
+      const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+      const fetchSpy = spyOn(global, 'fetch').and.returnValues(
+        uploadResponse('active', {
+          'x-goog-upload-size-received': String(fileSize),
+        }),
+        uploadResponse('final'),
+      );
+      const progress: UploadProgress[] = [];
+
+      await client.fileSearchStores.uploadToFileSearchStore({
+        fileSearchStoreName: 'fileSearchStores/store',
+        file: testBlob,
+        config: {
+          resumeUploadUrl: TEST_UPLOAD_URL,
+          onProgress: (p) => progress.push(p),
+        },
+      });
+
+      const chunkInit = fetchSpy.calls.argsFor(1)[1];
+      expect(requestHeaders(chunkInit).get('X-Goog-Upload-Offset')).toBe(
+        String(fileSize),
+      );
+      expect((chunkInit?.body as Blob).size).toBe(0);
+      expect(progress).toEqual([
+        {
+          uploadUrl: TEST_UPLOAD_URL,
+          bytesUploaded: fileSize,
+          totalBytes: fileSize,
+        },
+        {
+          uploadUrl: TEST_UPLOAD_URL,
+          bytesUploaded: fileSize,
+          totalBytes: fileSize,
+        },
+      ]);
+    });
+  });
+
+  describe('Streams', () => {
+    function uploadResponse(
+      status: string,
+      headers: Record<string, string> = {},
+    ): Promise<Response> {
+      return Promise.resolve(
+        new Response(
+          JSON.stringify(status === 'final' ? {file: {name: 'files/abc'}} : {}),
+          {
+            status: 200,
+            headers: {
+              'Content-Type': 'application/json',
+              'x-goog-upload-status': status,
+              ...headers,
+            },
+          },
+        ),
+      );
+    }
+
+    function chunkRequests(fetchSpy: jasmine.Spy<typeof fetch>) {
+      return fetchSpy.calls.allArgs().map(([, init]) => {
+        const headers = new Headers(init?.headers);
+        return {
+          command: headers.get('X-Goog-Upload-Command'),
+          offset: headers.get('X-Goog-Upload-Offset'),
+          size: (init?.body as Blob | undefined)?.size,
+        };
+      });
+    }
+
+    it('should upload a Node Readable of unknown size until it ends', async () => {
+      const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+      const fetchSpy = spyOn(global, 'fetch').and.returnValues(
+        uploadResponse('active', {'x-goog-upload-url': TEST_UPLOAD_URL}),
+        uploadResponse('active'),
+        uploadResponse('active'),
+        uploadResponse('final'),
+      );
+      const parts = Array.from({length: 4}, () =>
+        Buffer.alloc(DEFAULT_CHUNK_SIZE / 2),
+      );
+
+      const file = await client.files.upload({
+        file: Readable.from(parts),
+        config: {mimeType: 'video/mp4'},
+      });
+
+      expect(file.name).toBe('files/abc');
+      const startHeaders = new Headers(fetchSpy.calls.argsFor(0)[1]?.headers);
+      expect(
+        startHeaders.has('X-Goog-Upload-Header-Content-Length'),
+      ).toBeFalse();
+      expect(chunkRequests(fetchSpy).slice(1)).toEqual([
+        {command: 'upload', offset: '0', size: DEFAULT_CHUNK_SIZE},
+        {
+          command: 'upload',
+          offset: String(DEFAULT_CHUNK_SIZE),
+          size: DEFAULT_CHUNK_SIZE,
+        },
+        {
+          command: 'upload, finalize',
+          offset: String(2 * DEFAULT_CHUNK_SIZE),
+          size: 0,
+        },
+      ]);
+    });
+
+    it('should upload a web ReadableStream of known size', async () => {
+      const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+      const fetchSpy = spyOn(global, 'fetch').and.returnValues(
+        uploadResponse('active', {'x-goog-upload-url': TEST_UPLOAD_URL}),
+        uploadResponse('final'),
+      );
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('Hello, '));
+          controller.enqueue(new TextEncoder().encode('world!'));
+          controller.close();
+        },
+      });
+
+      await client.files.upload({
+        file: stream,
+        config: {mimeType: 'text/plain', sizeBytes: 13},
+      });
+
+      const startHeaders = new Headers(fetchSpy.calls.argsFor(0)[1]?.headers);
+      expect(startHeaders.get('X-Goog-Upload-Header-Content-Length')).toBe(
+        '13',
+      );
+      expect(chunkRequests(fetchSpy)[1]).toEqual({
+        command: 'upload, finalize',
+        offset: '0',
+        size: 13,
+      });
+      const body = fetchSpy.calls.argsFor(1)[1]?.body as Blob;
+      expect(await body.text()).toBe('Hello, world!');
+    });
+
+    it('should upload a Buffer', async () => {
+      const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+      const fetchSpy = spyOn(global, 'fetch').and.returnValues(
+        uploadResponse('active', {'x-goog-upload-url': TEST_UPLOAD_URL}),
+        uploadResponse('final'),
+      );
+
+      await client.files.upload({
+        file: Buffer.from('Hello'),
+        config: {mimeType: 'text/plain'},
+      });
+
+      const startHeaders = new Headers(fetchSpy.calls.argsFor(0)[1]?.headers);
+      expect(startHeaders.get('X-Goog-Upload-Header-Content-Length')).toBe('5');
+      expect(chunkRequests(fetchSpy)[1]).toEqual({
+        command: 'upload, finalize',
+        offset: '0',
+        size: 5,
+      });
+    });
+
+    it('should require the MIME type of a stream', async () => {
+      const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+
+      await expectAsync(
+        client.files.upload({file: Readable.from([Buffer.from('Hello')])}),
+      ).toBeRejectedWithError(
+        'Can not determine mimeType. Please provide mimeType in the config.',
+      );
+    });
+
+    it('should throw when the stream is shorter than its size', async () => {
+      const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+      spyOn(global, 'fetch').and.returnValues(
+        uploadResponse('active', {'x-goog-upload-url': TEST_UPLOAD_URL}),
+      );
+
+      await expectAsync(
+        client.files.upload({
+          file: Readable.from([Buffer.from('Hello')]),
+          config: {mimeType: 'text/plain', sizeBytes: 10},
+        }),
+      ).toBeRejectedWithError(
+        'Failed to read 10 bytes from file at offset 0. bytes actually read: 5',
+      );
+    });
+
+    it('should skip the bytes the server has received when resumed', async () => {
+      const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+      const fetchSpy = spyOn(global, 'fetch').and.returnValues(
+        uploadResponse('active', {'x-goog-upload-size-received': '5'}),
+        uploadResponse('final'),
+      );
+
+      await client.fileSearchStores.uploadToFileSearchStore({
+        fileSearchStoreName: 'fileSearchStores/store',
+        file: Readable.from([Buffer.from('Hello'), Buffer.from(', world!')]),
+        config: {resumeUploadUrl: TEST_UPLOAD_URL},
+      });
+
+      expect(chunkRequests(fetchSpy)[1]).toEqual({
+        command: 'upload, finalize',
+        offset: '5',
+        size: 8,
+      });
+      const body = fetchSpy.calls.argsFor(1)[1]?.body as Blob;
+      expect(await body.text()).toBe(', world!');
+    });
+  });
 });
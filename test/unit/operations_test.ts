@@ -0,0 +1,189 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {GoogleGenAI} from '../../src/client.js';
+import {OperationError, OperationTimeoutError} from '../../src/errors.js';
+import {GenerateVideosOperation, ImportFileOperation} from '../../src/types.js';
+import {skipTimeouts} from '../_fake_timeouts.js';
+
+function operationResponse(operation: Record<string, unknown>): Response {
+  return new Response(JSON.stringify(operation), {
+    status: 200,
+    headers: {'Content-Type': 'application/json'},
+  });
+}
+
+describe('Operations.wait', () => {
+  let client: GoogleGenAI;
+  let delays: number[];
+
+  beforeEach(() => {
+    client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+    delays = skipTimeouts();
+  });
+
+  it('polls a video generation until it is done', async () => {
+    const fetchSpy = spyOn(global, 'fetch').and.returnValues(
+      Promise.resolve(
+        operationResponse({name: 'models/veo/operations/abc', done: false}),
+      ),
+      Promise.resolve(
+        operationResponse({
+          name: 'models/veo/operations/abc',
+          done: true,
+          response: {
+            generateVideoResponse: {
+              generatedSamples: [{video: {uri: 'https://video'}}],
+            },
+          },
+        }),
+      ),
+    );
+    const operation = Object.assign(new GenerateVideosOperation(), {
+      name: 'models/veo/operations/abc',
+    });
+    const progress: boolean[] = [];
+
+    const completed = await client.operations.wait(operation, {
+      onProgress: (current) => progress.push(current.done === true),
+    });
+
+    expect(completed).toBeInstanceOf(GenerateVideosOperation);
+    expect(completed.response?.generatedVideos?.[0]?.video?.uri).toBe(
+      'https://video',
+    );
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    expect(fetchSpy.calls.argsFor(0)[0]).toMatch(
+      /\/models\/veo\/operations\/abc$/,
+    );
+    expect(progress).toEqual([false, true]);
+  });
+
+  it('increases the poll interval up to the maximum', async () => {
+    spyOn(global, 'fetch').and.callFake(async () =>
+      operationResponse({name: 'operations/abc', done: false}),
+    );
+    const operation = Object.assign(new ImportFileOperation(), {
+      name: 'operations/abc',
+    });
+    let polls = 0;
+
+    await client.operations.wait(operation, {
+      pollInterval: 1,
+      backoff: 2,
+      maxPollInterval: 5,
+      onProgress: (current) => {
+        if (++polls === 4) {
+          current.done = true;
+        }
+      },
+    });
+
+    expect(delays).toEqual([1000, 2000, 4000, 5000]);
+  });
+
+  it('returns an operation that is already done', async () => {
+    const fetchSpy = spyOn(global, 'fetch');
+    const operation = Object.assign(new ImportFileOperation(), {
+      name: 'operations/abc',
+      done: true,
+    });
+
+    expect(await client.operations.wait(operation)).toBe(operation);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('throws an OperationError when the operation fails', async () => {
+    spyOn(global, 'fetch').and.callFake(async () =>
+      operationResponse({
+        name: 'operations/abc',
+        done: true,
+        error: {code: 3, message: 'Unsupported file type.'},
+      }),
+    );
+    const operation = Object.assign(new ImportFileOperation(), {
+      name: 'operations/abc',
+    });
+
+    const error = await client.operations.wait(operation).then(
+      () => undefined,
+      (e: unknown) => e,
+    );
+
+    expect(error).toBeInstanceOf(OperationError);
+    const operationError = error as OperationError;
+    expect(operationError.message).toBe(
+      'Operation operations/abc failed: Unsupported file type.',
+    );
+    expect(operationError.code).toBe(3);
+    expect(operationError.operation).toBeInstanceOf(ImportFileOperation);
+  });
+
+  it('throws an OperationTimeoutError after the timeout', async () => {
+    spyOn(global, 'fetch').and.callFake(async () =>
+      operationResponse({name: 'operations/abc', done: false}),
+    );
+    let now = 0;
+    spyOn(Date, 'now').and.callFake(() => now);
+    const operation = Object.assign(new ImportFileOperation(), {
+      name: 'operations/abc',
+    });
+
+    await expectAsync(
+      client.operations.wait(operation, {
+        pollInterval: 4,
+        backoff: 1,
+        timeout: 10,
+        onProgress: () => {
+          now += 4000;
+        },
+      }),
+    ).toBeRejectedWithError(
+      OperationTimeoutError,
+      'Operation operations/abc did not complete within 10 seconds.',
+    );
+    expect(delays).toEqual([4000, 4000, 2000]);
+  });
+
+  it('stops waiting when aborted', async () => {
+    const fetchSpy = spyOn(global, 'fetch');
+    const controller = new AbortController();
+    controller.abort(new Error('Stopped.'));
+    const operation = Object.assign(new ImportFileOperation(), {
+      name: 'operations/abc',
+    });
+
+    await expectAsync(
+      client.operations.wait(operation, {abortSignal: controller.signal}),
+    ).toBeRejectedWithError('Stopped.');
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('passes the abort signal to the polls of a Vertex AI operation', async () => {
+    const vertexClient = new GoogleGenAI({
+      vertexai: true,
+      apiKey: 'fake-api-key',
+    });
+    const controller = new AbortController();
+    let abortedDuringPoll: boolean | undefined;
+    spyOn(global, 'fetch').and.callFake(async (_input, init) => {
+      controller.abort(new Error('Stopped.'));
+      abortedDuringPoll = init?.signal?.aborted;
+      return operationResponse({
+        name: 'projects/p/locations/l/publishers/google/models/veo/operations/abc',
+        done: false,
+      });
+    });
+    const operation = Object.assign(new GenerateVideosOperation(), {
+      name: 'projects/p/locations/l/publishers/google/models/veo/operations/abc',
+    });
+
+    await expectAsync(
+      vertexClient.operations.wait(operation, {abortSignal: controller.signal}),
+    ).toBeRejected();
+    expect(abortedDuringPoll).toBeTrue();
+  });
+});
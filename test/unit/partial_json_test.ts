@@ -0,0 +1,50 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {parsePartialJson} from '../../src/_partial_json.js';
+
+describe('parsePartialJson', () => {
+  it('should parse complete JSON', () => {
+    const text =
+      '{"a": [1, -2.5e3, true, false, null], "b": {"c": "\\u00e9\\n"}}';
+    expect(parsePartialJson(text)).toEqual(JSON.parse(text));
+  });
+
+  it('should close open strings, arrays and objects', () => {
+    expect(parsePartialJson('{"name": "Pan')).toEqual({name: 'Pan'});
+    expect(parsePartialJson('{"steps": ["mix", "ba')).toEqual({
+      steps: ['mix', 'ba'],
+    });
+    expect(parsePartialJson('[{"a": 1}, {"b": [')).toEqual([{a: 1}, {b: []}]);
+  });
+
+  it('should leave out properties that have not started', () => {
+    expect(parsePartialJson('{"a": 1, "b')).toEqual({a: 1});
+    expect(parsePartialJson('{"a": 1, "b"')).toEqual({a: 1});
+    expect(parsePartialJson('{"a": 1, "b": ')).toEqual({a: 1});
+  });
+
+  it('should leave out values that may still change meaning', () => {
+    expect(parsePartialJson('{"a": tr')).toEqual({});
+    expect(parsePartialJson('[1, -')).toEqual([1]);
+    expect(parsePartialJson('[1.')).toEqual([]);
+    expect(parsePartialJson('[12')).toEqual([12]);
+    expect(parsePartialJson('"a\\')).toEqual('a');
+    expect(parsePartialJson('"a\\u00')).toEqual('a');
+  });
+
+  it('should return undefined before a value has started', () => {
+    expect(parsePartialJson('')).toBeUndefined();
+    expect(parsePartialJson('  ')).toBeUndefined();
+    expect(parsePartialJson('n')).toBeUndefined();
+  });
+
+  it('should reject text that is not JSON', () => {
+    expect(() => parsePartialJson('{"a" 1}')).toThrowError(SyntaxError);
+    expect(() => parsePartialJson('[1] x')).toThrowError(SyntaxError);
+    expect(() => parsePartialJson('hello')).toThrowError(SyntaxError);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {RateLimiter, modelFromPath} from '../../src/rate_limiter.js';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date(2025, 0, 1));
+  });
+
+  afterEach(() => {
+    jasmine.clock().uninstall();
+  });
+
+  /** Lets resolved promise callbacks run. */
+  async function flush() {
+    for (let i = 0; i < 5; i++) {
+      await Promise.resolve();
+    }
+  }
+
+  /** Starts acquiring and records whether the permit was granted. */
+  function track(promise: Promise<() => void>) {
+    const state: {release?: () => void; error?: unknown} = {};
+    promise.then(
+      (release) => (state.release = release),
+      (error: unknown) => (state.error = error),
+    );
+    return state;
+  }
+
+  it('should limit requests per minute', async () => {
+    const limiter = new RateLimiter({requestsPerMinute: 2});
+    const first = track(limiter.acquire('gemini', 0));
+    const second = track(limiter.acquire('gemini', 0));
+    const third = track(limiter.acquire('gemini', 0));
+    await flush();
+    expect(first.release).toBeDefined();
+    expect(second.release).toBeDefined();
+    expect(third.release).toBeUndefined();
+
+    jasmine.clock().tick(59_999);
+    await flush();
+    expect(third.release).toBeUndefined();
+
+    jasmine.clock().tick(1);
+    await flush();
+    expect(third.release).toBeDefined();
+  });
+
+  it('should keep a bucket per model', async () => {
+    const limiter = new RateLimiter({requestsPerMinute: 1});
+    const first = track(limiter.acquire('gemini-a', 0));
+    const blocked = track(limiter.acquire('gemini-a', 0));
+    const other = track(limiter.acquire('gemini-b', 0));
+    await flush();
+    expect(first.release).toBeDefined();
+    expect(blocked.release).toBeUndefined();
+    expect(other.release).toBeDefined();
+  });
+
+  it('should share one bucket when perModel is false', async () => {
+    const limiter = new RateLimiter({requestsPerMinute: 1, perModel: false});
+    track(limiter.acquire('gemini-a', 0));
+    const other = track(limiter.acquire('gemini-b', 0));
+    await flush();
+    expect(other.release).toBeUndefined();
+  });
+
+  it('should limit tokens per minute', async () => {
+    const limiter = new RateLimiter({tokensPerMinute: 100});
+    const first = track(limiter.acquire('gemini', 60));
+    jasmine.clock().tick(10_000);
+    const second = track(limiter.acquire('gemini', 30));
+    const third = track(limiter.acquire('gemini', 30));
+    await flush();
+    expect(first.release).toBeDefined();
+    expect(second.release).toBeDefined();
+    expect(third.release).toBeUndefined();
+
+    // The first request leaves the window 60s after it was sent.
+    jasmine.clock().tick(50_000);
+    await flush();
+    expect(third.release).toBeDefined();
+  });
+
+  it('should send a request above the token limit once the window is empty', async () => {
+    const limiter = new RateLimiter({tokensPerMinute: 100});
+    track(limiter.acquire('gemini', 10));
+    const large = track(limiter.acquire('gemini', 500));
+    await flush();
+    expect(large.release).toBeUndefined();
+
+    jasmine.clock().tick(60_000);
+    await flush();
+    expect(large.release).toBeDefined();
+  });
+
+  it('should limit concurrent requests across models', async () => {
+    const limiter = new RateLimiter({maxConcurrentRequests: 1});
+    const first = track(limiter.acquire('gemini-a', 0));
+    const second = track(limiter.acquire('gemini-b', 0));
+    await flush();
+    expect(first.release).toBeDefined();
+    expect(second.release).toBeUndefined();
+
+    first.release!();
+    // Releasing twice must not free a second slot.
+    first.release!();
+    await flush();
+    expect(second.release).toBeDefined();
+  });
+
+  it('should hold back a paused model', async () => {
+    const limiter = new RateLimiter({requestsPerMinute: 100});
+    limiter.pause('gemini', 2);
+    const paused = track(limiter.acquire('gemini', 0));
+    const other = track(limiter.acquire('other', 0));
+    await flush();
+    expect(paused.release).toBeUndefined();
+    expect(other.release).toBeDefined();
+
+    jasmine.clock().tick(2_000);
+    await flush();
+    expect(paused.release).toBeDefined();
+  });
+
+  it('should stop waiting when aborted', async () => {
+    const limiter = new RateLimiter({requestsPerMinute: 1});
+    track(limiter.acquire('gemini', 0));
+    const controller = new AbortController();
+    const aborted = track(limiter.acquire('gemini', 0, controller.signal));
+    const next = track(limiter.acquire('gemini', 0));
+    controller.abort();
+    await flush();
+    expect(aborted.error).toBeDefined();
+
+    jasmine.clock().tick(60_000);
+    await flush();
+    // The aborted request did not use up the next slot.
+    expect(next.release).toBeDefined();
+  });
+
+  it('should only estimate tokens when they are limited', async () => {
+    const estimateTokens = jasmine
+      .createSpy('estimateTokens')
+      .and.returnValue(7);
+    const request = {path: 'models/gemini:generateContent', body: {a: 1}};
+
+    expect(
+      await new RateLimiter({estimateTokens}).estimateTokens(request),
+    ).toEqual(0);
+    expect(estimateTokens).not.toHaveBeenCalled();
+
+    expect(
+      await new RateLimiter({
+        tokensPerMinute: 10,
+        estimateTokens,
+      }).estimateTokens(request),
+    ).toEqual(7);
+    expect(
+      await new RateLimiter({tokensPerMinute: 10}).estimateTokens(request),
+    ).toEqual(2);
+  });
+});
+
+describe('modelFromPath', () => {
+  it('should return the model of a request path', () => {
+    expect(modelFromPath('models/gemini-2.5-flash:generateContent')).toEqual(
+      'gemini-2.5-flash',
+    );
+    expect(
+      modelFromPath(
+        'projects/p/locations/l/publishers/google/models/gemini-2.5-flash:streamGenerateContent',
+      ),
+    ).toEqual('gemini-2.5-flash');
+    expect(modelFromPath('files/abc')).toBeUndefined();
+  });
+});
@@ -0,0 +1,410 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {GoogleGenAI} from '../../src/client.js';
+import {
+  GenerateContentStream,
+  mergeContents,
+  mergeResponses,
+} from '../../src/response_stream.js';
+import {
+  Candidate,
+  FinishReason,
+  GenerateContentResponse,
+} from '../../src/types.js';
+
+function chunk(
+  candidate: Candidate,
+  fields: Partial<GenerateContentResponse> = {},
+): GenerateContentResponse {
+  return Object.assign(new GenerateContentResponse(), {
+    candidates: [candidate],
+    ...fields,
+  });
+}
+
+async function* streamOf(...chunks: GenerateContentResponse[]) {
+  yield* chunks;
+}
+
+const chunks = [
+  chunk({
+    content: {role: 'model', parts: [{text: 'Planning', thought: true}]},
+  }),
+  chunk({content: {role: 'model', parts: [{text: 'The sky '}]}}),
+  chunk({
+    content: {
+      role: 'model',
+      parts: [
+        {text: 'is blue.'},
+        {functionCall: {name: 'getColor', args: {of: 'sky'}}},
+      ],
+    },
+  }),
+];
+
+describe('mergeResponses', () => {
+  it('joins the text of consecutive text parts', () => {
+    const response = mergeResponses(chunks);
+
+    expect(response).toBeInstanceOf(GenerateContentResponse);
+    expect(response.candidates![0].content).toEqual({
+      role: 'model',
+      parts: [
+        {text: 'Planning', thought: true},
+        {text: 'The sky is blue.'},
+        {functionCall: {name: 'getColor', args: {of: 'sky'}}},
+      ],
+    });
+  });
+
+  it('takes the last finish reason and usage metadata', () => {
+    const response = mergeResponses([
+      chunk(
+        {content: {role: 'model', parts: [{text: 'a'}]}},
+        {responseId: 'id', usageMetadata: {totalTokenCount: 5}},
+      ),
+      chunk(
+        {
+          content: {role: 'model', parts: [{text: 'b'}]},
+          finishReason: FinishReason.STOP,
+        },
+        {usageMetadata: {totalTokenCount: 9}},
+      ),
+    ]);
+
+    expect(response.responseId).toBe('id');
+    expect(response.usageMetadata).toEqual({totalTokenCount: 9});
+    expect(response.candidates![0].finishReason).toBe(FinishReason.STOP);
+  });
+
+  it('combines citation, grounding and URL context metadata', () => {
+    const response = mergeResponses([
+      chunk({
+        content: {role: 'model', parts: [{text: 'a'}]},
+        citationMetadata: {citations: [{uri: 'https://a.com'}]},
+        groundingMetadata: {
+          groundingChunks: [{web: {uri: 'https://a.com'}}],
+          groundingSupports: [{groundingChunkIndices: [0]}],
+          webSearchQueries: ['sky'],
+        },
+        urlContextMetadata: {urlMetadata: [{retrievedUrl: 'https://a.com'}]},
+      }),
+      chunk({
+        content: {role: 'model', parts: [{text: 'b'}]},
+        citationMetadata: {citations: [{uri: 'https://b.com'}]},
+        groundingMetadata: {
+          groundingChunks: [{web: {uri: 'https://b.com'}}],
+          groundingSupports: [{groundingChunkIndices: [0]}],
+          webSearchQueries: ['sky', 'color'],
+        },
+        urlContextMetadata: {urlMetadata: [{retrievedUrl: 'https://b.com'}]},
+      }),
+    ]);
+    const candidate = response.candidates![0];
+
+    expect(candidate.citationMetadata!.citations!.length).toBe(2);
+    expect(candidate.groundingMetadata).toEqual({
+      groundingChunks: [
+        {web: {uri: 'https://a.com'}},
+        {web: {uri: 'https://b.com'}},
+      ],
+      groundingSupports: [
+        {groundingChunkIndices: [0]},
+        {groundingChunkIndices: [1]},
+      ],
+      webSearchQueries: ['sky', 'color'],
+    });
+    expect(candidate.urlContextMetadata!.urlMetadata!.length).toBe(2);
+  });
+
+  it('assembles function calls whose arguments are streamed', () => {
+    const response = mergeResponses([
+      chunk({
+        content: {
+          role: 'model',
+          parts: [{functionCall: {name: 'search', willContinue: true}}],
+        },
+      }),
+      chunk({
+        content: {
+          role: 'model',
+          parts: [
+            {
+              functionCall: {
+                partialArgs: [{jsonPath: '$.query', stringValue: 'cats'}],
+                willContinue: true,
+              },
+            },
+          ],
+        },
+      }),
+      chunk({content: {role: 'model', parts: [{functionCall: {}}]}}),
+    ]);
+
+    expect(response.candidates![0].content!.parts).toEqual([
+      {functionCall: {name: 'search', args: {query: 'cats'}}},
+    ]);
+  });
+
+  it('keeps complete function calls out of a streamed one', () => {
+    const response = mergeResponses([
+      chunk({
+        content: {
+          role: 'model',
+          parts: [
+            {functionCall: {name: 'search', willContinue: true}},
+            {functionCall: {name: 'getTime', args: {}}},
+          ],
+        },
+      }),
+      chunk({
+        content: {
+          role: 'model',
+          parts: [
+            {
+              functionCall: {
+                partialArgs: [{jsonPath: '$.query', stringValue: 'cats'}],
+              },
+            },
+          ],
+        },
+      }),
+    ]);
+
+    expect(response.candidates![0].content!.parts).toEqual([
+      {functionCall: {name: 'search', args: {query: 'cats'}}},
+      {functionCall: {name: 'getTime', args: {}}},
+    ]);
+  });
+
+  it('merges the candidates by index', () => {
+    const response = mergeResponses([
+      Object.assign(new GenerateContentResponse(), {
+        candidates: [
+          {index: 0, content: {role: 'model', parts: [{text: 'a'}]}},
+          {index: 1, content: {role: 'model', parts: [{text: 'x'}]}},
+        ],
+      }),
+      Object.assign(new GenerateContentResponse(), {
+        candidates: [
+          {index: 1, content: {role: 'model', parts: [{text: 'y'}]}},
+        ],
+      }),
+    ]);
+
+    expect(
+      response.candidates!.map((candidate) => candidate.content!.parts),
+    ).toEqual([[{text: 'a'}], [{text: 'xy'}]]);
+  });
+});
+
+describe('mergeContents', () => {
+  it('merges consecutive contents of the same role', () => {
+    expect(
+      mergeContents([
+        {role: 'model', parts: [{text: 'a'}]},
+        {role: 'model', parts: [{text: 'b'}]},
+        {role: 'user', parts: [{text: 'c'}]},
+      ]),
+    ).toEqual([
+      {role: 'model', parts: [{text: 'ab'}]},
+      {role: 'user', parts: [{text: 'c'}]},
+    ]);
+  });
+
+  it('does not join text to a part with a thought signature', () => {
+    expect(
+      mergeContents([
+        {role: 'model', parts: [{text: 'a'}]},
+        {role: 'model', parts: [{text: 'b', thoughtSignature: 'c2ln'}]},
+        {role: 'model', parts: [{text: 'c'}]},
+      ]),
+    ).toEqual([
+      {
+        role: 'model',
+        parts: [{text: 'ab', thoughtSignature: 'c2ln'}, {text: 'c'}],
+      },
+    ]);
+  });
+});
+
+describe('GenerateContentStream', () => {
+  it('yields the chunks of the source', async () => {
+    const stream = new GenerateContentStream(streamOf(...chunks));
+    const received = [];
+    for await (const chunk of stream) {
+      received.push(chunk);
+    }
+
+    expect(received).toEqual(chunks);
+  });
+
+  it('emits events as the chunks are read', async () => {
+    const stream = new GenerateContentStream(streamOf(...chunks));
+    const events: unknown[][] = [];
+    stream
+      .on('thought', (delta) => events.push(['thought', delta]))
+      .on('text', (delta, snapshot) => events.push(['text', delta, snapshot]))
+      .on('functionCall', (functionCall) =>
+        events.push(['functionCall', functionCall.name]),
+      )
+      .on('end', (response) =>
+        events.push(['end', response.candidates![0].content!.parts!.length]),
+      );
+
+    await stream.finalResponse();
+
+    expect(events).toEqual([
+      ['thought', 'Planning'],
+      ['text', 'The sky ', 'The sky '],
+      ['text', 'is blue.', 'The sky is blue.'],
+      ['functionCall', 'getColor'],
+      ['end', 3],
+    ]);
+  });
+
+  it('removes listeners', async () => {
+    const stream = new GenerateContentStream(streamOf(...chunks));
+    const listener = jasmine.createSpy('listener');
+    stream.on('chunk', listener).off('chunk', listener);
+
+    await stream.finalResponse();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('yields the text without thoughts', async () => {
+    const stream = new GenerateContentStream(streamOf(...chunks));
+    const texts = [];
+    for await (const text of stream.textStream()) {
+      texts.push(text);
+    }
+
+    expect(texts).toEqual(['The sky ', 'is blue.']);
+  });
+
+  it('returns the final response after the stream was read', async () => {
+    const stream = new GenerateContentStream(streamOf(...chunks.slice(0, 2)));
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    for await (const _ of stream) {
+      // Reads the stream.
+    }
+
+    const response = await stream.finalResponse();
+
+    expect(response.text).toBe('The sky ');
+    expect(await stream.finalResponse()).toBe(response);
+  });
+
+  it('fails a pending read when aborted', async () => {
+    const onAbort = jasmine.createSpy('onAbort');
+    const stream = new GenerateContentStream(
+      (async function* () {
+        yield chunks[1];
+        await new Promise(() => {});
+      })(),
+      onAbort,
+    );
+    const errors: unknown[] = [];
+    stream.on('error', (error) => errors.push(error));
+
+    await stream.next();
+    const read = stream.next();
+    stream.abort(new Error('Stopped.'));
+
+    await expectAsync(read).toBeRejectedWithError('Stopped.');
+    await expectAsync(stream.finalResponse()).toBeRejectedWithError('Stopped.');
+    expect(onAbort).toHaveBeenCalledOnceWith(new Error('Stopped.'));
+    expect(errors.length).toBe(2);
+  });
+
+  it('is returned by generateContentStream and cancels the request', async () => {
+    const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+    let signal: AbortSignal | undefined;
+    spyOn(global, 'fetch').and.callFake(async (_, init) => {
+      signal = init?.signal ?? undefined;
+      return new Response(
+        new ReadableStream({
+          start(controller) {
+            controller.enqueue(
+              new TextEncoder().encode(
+                `data: ${JSON.stringify({
+                  candidates: [
+                    {content: {role: 'model', parts: [{text: 'Hi'}]}},
+                  ],
+                })}\n\n`,
+              ),
+            );
+          },
+        }),
+        {status: 200, statusText: 'OK'},
+      );
+    });
+
+    const stream = await client.models.generateContentStream({
+      model: 'gemini-2.5-flash',
+      contents: 'Hello',
+    });
+    expect((await stream.next()).value.text).toBe('Hi');
+    stream.abort();
+
+    expect(signal?.aborted).toBeTrue();
+    await expectAsync(stream.next()).toBeRejected();
+  });
+
+  it('follows the abort signal of the config', async () => {
+    const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+    const controller = new AbortController();
+    let signal: AbortSignal | undefined;
+    spyOn(global, 'fetch').and.callFake(async (_, init) => {
+      signal = init?.signal ?? undefined;
+      return new Response(new ReadableStream(), {status: 200});
+    });
+
+    await client.models.generateContentStream({
+      model: 'gemini-2.5-flash',
+      contents: 'Hello',
+      config: {abortSignal: controller.signal},
+    });
+    controller.abort();
+
+    expect(signal?.aborted).toBeTrue();
+  });
+
+  it('stops following the abort signal once the stream has ended', async () => {
+    const client = new GoogleGenAI({vertexai: false, apiKey: 'fake-api-key'});
+    const controller = new AbortController();
+    const addSpy = spyOn(
+      controller.signal,
+      'addEventListener',
+    ).and.callThrough();
+    const removeSpy = spyOn(
+      controller.signal,
+      'removeEventListener',
+    ).and.callThrough();
+    spyOn(global, 'fetch').and.callFake(
+      async () =>
+        new Response(
+          `data: ${JSON.stringify({
+            candidates: [{content: {role: 'model', parts: [{text: 'Hi'}]}}],
+          })}\n\n`,
+          {status: 200},
+        ),
+    );
+
+    const stream = await client.models.generateContentStream({
+      model: 'gemini-2.5-flash',
+      contents: 'Hello',
+      config: {abortSignal: controller.signal},
+    });
+    expect(removeSpy).not.toHaveBeenCalled();
+    await stream.finalResponse();
+
+    const listener = addSpy.calls.argsFor(0)[1];
+    expect(removeSpy).toHaveBeenCalledOnceWith('abort', listener);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  FunctionCallAssembler,
+  assembleFunctionCall,
+} from '../../src/_streamed_function_calls.js';
+import {FunctionCall} from '../../src/types.js';
+
+const pieces: FunctionCall[] = [
+  {name: 'createEvent', id: 'call-1', willContinue: true},
+  {
+    partialArgs: [
+      {jsonPath: '$.title', stringValue: 'Team ', willContinue: true},
+    ],
+    willContinue: true,
+  },
+  {
+    partialArgs: [
+      {jsonPath: '$.title', stringValue: 'sync'},
+      {jsonPath: '$.attendees[0].name', stringValue: 'Ana'},
+      {jsonPath: "$.options['all day']", boolValue: false},
+      {jsonPath: '$.duration', numberValue: 30},
+      {jsonPath: '$.location', nullValue: 'NULL_VALUE'},
+    ],
+    willContinue: true,
+  },
+  {},
+];
+
+describe('assembleFunctionCall', () => {
+  it('sets the partial arguments at their JSON paths', () => {
+    const call = pieces.reduce<FunctionCall | undefined>(
+      assembleFunctionCall,
+      undefined,
+    );
+
+    expect(call).toEqual({
+      name: 'createEvent',
+      id: 'call-1',
+      args: {
+        title: 'Team sync',
+        attendees: [{name: 'Ana'}],
+        options: {'all day': false},
+        duration: 30,
+        location: null,
+      },
+    });
+  });
+
+  it('keeps willContinue until the last piece', () => {
+    const call = assembleFunctionCall(
+      assembleFunctionCall(undefined, pieces[0]),
+      pieces[1],
+    );
+
+    expect(call).toEqual({
+      name: 'createEvent',
+      id: 'call-1',
+      args: {title: 'Team '},
+      willContinue: true,
+      partialArgs: pieces[1].partialArgs,
+    });
+  });
+
+  it('replaces string values that do not continue', () => {
+    const call = assembleFunctionCall(
+      assembleFunctionCall(undefined, {
+        name: 'search',
+        partialArgs: [{jsonPath: '$.query', stringValue: 'cats'}],
+        willContinue: true,
+      }),
+      {partialArgs: [{jsonPath: '$.query', stringValue: 'dogs'}]},
+    );
+
+    expect(call.args).toEqual({query: 'dogs'});
+  });
+
+  it('rejects invalid JSON paths', () => {
+    expect(() =>
+      assembleFunctionCall(undefined, {
+        name: 'search',
+        partialArgs: [{jsonPath: 'query', stringValue: 'cats'}],
+      }),
+    ).toThrowError('Invalid JSON path of a partial argument: query');
+  });
+});
+
+describe('FunctionCallAssembler', () => {
+  it('returns the call once it is complete', () => {
+    const assembler = new FunctionCallAssembler();
+
+    const results = pieces.map((piece) => assembler.add(piece));
+
+    expect(results.slice(0, 3)).toEqual([undefined, undefined, undefined]);
+    expect(results[3]!.args!['title']).toBe('Team sync');
+    expect(assembler.pending).toBeUndefined();
+  });
+
+  it('returns calls that are not streamed as they are', () => {
+    const assembler = new FunctionCallAssembler();
+    const call = {name: 'search', args: {query: 'cats'}};
+
+    expect(assembler.add(call)).toBe(call);
+  });
+
+  it('returns complete calls that arrive while a call is streamed', () => {
+    const assembler = new FunctionCallAssembler();
+    const call = {name: 'search', args: {query: 'cats'}};
+
+    assembler.add(pieces[0]);
+    const result = assembler.add(call);
+    const results = pieces.slice(1).map((piece) => assembler.add(piece));
+
+    expect(result).toBe(call);
+    expect(results[2]!.name).toBe('createEvent');
+    expect(results[2]!.args!['title']).toBe('Team sync');
+  });
+});